@@ -0,0 +1,76 @@
+// Admin usage report for the Q&A bot: who uses Claude, for what, and at what cost.
+//
+// GET /api/admin/usage?from=YYYY-MM-DD&to=YYYY-MM-DD   (CT calendar days, inclusive;
+// default: the last 7 days). Authenticated with `Authorization: Bearer <ADMIN_API_SECRET>`.
+// Spend is read from the usage ledger and outcomes from the Q&A audit log, so
+// the figures cover every instance; `instanceCache` is this instance's
+// response-cache counters only.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getUsageEntries } from '../../lib/supabase/usage-ledger';
+import { getQaAuditActivity } from '../../lib/supabase/qa-audit';
+import { summarizeUsage } from '../../lib/analytics/usage';
+import { getCacheStats } from '../../lib/utils/response-cache';
+import { addDaysIso, isoDateCT, startOfDayCT } from '../../lib/utils/dates';
+
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 366;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function queryParam(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // No default secret: usage data names users, so an unset secret locks the route.
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const to = queryParam(req.query.to) ?? isoDateCT();
+  const from = queryParam(req.query.from) ?? addDaysIso(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  if (!ISO_DATE.test(from) || !ISO_DATE.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return res.status(400).json({ error: 'from and to must be YYYY-MM-DD dates' });
+  }
+  if (from > to) {
+    return res.status(400).json({ error: 'from must be on or before to' });
+  }
+  if (daysBetween(from, to) + 1 > MAX_RANGE_DAYS) {
+    return res.status(400).json({ error: `Range is limited to ${MAX_RANGE_DAYS} days` });
+  }
+
+  try {
+    const start = startOfDayCT(from);
+    const end = startOfDayCT(addDaysIso(to, 1));
+    console.log(`[Admin Usage] Loading usage ${from}..${to}...`);
+
+    const [entries, activity] = await Promise.all([
+      getUsageEntries(start, end),
+      getQaAuditActivity(start, end),
+    ]);
+    const report = summarizeUsage(entries, activity);
+    const { size, hits, lookups, hitRate } = getCacheStats();
+
+    return res.status(200).json({
+      range: { from, to, timezone: 'America/Chicago' },
+      ...report,
+      instanceCache: { size, hits, lookups, hitRate },
+    });
+  } catch (error) {
+    console.error('[Admin Usage] ERROR:', error);
+    return res.status(500).json({
+      error: 'Failed to load usage',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
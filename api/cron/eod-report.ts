@@ -1,15 +1,59 @@
-// End of day report cron job (00:00 UTC / 7:00 PM CT)
-// Pulls portfolio + holdings data from the terminal /api/brief endpoint.
-// On-chain metrics still come from Bitcoin Magazine Pro directly.
+// End of day report cron job (7:00 PM CT by default; config.reportSchedules.eod)
+// Pulls portfolio + holdings data from the terminal /api/brief endpoint, and
+// BTCTC movers from /api/btctc. On-chain metrics still come from Bitcoin
+// Magazine Pro directly. The post carries the headline figures; holdings,
+// on-chain and movers are threaded replies under it.
+// `?dryRun=1` renders without posting (lib/slack/report-preview.ts).
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { config } from '../../lib/config';
 import { postMessage } from '../../lib/slack/client';
+import { reportUnitsGuardIncidents } from '../../lib/slack/incidents';
+import { UnitsGuardError, UnitsGuardOutcomes } from '../../lib/terminal/client';
 import { fetchBrief } from '../../lib/terminal/brief';
-import { buildEodReportBlocks } from '../../lib/slack/blocks';
-import { isWeekday } from '../../lib/utils/dates';
+import {
+  EOD_BTCTC_MOVERS_LIMIT,
+  buildDrawdownAlertText,
+  buildEodReportBlocks,
+  buildEodReportReplies,
+  buildStaleFeedAlertText,
+} from '../../lib/slack/blocks';
+import { fetchBtctc } from '../../lib/terminal/btctc';
+import { computeBtctcMovers, type BtctcMovers } from '../../lib/analytics/btctc-movers';
+import {
+  getEodBriefHistory,
+  getEodValueHistory,
+  saveEodBriefSnapshot,
+  snapshotDateCT,
+} from '../../lib/supabase/history';
+import { postReportThread, publishDailyReport } from '../../lib/slack/daily-report';
+import { eodReportFigures } from '../../lib/analytics/report-figures';
+import { sinceMorning } from '../../lib/analytics/since-morning';
+import { getTodaySnapshot } from '../../lib/supabase/client';
+import {
+  getDrawdownAlertThresholds,
+  newlyCrossedThresholds,
+  summarizeDrawdowns,
+} from '../../lib/analytics/drawdown';
+import {
+  FEED_HEALTH_LOOKBACK_DAYS,
+  findStaleFeeds,
+  getStaleFeedAlertDays,
+  staleFeedAlerts,
+} from '../../lib/analytics/feed-health';
+import { addDaysIso, isoDateCT } from '../../lib/utils/dates';
+import { closedHomeMarkets, getMarketDay } from '../../lib/utils/market-calendar';
+import { isScheduledRun } from '../../lib/utils/report-schedule';
 import { fmtUsd } from '../../lib/format';
 import { fetchOnChainMetrics, type OnChainMetrics } from '../../lib/external/bitcoin-magazine-pro';
+import {
+  SAMPLE_BRIEF,
+  SAMPLE_BTCTC_MOVERS,
+  SAMPLE_MORNING_SNAPSHOT,
+  SAMPLE_ON_CHAIN_METRICS,
+  buildReportPreview,
+  getDryRunOptions,
+} from '../../lib/slack/report-preview';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const authHeader = req.headers.authorization;
@@ -17,44 +61,197 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  const dryRun = getDryRunOptions(req.query);
+  const guard = new UnitsGuardOutcomes();
+
   try {
-    if (!isWeekday()) {
-      console.log('Skipping EOD report - not a weekday');
-      return res.status(200).json({ message: 'Skipped - weekend' });
+    // The cron fires at both UTC hours 7:00 PM CT can fall on (DST); only the one
+    // at the scheduled local time runs.
+    const schedule = config.reportSchedules.eod;
+    if (!dryRun.enabled && !isScheduledRun(schedule)) {
+      console.log(`Skipping EOD report - not ${schedule.time} ${schedule.timeZone}`);
+      return res.status(200).json({ message: 'Skipped - outside scheduled time' });
+    }
+
+    // Reports follow NYSE. The CT date, not the server's (UTC on Vercel): the EOD
+    // cron fires after 00:00 UTC, which is still the previous evening in CT.
+    const nyse = getMarketDay('NYSE', isoDateCT());
+    if (!dryRun.enabled && !nyse.open) {
+      console.log(`Skipping EOD report - NYSE closed (${nyse.holiday ?? 'weekend'})`);
+      return res.status(200).json({ message: `Skipped - ${nyse.holiday ?? 'weekend'}` });
     }
 
     const startTime = Date.now();
-    console.log('[EOD Report] Fetching brief + on-chain metrics...');
+    console.log(`[EOD Report] ${dryRun.fixture ? 'Using fixture data' : 'Fetching brief + on-chain metrics'}...`);
 
     // On-chain fetch must not block the report — if BM Pro is down we still want
     // to post the 210K brief section.
-    const [brief, onChainMetrics] = await Promise.all([
-      fetchBrief(),
-      fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
-        console.warn('[EOD Report] On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+    const [brief, onChainMetrics, btctcMovers] = dryRun.fixture
+      ? [SAMPLE_BRIEF, SAMPLE_ON_CHAIN_METRICS, SAMPLE_BTCTC_MOVERS]
+      : await Promise.all([
+          fetchBrief(guard),
+          fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
+            console.warn('[EOD Report] On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+            return null;
+          }),
+          fetchBtctc(guard)
+            .then((b) => computeBtctcMovers(b.companies ?? [], EOD_BTCTC_MOVERS_LIMIT))
+            .catch((err): BtctcMovers | null => {
+              console.warn('[EOD Report] BTCTC fetch failed, skipping movers:', err instanceof Error ? err.message : err);
+              return null;
+            }),
+        ]);
+
+    console.log(`[EOD Report] Data fetched in ${Date.now() - startTime}ms (asOf=${brief.asOf}, on-chain=${onChainMetrics ? 'ok' : 'unavailable'}, btctc=${btctcMovers ? 'ok' : 'unavailable'})`);
+
+    // Drawdown = stored history (before today, so a re-run doesn't count its own
+    // earlier row) + today's live brief. Optional: no Supabase → no section/alert.
+    // Fixture figures don't belong on the real series, so a fixture run skips it.
+    const today = snapshotDateCT();
+    const valueHistory = dryRun.fixture ? null : await getEodValueHistory(addDaysIso(today, -1))
+      .then((history) => [
+        ...history,
+        { date: today, aumUsd: brief.fund.aumUsd, btcPriceUsd: brief.btc.priceUsd },
+      ])
+      .catch((err) => {
+        console.warn('[EOD Report] Drawdown history unavailable, skipping section:', err instanceof Error ? err.message : err);
         return null;
-      }),
-    ]);
+      });
+    const drawdown = valueHistory ? summarizeDrawdowns(valueHistory) : null;
+
+    // Since-this-morning line, against the snapshot the morning cron recorded.
+    // Optional like drawdown: no snapshot (or no Supabase) → no line.
+    const morningSnapshot = dryRun.fixture ? SAMPLE_MORNING_SNAPSHOT : await getTodaySnapshot().catch((err) => {
+      console.warn('[EOD Report] Morning snapshot unavailable, skipping since-morning line:', err instanceof Error ? err.message : err);
+      return null;
+    });
+    const since = sinceMorning(morningSnapshot, brief.fund.aumUsd, brief.btc.priceUsd);
 
-    console.log(`[EOD Report] Data fetched in ${Date.now() - startTime}ms (asOf=${brief.asOf}, on-chain=${onChainMetrics ? 'ok' : 'unavailable'})`);
+    // A compact headline post; the detail goes in threaded replies.
+    const template = config.reportTemplates.eod;
+    const blocks = buildEodReportBlocks(brief, template);
+    const replies = buildEodReportReplies(
+      brief,
+      onChainMetrics,
+      drawdown,
+      closedHomeMarkets(brief.topHoldings, today),
+      since,
+      btctcMovers,
+      template
+    );
+    const fallbackText = `210K BRIEF — AUM ${fmtUsd(brief.fund.aumUsd)}`;
 
-    const blocks = buildEodReportBlocks(brief, onChainMetrics);
+    // Dry run: the report only — no history write, post record or alerts.
+    if (dryRun.enabled) {
+      const postedTo = dryRun.postToTest ? config.channels.testDailyReportsId ?? null : null;
+      if (dryRun.postToTest && !postedTo) {
+        throw new Error('TEST_DAILY_REPORTS_CHANNEL_ID is not configured');
+      }
+      if (postedTo) {
+        await postReportThread(postedTo, fallbackText, blocks, replies);
+      }
+      console.log(`[EOD Report] Dry run rendered${postedTo ? ' and posted to the test channel' : ''}`);
+      return res.status(200).json({
+        message: 'EOD report dry run',
+        ...buildReportPreview('eod', dryRun, fallbackText, blocks, postedTo, replies),
+      });
+    }
 
-    await postMessage(
+    // Posts, or updates the day's earlier post in place on a re-run.
+    const published = await publishDailyReport(
+      'eod',
+      today,
       config.channels.dailyReportsId,
-      `210K BRIEF — AUM ${fmtUsd(brief.fund.aumUsd)}`,
-      { blocks }
+      fallbackText,
+      blocks,
+      eodReportFigures(brief),
+      replies
     );
 
-    console.log('[EOD Report] Successfully posted to Slack');
-    return res.status(200).json({ message: 'EOD report posted successfully' });
+    // Persist the full payload for the history tables. Best-effort: a Supabase
+    // outage must never cost us (or retry) a report that already posted.
+    await saveEodBriefSnapshot(brief, onChainMetrics).catch((err) => {
+      console.warn('[EOD Report] Failed to persist brief history:', err instanceof Error ? err.message : err);
+    });
+
+    // The alerts below are computed from history up to yesterday plus today's
+    // brief, so a same-day re-run would find the same crossings and stale feeds.
+    // They go out with the day's first post only: a day already in the post log
+    // counts as a re-run even when its update fell back to a fresh post.
+    const firstPost = !published.repost;
+
+    // Threshold alert, once per level per drawdown cycle. Best-effort, like the
+    // history write — the report itself has already gone out.
+    if (firstPost && valueHistory && drawdown?.fund) {
+      const crossed = newlyCrossedThresholds(
+        valueHistory.map((d) => ({ date: d.date, value: d.aumUsd })),
+        getDrawdownAlertThresholds()
+      );
+      if (crossed.length > 0) {
+        console.log(`[EOD Report] Drawdown thresholds crossed: ${crossed.join(', ')}`);
+        await postMessage(
+          config.channels.dailyReportsId,
+          buildDrawdownAlertText(crossed, drawdown)
+        ).catch((err) => {
+          console.warn('[EOD Report] Failed to post drawdown alert:', err instanceof Error ? err.message : err);
+        });
+      }
+    }
+
+    // Stale price feeds: stored briefs (before today, as for drawdown) + today's
+    // live holdings. Best-effort ops alert to the ops channel.
+    const feedHistory = firstPost
+      ? await getEodBriefHistory(addDaysIso(today, -FEED_HEALTH_LOOKBACK_DAYS), addDaysIso(today, -1))
+          .catch((err) => {
+            console.warn('[EOD Report] Brief history unavailable, skipping stale feed check:', err instanceof Error ? err.message : err);
+            return null;
+          })
+      : null;
+    if (feedHistory) {
+      const alertDays = getStaleFeedAlertDays();
+      const staleAlerts = staleFeedAlerts(
+        findStaleFeeds([...feedHistory, { date: today, holdings: brief.topHoldings }]),
+        alertDays
+      );
+      if (staleAlerts.length > 0) {
+        console.log(`[EOD Report] Stale price feeds: ${staleAlerts.map((a) => `${a.ticker} (${a.staleDays}d)`).join(', ')}`);
+        await postMessage(
+          config.channels.opsAlertsId,
+          buildStaleFeedAlertText(staleAlerts, alertDays)
+        ).catch((err) => {
+          console.warn('[EOD Report] Failed to post stale feed alert:', err instanceof Error ? err.message : err);
+        });
+      }
+    }
+
+    await reportUnitsGuardIncidents(guard);
+
+    console.log(`[EOD Report] Successfully ${published.updated ? 'updated' : 'posted'} to Slack`);
+    return res.status(200).json({
+      message: `EOD report ${published.updated ? 'updated' : 'posted'} successfully`,
+      changes: published.changes.map((c) => c.label),
+    });
   } catch (error) {
     console.error('[EOD Report] ERROR:', error);
 
+    // A units-guard trip is reported as a structured incident in the ops
+    // channel; the report channel just learns the report was held back.
+    await reportUnitsGuardIncidents(guard);
+
+    // A dry run answers with the error only; the report channel never hears of it.
+    if (dryRun.enabled) {
+      return res.status(500).json({
+        error: 'EOD report dry run failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     try {
       await postMessage(
         config.channels.dailyReportsId,
-        `*ERROR: EOD Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
+        error instanceof UnitsGuardError
+          ? `*EOD Report not posted*\nTerminal data failed the units check (${error.context}); see the ops incident.`
+          : `*ERROR: EOD Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
       );
     } catch (slackError) {
       console.error('[EOD Report] Failed to send error notification to Slack:', slackError);
@@ -0,0 +1,90 @@
+// Intraday holdings move alerts (every 15 minutes, Mon-Fri; no-ops outside
+// 8:30 AM-3:00 PM CT and on NYSE holidays, when positions still carry the last
+// session's 1D and would re-alert it under the new date). Polls the terminal positions and posts large 1D moves
+// as replies in one daily thread in the daily-reports channel, so a holding
+// that falls 18% at 10am is seen at 10am rather than in the 7pm EOD report.
+//
+// De-duplication lives in Supabase (lib/supabase/holding-alerts.ts): a ticker
+// alerts once when it crosses its threshold, then again only when the move
+// widens by the escalation step (broadcast to the channel) or reverses.
+// Failures are logged, not posted — a Slack error every 15 minutes is noise.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { config } from '../../lib/config';
+import { postMessage } from '../../lib/slack/client';
+import { reportUnitsGuardIncidents } from '../../lib/slack/incidents';
+import { UnitsGuardOutcomes } from '../../lib/terminal/client';
+import { fetchPositions } from '../../lib/terminal/positions';
+import {
+  evaluateHoldingMoves,
+  getHoldingMoveAlertConfig,
+  nextAlertStates,
+} from '../../lib/analytics/holding-moves';
+import {
+  getHoldingAlertDay,
+  saveHoldingAlertStates,
+  saveHoldingAlertThread,
+} from '../../lib/supabase/holding-alerts';
+import { buildHoldingAlertThreadText, buildHoldingMoveAlertText } from '../../lib/slack/blocks';
+import { isoDateCT, isUsMarketHoursCT } from '../../lib/utils/dates';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const guard = new UnitsGuardOutcomes();
+
+  try {
+    if (!isUsMarketHoursCT()) {
+      console.log('Skipping holding move alerts - outside market hours or NYSE closed');
+      return res.status(200).json({ message: 'Skipped - outside market hours' });
+    }
+
+    const today = isoDateCT();
+    const channel = config.channels.dailyReportsId;
+
+    console.log('[Holding Alerts] Fetching positions...');
+    const positions = await fetchPositions(guard);
+    await reportUnitsGuardIncidents(guard);
+    const holdings = positions.holdings ?? [];
+
+    // State first: without it we can't de-duplicate, and silence beats spam.
+    const day = await getHoldingAlertDay(today);
+    const alerts = evaluateHoldingMoves(holdings, day.alerts, getHoldingMoveAlertConfig());
+
+    if (alerts.length === 0) {
+      console.log(`[Holding Alerts] No new moves (${holdings.length} holdings checked)`);
+      return res.status(200).json({ message: 'No new holding moves', checked: holdings.length });
+    }
+
+    let threadTs = day.threadTs;
+    if (!threadTs) {
+      const parent = await postMessage(channel, buildHoldingAlertThreadText(today));
+      threadTs = parent.ts ?? null;
+      if (threadTs) {
+        await saveHoldingAlertThread(today, channel, threadTs);
+      }
+    }
+
+    await postMessage(channel, buildHoldingMoveAlertText(alerts), {
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      reply_broadcast: alerts.some((a) => a.kind === 'escalation'),
+    });
+
+    await saveHoldingAlertStates(today, nextAlertStates(alerts, day.alerts));
+
+    const tickers = alerts.map((a) => `${a.holding.ticker}${a.kind === 'escalation' ? ' (escalation)' : ''}`);
+    console.log(`[Holding Alerts] Posted: ${tickers.join(', ')}`);
+    return res.status(200).json({ message: 'Holding move alerts posted', alerts: tickers });
+  } catch (error) {
+    console.error('[Holding Alerts] ERROR:', error);
+    await reportUnitsGuardIncidents(guard);
+    return res.status(500).json({
+      error: 'Failed to check holding moves',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
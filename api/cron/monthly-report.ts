@@ -0,0 +1,84 @@
+// Month-end performance report cron job (9:30 AM CT by default on the first
+// business day; config.reportSchedules.monthly)
+// Runs after the morning report, and builds the closed month, trailing-12 table
+// and YTD compounding from the stored brief history (lib/analytics/monthly.ts).
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { config } from '../../lib/config';
+import { postMessage } from '../../lib/slack/client';
+import { getEodBriefHistory, getMorningBriefHistory } from '../../lib/supabase/history';
+import { summarizeMonth, TRAILING_MONTHS } from '../../lib/analytics/monthly';
+import { computePerformanceStats, getDefaultPerformanceOptions } from '../../lib/analytics/performance';
+import { buildMonthlyReportBlocks } from '../../lib/slack/blocks';
+import { addMonthsKey, isFirstBusinessDayOfMonthCT, monthEndIso, monthKeyCT } from '../../lib/utils/dates';
+import { isScheduledRun } from '../../lib/utils/report-schedule';
+import { fmtPct } from '../../lib/format';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // The cron fires at both UTC hours 9:30 AM CT can fall on (DST); only the one
+    // at the scheduled local time runs.
+    const schedule = config.reportSchedules.monthly;
+    if (!isScheduledRun(schedule)) {
+      console.log(`Skipping monthly report - not ${schedule.time} ${schedule.timeZone}`);
+      return res.status(200).json({ message: 'Skipped - outside scheduled time' });
+    }
+
+    if (!isFirstBusinessDayOfMonthCT()) {
+      console.log('Skipping monthly report - not the first NYSE trading day of the month in CT');
+      return res.status(200).json({ message: 'Skipped - not first business day' });
+    }
+
+    const month = addMonthsKey(monthKeyCT(), -1);
+    const from = `${addMonthsKey(month, -(TRAILING_MONTHS - 1))}-01`;
+    const to = monthEndIso(month);
+    console.log(`[Monthly Report] Loading stored brief history ${from}..${to}...`);
+
+    const [morning, eod] = await Promise.all([
+      getMorningBriefHistory(from, to),
+      getEodBriefHistory(from, to),
+    ]);
+
+    const summary = summarizeMonth(month, morning, eod);
+    if (!summary.closed) {
+      console.warn(`[Monthly Report] No stored morning MTD for ${month} - skipping post`);
+      return res.status(200).json({ message: `Skipped - no stored history for ${month}` });
+    }
+
+    // Risk stats over the same trailing-12-month window as the table; null
+    // (section omitted) until there's enough stored history.
+    const performance = computePerformanceStats(eod, getDefaultPerformanceOptions());
+    const blocks = buildMonthlyReportBlocks(summary, performance);
+
+    await postMessage(
+      config.channels.dailyReportsId,
+      `MONTH-END REPORT ${month} — Fund ${fmtPct(summary.closed.fundReturn)} vs BTC ${fmtPct(summary.closed.btcReturn)}`,
+      { blocks }
+    );
+
+    console.log(`[Monthly Report] Successfully posted to Slack (${summary.trailing.length} stored month(s))`);
+    return res.status(200).json({ message: 'Monthly report posted successfully' });
+  } catch (error) {
+    console.error('[Monthly Report] ERROR:', error);
+
+    try {
+      await postMessage(
+        config.channels.dailyReportsId,
+        `*ERROR: Monthly Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } catch (slackError) {
+      console.error('[Monthly Report] Failed to send error notification to Slack:', slackError);
+    }
+
+    return res.status(500).json({
+      error: 'Failed to generate monthly report',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
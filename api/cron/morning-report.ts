@@ -1,14 +1,31 @@
-// Morning report cron job (9:00 AM CT / 10:00 AM ET)
+// Morning report cron job (9:00 AM CT by default; config.reportSchedules.morning)
 // Pulls fund data from the terminal /api/morning-brief endpoint.
 // On-chain metrics still come from Bitcoin Magazine Pro directly.
+// `?dryRun=1` renders without posting (lib/slack/report-preview.ts).
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { config } from '../../lib/config';
 import { postMessage } from '../../lib/slack/client';
+import { reportUnitsGuardIncidents } from '../../lib/slack/incidents';
+import { UnitsGuardError, UnitsGuardOutcomes } from '../../lib/terminal/client';
 import { fetchMorningBrief } from '../../lib/terminal/morning-brief';
-import { buildMorningReportBlocks } from '../../lib/slack/blocks';
-import { isWeekday } from '../../lib/utils/dates';
+import { buildMorningReportBlocks, buildMorningReportReplies } from '../../lib/slack/blocks';
+import { saveMorningBriefSnapshot } from '../../lib/supabase/history';
+import { saveMorningSnapshot } from '../../lib/supabase/client';
+import { isoDateCT } from '../../lib/utils/dates';
+import { getMarketDay } from '../../lib/utils/market-calendar';
+import { isScheduledRun } from '../../lib/utils/report-schedule';
+import { postReportThread, publishDailyReport } from '../../lib/slack/daily-report';
+import { morningReportFigures } from '../../lib/analytics/report-figures';
 import { fetchOnChainMetrics, type OnChainMetrics } from '../../lib/external/bitcoin-magazine-pro';
+import {
+  SAMPLE_MORNING_BRIEF,
+  SAMPLE_ON_CHAIN_METRICS,
+  buildReportPreview,
+  getDryRunOptions,
+} from '../../lib/slack/report-preview';
+
+const FALLBACK_TEXT = 'Good Morning — Fund Summary';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const authHeader = req.headers.authorization;
@@ -16,44 +33,114 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  const dryRun = getDryRunOptions(req.query);
+  const guard = new UnitsGuardOutcomes();
+
   try {
-    if (!isWeekday()) {
-      console.log('Skipping morning report - not a weekday');
-      return res.status(200).json({ message: 'Skipped - weekend' });
+    // The cron fires at both UTC hours 9:00 AM CT can fall on (DST); only the one
+    // at the scheduled local time runs.
+    const schedule = config.reportSchedules.morning;
+    if (!dryRun.enabled && !isScheduledRun(schedule)) {
+      console.log(`Skipping morning report - not ${schedule.time} ${schedule.timeZone}`);
+      return res.status(200).json({ message: 'Skipped - outside scheduled time' });
+    }
+
+    // Reports follow NYSE, checked on the CT date the report is dated and keyed
+    // by (the post log, the morning snapshot) rather than the server's UTC date.
+    const nyse = getMarketDay('NYSE', isoDateCT());
+    if (!dryRun.enabled && !nyse.open) {
+      console.log(`Skipping morning report - NYSE closed (${nyse.holiday ?? 'weekend'})`);
+      return res.status(200).json({ message: `Skipped - ${nyse.holiday ?? 'weekend'}` });
     }
 
     const startTime = Date.now();
-    console.log('[Morning Report] Fetching morning brief + on-chain metrics...');
+    console.log(`[Morning Report] ${dryRun.fixture ? 'Using fixture data' : 'Fetching morning brief + on-chain metrics'}...`);
 
     // On-chain fetch must not block the report — if BM Pro is down we still want
     // to post the fund brief section.
-    const [brief, onChainMetrics] = await Promise.all([
-      fetchMorningBrief(),
-      fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
-        console.warn('[Morning Report] On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
-        return null;
-      }),
-    ]);
+    const [brief, onChainMetrics] = dryRun.fixture
+      ? [SAMPLE_MORNING_BRIEF, SAMPLE_ON_CHAIN_METRICS]
+      : await Promise.all([
+          fetchMorningBrief(guard),
+          fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
+            console.warn('[Morning Report] On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+            return null;
+          }),
+        ]);
 
     console.log(`[Morning Report] Data fetched in ${Date.now() - startTime}ms (asOf=${brief.asOf}, on-chain=${onChainMetrics ? 'ok' : 'unavailable'})`);
 
-    const blocks = buildMorningReportBlocks(brief, onChainMetrics);
+    const template = config.reportTemplates.morning;
+    const blocks = buildMorningReportBlocks(brief, onChainMetrics, template);
+    const replies = buildMorningReportReplies(brief, onChainMetrics, template);
 
-    await postMessage(
+    if (dryRun.enabled) {
+      const postedTo = dryRun.postToTest ? config.channels.testDailyReportsId ?? null : null;
+      if (dryRun.postToTest && !postedTo) {
+        throw new Error('TEST_DAILY_REPORTS_CHANNEL_ID is not configured');
+      }
+      if (postedTo) {
+        await postReportThread(postedTo, FALLBACK_TEXT, blocks, replies);
+      }
+      console.log(`[Morning Report] Dry run rendered${postedTo ? ' and posted to the test channel' : ''}`);
+      return res.status(200).json({
+        message: 'Morning report dry run',
+        ...buildReportPreview('morning', dryRun, FALLBACK_TEXT, blocks, postedTo, replies),
+      });
+    }
+
+    // Posts, or updates the day's earlier post in place on a re-run.
+    const published = await publishDailyReport(
+      'morning',
+      isoDateCT(),
       config.channels.dailyReportsId,
-      'Good Morning — Fund Summary',
-      { blocks }
+      FALLBACK_TEXT,
+      blocks,
+      morningReportFigures(brief),
+      replies
     );
 
-    console.log('[Morning Report] Successfully posted to Slack');
-    return res.status(200).json({ message: 'Morning report posted successfully' });
+    // Persist the full payload for the history tables. Best-effort: a Supabase
+    // outage must never cost us (or retry) a report that already posted.
+    await saveMorningBriefSnapshot(brief).catch((err) => {
+      console.warn('[Morning Report] Failed to persist brief history:', err instanceof Error ? err.message : err);
+    });
+
+    // The EOD report's "since this morning" line compares against this.
+    if (brief.fund.aumUsd !== null && brief.btc.priceUsd !== null) {
+      await saveMorningSnapshot(brief.fund.aumUsd, brief.btc.priceUsd).catch((err) => {
+        console.warn('[Morning Report] Failed to save morning snapshot:', err instanceof Error ? err.message : err);
+      });
+    }
+
+    await reportUnitsGuardIncidents(guard);
+
+    console.log(`[Morning Report] Successfully ${published.updated ? 'updated' : 'posted'} to Slack`);
+    return res.status(200).json({
+      message: `Morning report ${published.updated ? 'updated' : 'posted'} successfully`,
+      changes: published.changes.map((c) => c.label),
+    });
   } catch (error) {
     console.error('[Morning Report] ERROR:', error);
 
+    // A units-guard trip is reported as a structured incident in the ops
+    // channel; the report channel just learns the report was held back.
+    await reportUnitsGuardIncidents(guard);
+
+    // A dry run answers with the error only; the report channel never hears of it.
+    if (dryRun.enabled) {
+      return res.status(500).json({
+        error: 'Morning report dry run failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     try {
       await postMessage(
         config.channels.dailyReportsId,
-        `*ERROR: Morning Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
+        error instanceof UnitsGuardError
+          ? `*Morning Report not posted*\nTerminal data failed the units check (${error.context}); see the ops incident.`
+          : `*ERROR: Morning Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
       );
     } catch (slackError) {
       console.error('[Morning Report] Failed to send error notification to Slack:', slackError);
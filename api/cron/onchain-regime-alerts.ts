@@ -0,0 +1,71 @@
+// On-chain regime change alerts (hourly). Classifies Fear & Greed, MVRV, NUPL
+// and funding the same way the daily reports do and posts to the daily-reports
+// channel when a metric moves into a new regime (NUPL "Belief" → "Euphoria",
+// funding flipping negative), with the previous value and how long the prior
+// regime lasted.
+//
+// The last regime per metric lives in Supabase (lib/supabase/onchain-regimes.ts);
+// the first run only records a baseline. Failures are logged, not posted — a
+// Slack error every hour is noise.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { config } from '../../lib/config';
+import { postMessage } from '../../lib/slack/client';
+import { fetchOnChainMetrics, getOnChainRegimes } from '../../lib/external/bitcoin-magazine-pro';
+import { detectRegimeChanges, getFundingFlipMinPct } from '../../lib/analytics/onchain-regimes';
+import { getOnChainRegimeStates, saveOnChainRegimeStates } from '../../lib/supabase/onchain-regimes';
+import { buildOnChainRegimeAlertText } from '../../lib/slack/blocks';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    if (!config.bitcoinMagazinePro.apiKey) {
+      console.log('Skipping on-chain regime alerts - BM_PRO_API_KEY not configured');
+      return res.status(200).json({ message: 'Skipped - BM Pro API key not configured' });
+    }
+
+    console.log('[Regime Alerts] Fetching on-chain metrics...');
+    const regimes = getOnChainRegimes(await fetchOnChainMetrics());
+    if (regimes.length === 0) {
+      console.log('[Regime Alerts] No on-chain metrics available');
+      return res.status(200).json({ message: 'No on-chain metrics available' });
+    }
+
+    const now = new Date();
+    const { changes, states } = detectRegimeChanges(
+      regimes,
+      await getOnChainRegimeStates(),
+      now,
+      getFundingFlipMinPct()
+    );
+
+    // Post before saving: if the post fails, the next run sees the same change.
+    if (changes.length > 0) {
+      await postMessage(config.channels.dailyReportsId, buildOnChainRegimeAlertText(changes, now));
+    }
+    await saveOnChainRegimeStates(states);
+
+    const summary = changes.map((c) => `${c.label}: ${c.from} → ${c.to}`);
+    console.log(
+      changes.length > 0
+        ? `[Regime Alerts] Posted: ${summary.join(', ')}`
+        : `[Regime Alerts] No regime changes (${regimes.length} metrics checked)`
+    );
+    return res.status(200).json({
+      message: changes.length > 0 ? 'Regime changes posted' : 'No regime changes',
+      checked: regimes.length,
+      changes: summary,
+    });
+  } catch (error) {
+    console.error('[Regime Alerts] ERROR:', error);
+    return res.status(500).json({
+      error: 'Failed to check on-chain regimes',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
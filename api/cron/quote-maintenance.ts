@@ -1,6 +1,7 @@
 /**
  * Vercel Cron Job: Weekly quote maintenance
  * Ensures quote pool stays healthy with fresh variety
+ * Also clears expired Slack thread memory (thread_memory TTL cleanup)
  * 
  * Add to vercel.json:
  * {
@@ -12,6 +13,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { weeklyMaintenance } from '../../lib/utils/auto-quote-manager';
 import { getQuoteCount } from '../../lib/utils/daily-quotes';
+import { clearExpiredThreads } from '../../lib/claude/memory';
 import { config } from '../../lib/config';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -35,13 +37,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.log(`[Quote Maintenance] After: ${afterCounts.total} quotes`);
     
     const added = afterCounts.total - beforeCounts.total;
+
+    // TTL cleanup for Slack thread memory (expired rows are already ignored on
+    // read, so a failure here only delays reclaiming space).
+    let expiredThreadsCleared: number | null = null;
+    try {
+      expiredThreadsCleared = await clearExpiredThreads();
+      console.log(`[Quote Maintenance] Cleared ${expiredThreadsCleared} expired thread(s)`);
+    } catch (error) {
+      console.error('[Quote Maintenance] Thread memory cleanup failed (continuing):', error);
+    }
     
     return res.status(200).json({
       success: true,
       message: `Weekly maintenance complete. Added ${added} quotes.`,
       before: beforeCounts,
       after: afterCounts,
-      added
+      added,
+      expiredThreadsCleared
     });
   } catch (error) {
     console.error('[Quote Maintenance] Error:', error);
@@ -0,0 +1,67 @@
+// Dead-man's switch for the daily reports (every 15 minutes). The morning and
+// EOD crons record each successful post (lib/supabase/report-posts.ts); once a
+// business day's report is REPORT_WATCHDOG_GRACE_MINUTES (default 30) past its
+// scheduled time with no record, this pages the ops channel — a silently skipped
+// Vercel cron otherwise goes unnoticed until someone asks where the post went.
+//
+// Each missing report is paged once. Failures are logged, not posted — a Slack
+// error every 15 minutes is noise.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { config } from '../../lib/config';
+import { postMessage } from '../../lib/slack/client';
+import { isSupabaseConfigured } from '../../lib/supabase/client';
+import { dueReports, getReportWatchdogGraceMs, reportKey } from '../../lib/analytics/report-watchdog';
+import { getPagedReportKeys, getPostedReportKeys, recordReportPage } from '../../lib/supabase/report-posts';
+import { buildMissingReportAlertText } from '../../lib/slack/blocks';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    if (!isSupabaseConfigured()) {
+      console.log('Skipping report watchdog - Supabase not configured');
+      return res.status(200).json({ message: 'Skipped - Supabase not configured' });
+    }
+
+    const now = new Date();
+    const due = dueReports(now, getReportWatchdogGraceMs(), config.reportSchedules);
+    if (due.length === 0) {
+      return res.status(200).json({ message: 'No reports due' });
+    }
+
+    const fromDate = due[0].date;
+    const [posted, paged] = await Promise.all([getPostedReportKeys(fromDate), getPagedReportKeys(fromDate)]);
+    const missing = due.filter((r) => !posted.has(reportKey(r.type, r.date)) && !paged.has(reportKey(r.type, r.date)));
+
+    // Page before recording: if the post fails, the next run pages again.
+    if (missing.length > 0) {
+      await postMessage(config.channels.opsAlertsId, buildMissingReportAlertText(missing, now));
+      for (const report of missing) {
+        await recordReportPage(report.type, report.date);
+      }
+    }
+
+    const summary = missing.map((r) => reportKey(r.type, r.date));
+    console.log(
+      missing.length > 0
+        ? `[Report Watchdog] Paged missing: ${summary.join(', ')}`
+        : `[Report Watchdog] ${due.length} due report(s) accounted for`
+    );
+    return res.status(200).json({
+      message: missing.length > 0 ? 'Missing reports paged' : 'All due reports posted',
+      checked: due.map((r) => reportKey(r.type, r.date)),
+      missing: summary,
+    });
+  } catch (error) {
+    console.error('[Report Watchdog] ERROR:', error);
+    return res.status(500).json({
+      error: 'Failed to check report posts',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
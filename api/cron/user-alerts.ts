@@ -0,0 +1,82 @@
+// User alert evaluation (every 15 minutes). Checks every active Slack-created
+// alert rule (lib/analytics/alert-rules.ts) against the terminal BTCTC,
+// position and on-chain data, and DMs the owner when a rule crosses its
+// threshold.
+//
+// Each source is fetched once per run however many rules read it; a failed
+// fetch skips only the rules that depend on it. A rule whose DM fails keeps
+// its previous state, so it fires again on the next run. Failures are logged,
+// not posted — a Slack error every 15 minutes is noise.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { postMessage } from '../../lib/slack/client';
+import { reportUnitsGuardIncidents } from '../../lib/slack/incidents';
+import { UnitsGuardOutcomes } from '../../lib/terminal/client';
+import { fetchBtctcCompany } from '../../lib/terminal/btctc';
+import { fetchPositionByTicker } from '../../lib/terminal/positions';
+import { fetchOnChain } from '../../lib/terminal/on-chain';
+import { evaluateUserAlerts, type AlertEvaluation } from '../../lib/analytics/alert-rules';
+import { getActiveUserAlerts, saveAlertEvaluations } from '../../lib/supabase/user-alerts';
+import { buildUserAlertFiredText } from '../../lib/slack/blocks';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const guard = new UnitsGuardOutcomes();
+
+  try {
+    const rules = await getActiveUserAlerts();
+    if (rules.length === 0) {
+      console.log('Skipping user alerts - no active alerts');
+      return res.status(200).json({ message: 'Skipped - no active alerts' });
+    }
+
+    console.log(`[User Alerts] Evaluating ${rules.length} alert(s)...`);
+    const { evaluations, unavailable } = await evaluateUserAlerts(rules, {
+      fetchBtctcCompany: (ticker) => fetchBtctcCompany(ticker, guard),
+      fetchPositionByTicker: (ticker) => fetchPositionByTicker(ticker, guard),
+      fetchOnChain,
+    });
+    await reportUnitsGuardIncidents(guard);
+
+    const toSave: AlertEvaluation[] = [];
+    const fired: number[] = [];
+    for (const evaluation of evaluations) {
+      if (!evaluation.fired) {
+        toSave.push(evaluation);
+        continue;
+      }
+      try {
+        await postMessage(evaluation.rule.userId, buildUserAlertFiredText(evaluation));
+        toSave.push(evaluation);
+        fired.push(evaluation.rule.id);
+      } catch (error) {
+        console.error(`[User Alerts] Failed to DM alert #${evaluation.rule.id}:`, error);
+      }
+    }
+
+    await saveAlertEvaluations(toSave);
+
+    if (unavailable.length > 0) {
+      console.warn(`[User Alerts] No data for alert(s): ${unavailable.map((r) => `#${r.id}`).join(', ')}`);
+    }
+    console.log(`[User Alerts] ${evaluations.length} evaluated, ${fired.length} fired`);
+    return res.status(200).json({
+      message: 'User alerts evaluated',
+      evaluated: evaluations.length,
+      fired,
+      unavailable: unavailable.map((r) => r.id),
+    });
+  } catch (error) {
+    console.error('[User Alerts] ERROR:', error);
+    await reportUnitsGuardIncidents(guard);
+    return res.status(500).json({
+      error: 'Failed to evaluate user alerts',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
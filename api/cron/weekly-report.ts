@@ -0,0 +1,86 @@
+// Weekly performance report cron job (Friday 7:30 PM CT by default; config.reportSchedules.weekly)
+// Runs after the Friday EOD report has persisted its brief, and builds the
+// week-to-date summary from the stored EOD snapshots (lib/supabase/history.ts)
+// rather than the live terminal — the week is a series, not a single payload.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { config } from '../../lib/config';
+import { postMessage } from '../../lib/slack/client';
+import { getEodBriefHistory } from '../../lib/supabase/history';
+import { summarizeWeek } from '../../lib/analytics/weekly';
+import { computePerformanceStats, getDefaultPerformanceOptions } from '../../lib/analytics/performance';
+import { buildWeeklyReportBlocks } from '../../lib/slack/blocks';
+import { addDaysIso, dayOfWeekCT, isoDateCT, weekStartCT } from '../../lib/utils/dates';
+import { isScheduledRun } from '../../lib/utils/report-schedule';
+import { fmtPct } from '../../lib/format';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // The cron fires at both UTC hours 7:30 PM CT can fall on (DST); only the one
+    // at the scheduled local time runs.
+    const schedule = config.reportSchedules.weekly;
+    if (!isScheduledRun(schedule)) {
+      console.log(`Skipping weekly report - not ${schedule.time} ${schedule.timeZone}`);
+      return res.status(200).json({ message: 'Skipped - outside scheduled time' });
+    }
+
+    if (dayOfWeekCT() !== 5) {
+      console.log('Skipping weekly report - not Friday in CT');
+      return res.status(200).json({ message: 'Skipped - not Friday' });
+    }
+
+    const weekStart = weekStartCT();
+    const today = isoDateCT();
+    // One read covers both the week and the trailing risk window.
+    const perfOptions = getDefaultPerformanceOptions();
+    const windowStart = addDaysIso(today, -(perfOptions.windowDays - 1));
+    const from = windowStart < weekStart ? windowStart : weekStart;
+    console.log(`[Weekly Report] Loading stored EOD snapshots ${from}..${today}...`);
+
+    const history = await getEodBriefHistory(from, today);
+    const days = history.filter((d) => d.date >= weekStart);
+    if (days.length === 0) {
+      console.warn('[Weekly Report] No stored EOD snapshots this week - skipping post');
+      return res.status(200).json({ message: 'Skipped - no stored snapshots this week' });
+    }
+
+    const summary = summarizeWeek(weekStart, days);
+    // Null (section omitted) until there's enough stored history.
+    const performance = computePerformanceStats(
+      history.filter((d) => d.date >= windowStart),
+      perfOptions
+    );
+    const blocks = buildWeeklyReportBlocks(summary, performance);
+
+    await postMessage(
+      config.channels.dailyReportsId,
+      `WEEKLY REPORT — Fund WTD ${fmtPct(summary.fundWtdPct)} vs BTC ${fmtPct(summary.btcWtdPct)}`,
+      { blocks }
+    );
+
+    console.log(`[Weekly Report] Successfully posted to Slack (${days.length} day(s))`);
+    return res.status(200).json({ message: 'Weekly report posted successfully' });
+  } catch (error) {
+    console.error('[Weekly Report] ERROR:', error);
+
+    try {
+      await postMessage(
+        config.channels.dailyReportsId,
+        `*ERROR: Weekly Report Failed*\n${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } catch (slackError) {
+      console.error('[Weekly Report] Failed to send error notification to Slack:', slackError);
+    }
+
+    return res.status(500).json({
+      error: 'Failed to generate weekly report',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
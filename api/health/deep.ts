@@ -0,0 +1,66 @@
+// Deep health check: probes every upstream the bot depends on and reports
+// per-dependency status, latency and last error (lib/utils/health.ts).
+//
+// GET /api/health/deep, authenticated with `Authorization: Bearer <CRON_SECRET>`.
+// Responds 200 when every configured dependency answers and 503 otherwise, so
+// an uptime checker can alert on the status code alone. /api/health stays the
+// cheap liveness check.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchTerminal } from '../../lib/terminal/client';
+import { pingBmPro } from '../../lib/external/bitcoin-magazine-pro';
+import { getSlackClient } from '../../lib/slack/client';
+import { getClaudeClient } from '../../lib/claude/client';
+import { getSupabaseClient, isSupabaseConfigured } from '../../lib/supabase/client';
+import { runHealthChecks, type DependencyProbe } from '../../lib/utils/health';
+
+// Reachability only: the units guard is the reports' job, not the probe's.
+const TERMINAL_ENDPOINTS = ['/api/brief', '/api/morning-brief', '/api/positions', '/api/btctc', '/api/on-chain'];
+
+function buildProbes(): DependencyProbe[] {
+  return [
+    ...TERMINAL_ENDPOINTS.map((path) => ({
+      name: `terminal ${path}`,
+      configured: true,
+      run: () => fetchTerminal(path),
+    })),
+    { name: 'bitcoin-magazine-pro', configured: !!process.env.BM_PRO_API_KEY, run: pingBmPro },
+    { name: 'slack', configured: true, run: () => getSlackClient().auth.test() },
+    {
+      name: 'anthropic',
+      configured: true,
+      // Lists models rather than sending a message, so a probe costs no tokens.
+      run: () => getClaudeClient().get('/v1/models', { query: { limit: 1 } }),
+    },
+    {
+      name: 'supabase',
+      configured: isSupabaseConfigured(),
+      run: async () => {
+        const { error } = await getSupabaseClient().from('daily_snapshots').select('date').limit(1);
+        if (error) throw new Error(error.message);
+      },
+    },
+  ];
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'development'}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const started = Date.now();
+  const report = await runHealthChecks(buildProbes());
+  const down = report.dependencies.filter((d) => d.status === 'down');
+  if (down.length > 0) {
+    console.warn(`[Health] Unhealthy: ${down.map((d) => `${d.name} (${d.error})`).join(', ')}`);
+  }
+
+  return res.status(report.status === 'healthy' ? 200 : 503).json({
+    status: report.status,
+    timestamp: new Date().toISOString(),
+    service: 'fund-bot',
+    durationMs: Date.now() - started,
+    dependencies: report.dependencies,
+  });
+}
@@ -8,9 +8,9 @@ import { postMessage, addReaction } from '../../lib/slack/client';
 import { toSlackMrkdwn } from '../../lib/slack/mrkdwn';
 import { getFundSummary, type FundSummary } from '../../lib/terminal/summary';
 import { sendMessageWithTools } from '../../lib/claude/client';
-import { defaultDeps } from '../../lib/claude/tools';
+import { liveDeps, type AlertToolContext } from '../../lib/claude/tools';
 import { buildSystemPrompt } from '../../lib/claude/prompts';
-import { addMessageToThread, getThreadMessages, getThreadMessagesWithFallback, getThreadStats } from '../../lib/claude/memory';
+import { addMessageToThread, getThreadMessagesWithFallback, getThreadStats, summarizeToolCalls } from '../../lib/claude/memory';
 import {
   validateAndSanitizeInput,
   cleanMessageText,
@@ -20,13 +20,20 @@ import {
   getCostLimitMessage,
   getBudgetExceededMessage,
 } from '../../lib/utils/input-validation';
-import { checkRateLimit, checkBudget, trackCost } from '../../lib/utils/rate-limiter';
+import { checkRateLimit, checkBudget, releaseBudget, trackCost } from '../../lib/utils/rate-limiter';
 import {
   getCachedResponse,
   setCachedResponse,
   hashContext,
 } from '../../lib/utils/response-cache';
 import { withTimeout, TIMEOUTS } from '../../lib/utils/timeout';
+import { isSupabaseConfigured } from '../../lib/supabase/client';
+import { recordQaAudit, type QaAuditEntry, type QaAuditStatus } from '../../lib/supabase/qa-audit';
+import { createUserAlert, deleteUserAlert, listUserAlerts } from '../../lib/supabase/user-alerts';
+import { parseAlertCommand, type AlertCommand } from '../../lib/analytics/alert-rules';
+import { buildUserAlertListText } from '../../lib/slack/blocks';
+import { reportUnitsGuardIncidents } from '../../lib/slack/incidents';
+import { UnitsGuardError, UnitsGuardOutcomes } from '../../lib/terminal/client';
 
 // Event deduplication - track processed events
 const processedEvents = new Set<string>();
@@ -129,6 +136,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   return res.status(200).json({ ok: true });
 }
 
+// Best-effort Q&A audit write: a logging outage must never cost the user their answer.
+async function writeAudit(
+  audit: QaAuditEntry,
+  status: QaAuditStatus,
+  fields: Partial<QaAuditEntry> = {}
+): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+  try {
+    await recordQaAudit({ ...audit, ...fields, status });
+  } catch (error) {
+    console.warn('[Audit] Failed to record Q&A audit entry:', error);
+  }
+}
+
+// Alert rules live in Supabase only — without it there is nowhere to keep them.
+function alertToolContext(userId: string | undefined, channel: string | undefined): AlertToolContext | undefined {
+  if (!userId || !isSupabaseConfigured()) {
+    return undefined;
+  }
+  return {
+    countAlerts: async () => (await listUserAlerts(userId)).length,
+    createAlert: (rule, currentCondition) => createUserAlert(userId, channel ?? null, rule, currentCondition),
+  };
+}
+
+// "list alerts" / "delete alert N": answered directly, no Claude call.
+async function runAlertCommand(command: AlertCommand, userId: string | undefined): Promise<string> {
+  if (!userId || !isSupabaseConfigured()) {
+    return 'Alerts are not available right now.';
+  }
+  if (command.kind === 'list') {
+    return buildUserAlertListText(await listUserAlerts(userId));
+  }
+  return (await deleteUserAlert(userId, command.id))
+    ? `Deleted alert #${command.id}.`
+    : `You don't have an alert #${command.id}. Say "list alerts" to see yours.`;
+}
+
 async function handleEvent(event: any) {
   try {
     const { type, user, text, channel, ts, thread_ts, channel_type, bot_id, event_ts } = event;
@@ -174,6 +221,32 @@ async function handleEvent(event: any) {
   // Get thread ID (use thread_ts if in a thread, otherwise use ts)
   const threadId = thread_ts || ts;
 
+  // Ledger reservation from the budget check; settled by trackCost, released if
+  // the request ends without a Claude call.
+  let budgetReservation: number | null = null;
+
+  // Audit record for this exchange, filled in as the request progresses and
+  // written once at whichever exit it takes.
+  const audit: QaAuditEntry = {
+    eventTs: ts,
+    threadTs: threadId,
+    userId: user ?? null,
+    channel: channel ?? null,
+    status: 'error',
+    question: null,
+    dataAsOf: null,
+    toolCalls: [],
+    response: null,
+    inputTokens: null,
+    outputTokens: null,
+    errorId: null,
+    errorType: null,
+    errorMessage: null,
+  };
+
+  // Units-guard outcomes of this request's terminal fetches, tool calls included.
+  const guard = new UnitsGuardOutcomes();
+
   try {
     console.log('[Event] Processing message from user:', user, 'in channel:', channel);
     console.log('[Event] Message text:', text);
@@ -213,10 +286,12 @@ async function handleEvent(event: any) {
 
     // Validate and sanitize input
     console.log('[Validation] Validating input...');
+    audit.question = cleanText;
     const validation = validateAndSanitizeInput(cleanText);
     if (!validation.valid) {
       console.log('[Validation] Input validation failed:', validation.message);
       await postMessage(channel, validation.message || 'Invalid input', { thread_ts: threadId });
+      await writeAudit(audit, 'rejected', { response: validation.message || 'Invalid input' });
       try {
         await addReaction(channel, ts, 'warning');
       } catch (e) {
@@ -226,6 +301,7 @@ async function handleEvent(event: any) {
     }
 
     const sanitizedText = validation.sanitizedText || cleanText;
+    audit.question = sanitizedText;
 
     // Check rate limits
     console.log('[RateLimit] Checking rate limits for user:', user);
@@ -234,6 +310,7 @@ async function handleEvent(event: any) {
       console.log('[RateLimit] User exceeded rate limit');
       const message = getRateLimitMessage(rateLimit.remaining, rateLimit.resetTime);
       await postMessage(channel, message, { thread_ts: threadId });
+      await writeAudit(audit, 'rate_limited', { response: message });
       try {
         await addReaction(channel, ts, 'hourglass');
       } catch (e) {
@@ -247,13 +324,29 @@ async function handleEvent(event: any) {
       console.log('[RateLimit]', rateLimit.warning);
     }
 
+    // Alert management commands. They write to Supabase, so they count against
+    // the rate limit, but make no Claude call and skip the budget check.
+    const alertCommand = parseAlertCommand(cleanText);
+    if (alertCommand) {
+      console.log('[Alerts] User alert command:', alertCommand.kind);
+      await postMessage(channel, await runAlertCommand(alertCommand, user), { thread_ts: threadId });
+      try {
+        await addReaction(channel, ts, 'white_check_mark');
+      } catch (e) {
+        console.log('[Reaction] Error adding checkmark (ignoring)');
+      }
+      return;
+    }
+
     // Check daily budget limit (enforced - hard block)
     console.log('[Budget] Checking daily budget for user:', user);
-    const budgetCheck = checkBudget(user);
+    const budgetCheck = await checkBudget(user, { channel, model: config.anthropic.model });
+    budgetReservation = budgetCheck.reservationId;
     if (!budgetCheck.allowed) {
       console.log('[Budget] User exceeded daily budget');
       const message = getBudgetExceededMessage(budgetCheck.resetTime);
       await postMessage(channel, message, { thread_ts: threadId });
+      await writeAudit(audit, 'over_budget', { response: message });
       try {
         await addReaction(channel, ts, 'moneybag');
       } catch (e) {
@@ -268,7 +361,7 @@ async function handleEvent(event: any) {
     // ~30s request) instead of re-hitting /api/brief + /api/morning-brief each time.
     let summaryPromise: Promise<FundSummary> | null = null;
     const fetchFundSummary = (): Promise<FundSummary> => {
-      if (!summaryPromise) summaryPromise = getFundSummary();
+      if (!summaryPromise) summaryPromise = getFundSummary(guard);
       return summaryPromise;
     };
 
@@ -279,13 +372,14 @@ async function handleEvent(event: any) {
       'Terminal data fetch'
     );
     console.log('[Terminal] Fund summary fetched successfully (asOf', summary.asOf, ')');
+    audit.dataAsOf = summary.asOf;
 
     // Create context hash for caching
     const contextHash = hashContext({ summary });
     console.log('[Cache] Context hash:', contextHash);
 
     // Check cache first (only for non-threaded conversations)
-    const threadStats = getThreadStats(threadId);
+    const threadStats = await getThreadStats(threadId);
     const isNewConversation = !threadStats || threadStats.messageCount === 0;
     
     if (isNewConversation) {
@@ -294,10 +388,13 @@ async function handleEvent(event: any) {
         console.log('[Cache] Using cached response');
         // Convert the LLM's markdown to Slack mrkdwn so bold/links/bullets render.
         await postMessage(channel, toSlackMrkdwn(cachedResponse), { thread_ts: threadId });
+        await releaseBudget(budgetReservation);
+        budgetReservation = null;
+        await writeAudit(audit, 'cached', { response: cachedResponse });
         
         // Store in thread memory for continuity
-        addMessageToThread(threadId, 'user', sanitizedText);
-        addMessageToThread(threadId, 'assistant', cachedResponse);
+        await addMessageToThread(threadId, 'user', sanitizedText, { channel });
+        await addMessageToThread(threadId, 'assistant', cachedResponse, { channel });
         
         try {
           await addReaction(channel, ts, 'white_check_mark');
@@ -327,18 +424,34 @@ async function handleEvent(event: any) {
     const result = await withTimeout(
       // Override only getFundSummary with the per-request memoized fetcher; the
       // positions / BTCTC / on-chain tools use the live terminal clients.
+      // create_alert saves rules for the asking user.
       sendMessageWithTools(systemPrompt, sanitizedText, conversationHistory, {
-        ...defaultDeps,
+        ...liveDeps(guard),
         getFundSummary: fetchFundSummary,
+        alerts: alertToolContext(user, channel),
+      }, (progress) => {
+        // Kept on the audit as the loop goes, so a later failure still records them.
+        audit.toolCalls = progress.toolCalls;
+        audit.inputTokens = progress.inputTokens;
+        audit.outputTokens = progress.outputTokens;
       }),
       TIMEOUTS.claude,
       'Claude API call'
     );
     console.log('[Claude] Received response:', result.response.substring(0, 100) + '...');
     console.log('[Claude] Token usage - Input:', result.inputTokens, 'Output:', result.outputTokens);
+    audit.response = result.response;
+    audit.toolCalls = result.toolCalls ?? [];
+    audit.inputTokens = result.inputTokens;
+    audit.outputTokens = result.outputTokens;
 
     // Track cost
-    const costResult = trackCost(user, result.inputTokens, result.outputTokens);
+    const costResult = await trackCost(user, result.inputTokens, result.outputTokens, {
+      channel,
+      model: config.anthropic.model,
+      reservationId: budgetReservation,
+    });
+    budgetReservation = null;
     console.log('[Cost] Estimated cost: $', costResult.estimatedCost.toFixed(4));
     console.log('[Cost] Budget remaining: $', costResult.budgetRemaining.toFixed(2));
 
@@ -350,13 +463,18 @@ async function handleEvent(event: any) {
       // result.response += `\n\n_${costWarning}_`;
     }
 
-    // Store in thread memory
-    addMessageToThread(threadId, 'user', sanitizedText);
-    addMessageToThread(threadId, 'assistant', result.response);
+    // Store in thread memory, with the tool data behind the answer for follow-ups
+    await addMessageToThread(threadId, 'user', sanitizedText, { channel });
+    await addMessageToThread(threadId, 'assistant', result.response, {
+      channel,
+      toolContext: summarizeToolCalls(result.toolCalls),
+    });
     console.log('[Memory] Stored in thread memory');
 
-    // Cache response if it's a new conversation
-    if (isNewConversation) {
+    // Cache response if it's a new conversation. Never cache an alert
+    // confirmation: replaying it would tell the next user their alert exists.
+    const createdAlert = (result.toolCalls ?? []).some((c) => c.name === 'create_alert');
+    if (isNewConversation && !createdAlert) {
       setCachedResponse(sanitizedText, result.response, contextHash);
     }
 
@@ -366,6 +484,8 @@ async function handleEvent(event: any) {
     await postMessage(channel, toSlackMrkdwn(result.response), { thread_ts: threadId });
     console.log('[Slack] Response posted successfully');
 
+    await writeAudit(audit, 'answered');
+
     // Add checkmark reaction (ignore if already added)
     try {
       await addReaction(channel, ts, 'white_check_mark');
@@ -374,10 +494,16 @@ async function handleEvent(event: any) {
       console.log('[Reaction] Checkmark already exists or error (ignoring)');
     }
     
+    // Units-guard trips inside tool calls were degraded for the user; ops still hears.
+    await reportUnitsGuardIncidents(guard);
+
     console.log('[Event] Processing complete!');
   } catch (error) {
     const errorId = `ERR-${Date.now().toString(36).toUpperCase()}`;
     console.error(`[Error ${errorId}] Error processing message:`, error);
+
+    // Give back the budget hold for a request that never settled.
+    await releaseBudget(budgetReservation);
     console.error(`[Error ${errorId}] Stack trace:`, error instanceof Error ? error.stack : 'No stack trace');
 
     const { channel, ts, thread_ts, user: errorUser } = event;
@@ -387,7 +513,12 @@ async function handleEvent(event: any) {
     let userMessage = 'Sorry, I encountered an unexpected error. Please try again in a moment.';
     let errorType = 'unknown';
 
-    if (error instanceof Error) {
+    await reportUnitsGuardIncidents(guard);
+
+    if (error instanceof UnitsGuardError) {
+      errorType = 'units_guard';
+      userMessage = '📊 The terminal returned fund figures that failed a units sanity check, so I won\'t quote them. The team has been alerted — please try again later.';
+    } else if (error instanceof Error) {
       const msg = error.message.toLowerCase();
 
       // Timeout errors
@@ -411,8 +542,8 @@ async function handleEvent(event: any) {
         errorType = 'ai_service';
         userMessage = '🤖 The AI service is temporarily unavailable. Please try again in a few minutes.';
       }
-      // Terminal API / fund-data errors (units guard, 4xx/5xx, unavailable)
-      else if (msg.includes('terminal') || msg.includes('units check failed')) {
+      // Terminal API / fund-data errors (4xx/5xx, unavailable)
+      else if (msg.includes('terminal')) {
         errorType = 'terminal';
         userMessage = '📊 I had trouble fetching fund data from the terminal API. It may be slow or temporarily unavailable. Please try again in a moment.';
       }
@@ -442,6 +573,14 @@ async function handleEvent(event: any) {
       message: error instanceof Error ? error.message : String(error),
     });
 
+    // Keeps whatever the exchange got to (question, tool calls, answer) before failing.
+    await writeAudit(audit, 'error', {
+      errorId,
+      errorType,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      ...(audit.response ? {} : { response: userMessage }),
+    });
+
     try {
       await postMessage(
         channel,
@@ -0,0 +1,162 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  describeAlertRule,
+  evaluateUserAlerts,
+  parseAlertCommand,
+  validateAlertRule,
+  type AlertFetchers,
+  type UserAlertRule,
+} from './alert-rules';
+import type { BtctcCompany } from '../terminal/btctc';
+import type { OnChain } from '../terminal/on-chain';
+
+const mstr: BtctcCompany = {
+  rank: 1, company: 'MicroStrategy', ticker: 'MSTR', btcHoldings: 226000,
+  basicMNAV: 1.1, dilutedMNAV: 1.15, price: 1200, oneDayChangePercent: -4.2,
+  dilutedMNAVPrice: 570, enterpriseValueUSD: 4.2e10, avgVolumeUSD: 1e9,
+  btcNAVUSD: 1.5e10, totalDebt: 2e9,
+};
+
+const onChain: OnChain = {
+  asOf: '2026-10-19T15:00:00.000Z',
+  metrics: { fearAndGreed: 82, mvrvZScore: 2.1, nupl: 0.55, fundingRate: 0.01, movingAverage200w: 48000 },
+};
+
+const rule = (id: number, fields: Partial<UserAlertRule>): UserAlertRule => ({
+  id,
+  userId: 'U1',
+  channel: 'C1',
+  metric: 'diluted_mnav',
+  ticker: 'MSTR',
+  operator: 'below',
+  threshold: 1.2,
+  lastCondition: false,
+  triggerCount: 0,
+  createdAt: '2026-10-18T00:00:00.000Z',
+  ...fields,
+});
+
+function fetchers(overrides: Partial<AlertFetchers> = {}): AlertFetchers & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    fetchBtctcCompany: async (t) => {
+      calls.push(`btctc:${t}`);
+      return t === 'MSTR' ? mstr : { found: false, ticker: t };
+    },
+    fetchPositionByTicker: async (t) => {
+      calls.push(`position:${t}`);
+      return { found: false, ticker: t };
+    },
+    fetchOnChain: async () => {
+      calls.push('onchain');
+      return onChain;
+    },
+    ...overrides,
+  };
+}
+
+describe('validateAlertRule', () => {
+  test('accepts a ticker metric and upper-cases the ticker', () => {
+    expect(validateAlertRule({ metric: 'diluted_mnav', ticker: ' mstr ', operator: 'below', threshold: 1.2 })).toEqual({
+      rule: { metric: 'diluted_mnav', ticker: 'MSTR', operator: 'below', threshold: 1.2 },
+    });
+  });
+
+  test('drops a ticker on an on-chain metric', () => {
+    const r = validateAlertRule({ metric: 'fear_and_greed', ticker: 'MSTR', operator: 'above', threshold: 80 });
+    expect(r).toEqual({ rule: { metric: 'fear_and_greed', ticker: null, operator: 'above', threshold: 80 } });
+  });
+
+  test('rejects an unknown metric, a bad operator, a missing threshold or ticker', () => {
+    expect(validateAlertRule({ metric: 'pe_ratio', operator: 'above', threshold: 1 })).toHaveProperty('error');
+    expect(validateAlertRule({ metric: 'nupl', operator: 'crosses', threshold: 1 })).toHaveProperty('error');
+    expect(validateAlertRule({ metric: 'nupl', operator: 'above', threshold: '0.5' })).toHaveProperty('error');
+    expect(validateAlertRule({ metric: 'basic_mnav', operator: 'above', threshold: 2 })).toEqual({
+      error: 'basic_mnav needs a "ticker".',
+    });
+  });
+});
+
+describe('describeAlertRule', () => {
+  test('formats the threshold in the metric units', () => {
+    expect(describeAlertRule({ metric: 'diluted_mnav', ticker: 'MSTR', operator: 'below', threshold: 1.2 })).toBe(
+      'MSTR diluted mNAV below 1.20'
+    );
+    expect(describeAlertRule({ metric: 'position_1d_change_pct', ticker: 'SWC', operator: 'below', threshold: -10 })).toBe(
+      'SWC fund position 1-day change below -10.00%'
+    );
+    expect(describeAlertRule({ metric: 'fear_and_greed', ticker: null, operator: 'above', threshold: 80 })).toBe(
+      'Fear & Greed above 80'
+    );
+  });
+});
+
+describe('evaluateUserAlerts', () => {
+  test('fires on the crossing only, not while the condition stays true', async () => {
+    const { evaluations } = await evaluateUserAlerts(
+      [rule(1, { lastCondition: false }), rule(2, { lastCondition: true }), rule(3, { lastCondition: null })],
+      fetchers()
+    );
+    expect(evaluations.map((e) => [e.rule.id, e.value, e.condition, e.fired])).toEqual([
+      [1, 1.15, true, true],
+      [2, 1.15, true, false],
+      [3, 1.15, true, true],
+    ]);
+  });
+
+  test('re-arms when the condition is false again', async () => {
+    const { evaluations } = await evaluateUserAlerts(
+      [rule(1, { operator: 'above', threshold: 1.5, lastCondition: true })],
+      fetchers()
+    );
+    expect(evaluations[0]).toMatchObject({ condition: false, fired: false });
+  });
+
+  test('fetches each source once, however many rules read it', async () => {
+    const f = fetchers();
+    await evaluateUserAlerts(
+      [
+        rule(1, {}),
+        rule(2, { metric: 'basic_mnav' }),
+        rule(3, { metric: 'fear_and_greed', ticker: null, operator: 'above', threshold: 80 }),
+        rule(4, { metric: 'nupl', ticker: null, operator: 'above', threshold: 0.5 }),
+      ],
+      f
+    );
+    expect(f.calls).toEqual(['btctc:MSTR', 'onchain']);
+  });
+
+  test('a failed fetch or unknown ticker marks only the dependent rules unavailable', async () => {
+    const run = await evaluateUserAlerts(
+      [
+        rule(1, {}),
+        rule(2, { ticker: 'NOPE' }),
+        rule(3, { metric: 'fear_and_greed', ticker: null, operator: 'above', threshold: 80 }),
+      ],
+      fetchers({
+        fetchOnChain: async () => {
+          throw new Error('terminal down');
+        },
+      })
+    );
+    expect(run.evaluations.map((e) => e.rule.id)).toEqual([1]);
+    expect(run.unavailable.map((r) => r.id)).toEqual([2, 3]);
+  });
+});
+
+describe('parseAlertCommand', () => {
+  test('recognises list and delete commands', () => {
+    expect(parseAlertCommand('alerts')).toEqual({ kind: 'list' });
+    expect(parseAlertCommand('List my alerts')).toEqual({ kind: 'list' });
+    expect(parseAlertCommand('my alerts?')).toEqual({ kind: 'list' });
+    expect(parseAlertCommand('delete alert 12')).toEqual({ kind: 'delete', id: 12 });
+    expect(parseAlertCommand('Cancel alert #3.')).toEqual({ kind: 'delete', id: 3 });
+  });
+
+  test('leaves alert requests and questions for Claude', () => {
+    expect(parseAlertCommand('alert me if MSTR diluted mNAV drops below 1.2')).toBeNull();
+    expect(parseAlertCommand('what alerts fired today?')).toBeNull();
+    expect(parseAlertCommand('delete alert')).toBeNull();
+  });
+});
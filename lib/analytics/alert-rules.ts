@@ -0,0 +1,275 @@
+// User-defined alerts created from Slack ("alert me if MSTR diluted mNAV drops
+// below 1.2", "tell me when Fear & Greed goes above 80").
+//
+// A rule is one metric, an optional ticker, a direction and a threshold. Rules
+// are edge-triggered: a rule fires when its condition becomes true, stays quiet
+// while it remains true, and re-arms once the condition is false again — so a
+// 15-minute cron DMs once per crossing rather than on every poll.
+
+import type { BtctcCompanyResult } from '../terminal/btctc';
+import type { PositionByTicker } from '../terminal/positions';
+import type { OnChain } from '../terminal/on-chain';
+import { fmtPct, fmtRatio, fmtUsd } from '../format';
+
+// Bounds the cron's fan-out and the DM volume one user can set up.
+export const MAX_ALERTS_PER_USER = 20;
+
+export type AlertOperator = 'above' | 'below';
+export type AlertSource = 'btctc' | 'position' | 'onchain';
+
+export type AlertMetric =
+  | 'diluted_mnav'
+  | 'basic_mnav'
+  | 'btctc_price'
+  | 'btctc_1d_change_pct'
+  | 'btc_holdings'
+  | 'position_weight_pct'
+  | 'position_1d_change_pct'
+  | 'position_value_usd'
+  | 'fear_and_greed'
+  | 'mvrv_z_score'
+  | 'nupl'
+  | 'funding_rate'
+  | 'btc_200w_ma';
+
+interface AlertMetricDef {
+  label: string;
+  source: AlertSource;
+  format: (n: number) => string;
+}
+
+function fmtPrice(n: number): string {
+  return `$${n.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+function fmtNumber(n: number): string {
+  return n.toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
+// btctc and position metrics are per ticker; on-chain metrics are market-wide.
+export const ALERT_METRICS: Record<AlertMetric, AlertMetricDef> = {
+  diluted_mnav: { label: 'diluted mNAV', source: 'btctc', format: fmtRatio },
+  basic_mnav: { label: 'basic mNAV', source: 'btctc', format: fmtRatio },
+  btctc_price: { label: 'share price', source: 'btctc', format: fmtPrice },
+  btctc_1d_change_pct: { label: '1-day change', source: 'btctc', format: fmtPct },
+  btc_holdings: { label: 'BTC holdings', source: 'btctc', format: fmtNumber },
+  position_weight_pct: { label: 'fund position weight', source: 'position', format: (n) => `${n.toFixed(2)}%` },
+  position_1d_change_pct: { label: 'fund position 1-day change', source: 'position', format: fmtPct },
+  position_value_usd: { label: 'fund position value', source: 'position', format: fmtUsd },
+  fear_and_greed: { label: 'Fear & Greed', source: 'onchain', format: fmtNumber },
+  mvrv_z_score: { label: 'MVRV Z-Score', source: 'onchain', format: fmtRatio },
+  nupl: { label: 'NUPL', source: 'onchain', format: fmtNumber },
+  funding_rate: { label: 'funding rate', source: 'onchain', format: fmtNumber },
+  btc_200w_ma: { label: 'BTC 200-week moving average', source: 'onchain', format: fmtUsd },
+};
+
+export const ALERT_METRIC_NAMES = Object.keys(ALERT_METRICS) as AlertMetric[];
+
+export interface AlertRuleSpec {
+  metric: AlertMetric;
+  ticker: string | null; // upper-case; null for on-chain metrics
+  operator: AlertOperator;
+  threshold: number;
+}
+
+export interface UserAlertRule extends AlertRuleSpec {
+  id: number;
+  userId: string;
+  channel: string | null; // where the alert was created
+  lastCondition: boolean | null; // at the last evaluation (or creation); null if unknown
+  triggerCount: number;
+  createdAt: string;
+}
+
+export interface AlertEvaluation {
+  rule: UserAlertRule;
+  value: number;
+  condition: boolean;
+  fired: boolean;
+  asOf: string | null; // terminal timestamp, when the source carries one
+}
+
+export interface AlertFetchers {
+  fetchBtctcCompany: (ticker: string) => Promise<BtctcCompanyResult>;
+  fetchPositionByTicker: (ticker: string) => Promise<PositionByTicker>;
+  fetchOnChain: () => Promise<OnChain>;
+}
+
+export interface AlertEvaluationRun {
+  evaluations: AlertEvaluation[];
+  unavailable: UserAlertRule[]; // source fetch failed, ticker not found, or metric n/a
+}
+
+function isAlertMetric(v: unknown): v is AlertMetric {
+  return typeof v === 'string' && v in ALERT_METRICS;
+}
+
+/** Validate a tool/command input into a rule spec, or an error for the caller to relay. */
+export function validateAlertRule(input: unknown): { rule: AlertRuleSpec } | { error: string } {
+  const obj = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+
+  if (!isAlertMetric(obj.metric)) {
+    return { error: `metric must be one of: ${ALERT_METRIC_NAMES.join(', ')}.` };
+  }
+  if (obj.operator !== 'above' && obj.operator !== 'below') {
+    return { error: 'operator must be "above" or "below".' };
+  }
+  if (typeof obj.threshold !== 'number' || !Number.isFinite(obj.threshold)) {
+    return { error: 'threshold must be a number.' };
+  }
+
+  const metric = obj.metric;
+  const needsTicker = ALERT_METRICS[metric].source !== 'onchain';
+  const ticker = typeof obj.ticker === 'string' && obj.ticker.trim() ? obj.ticker.trim().toUpperCase() : null;
+  if (needsTicker && !ticker) {
+    return { error: `${metric} needs a "ticker".` };
+  }
+
+  return {
+    rule: { metric, ticker: needsTicker ? ticker : null, operator: obj.operator, threshold: obj.threshold },
+  };
+}
+
+export function isConditionMet(operator: AlertOperator, value: number, threshold: number): boolean {
+  return operator === 'above' ? value > threshold : value < threshold;
+}
+
+/** "MSTR diluted mNAV" */
+export function describeAlertSubject(rule: Pick<AlertRuleSpec, 'metric' | 'ticker'>): string {
+  const label = ALERT_METRICS[rule.metric].label;
+  return rule.ticker ? `${rule.ticker} ${label}` : label;
+}
+
+/** "MSTR diluted mNAV below 1.20" */
+export function describeAlertRule(rule: AlertRuleSpec): string {
+  return `${describeAlertSubject(rule)} ${rule.operator} ${formatAlertValue(rule.metric, rule.threshold)}`;
+}
+
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  return ALERT_METRICS[metric].format(value);
+}
+
+/** The metric's current value from its source payload, or null if unavailable. */
+export function readMetricValue(
+  metric: AlertMetric,
+  data: BtctcCompanyResult | PositionByTicker | OnChain
+): number | null {
+  if ('found' in data && data.found === false) return null;
+
+  switch (metric) {
+    case 'diluted_mnav':
+      return 'dilutedMNAV' in data ? data.dilutedMNAV : null;
+    case 'basic_mnav':
+      return 'basicMNAV' in data ? data.basicMNAV : null;
+    case 'btctc_price':
+      return 'price' in data ? data.price : null;
+    case 'btctc_1d_change_pct':
+      return 'oneDayChangePercent' in data ? data.oneDayChangePercent : null;
+    case 'btc_holdings':
+      return 'btcHoldings' in data ? data.btcHoldings : null;
+    case 'position_weight_pct':
+      return 'position' in data ? data.position.weightPercent : null;
+    case 'position_1d_change_pct':
+      return 'position' in data ? data.position.change1dPct : null;
+    case 'position_value_usd':
+      return 'position' in data ? data.position.valueUsd : null;
+    case 'fear_and_greed':
+      return 'metrics' in data ? data.metrics.fearAndGreed : null;
+    case 'mvrv_z_score':
+      return 'metrics' in data ? data.metrics.mvrvZScore : null;
+    case 'nupl':
+      return 'metrics' in data ? data.metrics.nupl : null;
+    case 'funding_rate':
+      return 'metrics' in data ? data.metrics.fundingRate : null;
+    case 'btc_200w_ma':
+      return 'metrics' in data ? data.metrics.movingAverage200w : null;
+  }
+}
+
+/** Fetch the source payload a rule reads from. */
+export function fetchAlertSource(
+  rule: AlertRuleSpec,
+  fetchers: AlertFetchers
+): Promise<BtctcCompanyResult | PositionByTicker | OnChain> {
+  switch (ALERT_METRICS[rule.metric].source) {
+    case 'btctc':
+      return fetchers.fetchBtctcCompany(rule.ticker ?? '');
+    case 'position':
+      return fetchers.fetchPositionByTicker(rule.ticker ?? '');
+    case 'onchain':
+      return fetchers.fetchOnChain();
+  }
+}
+
+function sourceKey(rule: AlertRuleSpec): string {
+  const source = ALERT_METRICS[rule.metric].source;
+  return source === 'onchain' ? source : `${source}:${rule.ticker}`;
+}
+
+/**
+ * Evaluate every rule, fetching each source (on-chain, or a ticker's BTCTC /
+ * position record) once however many rules read it. A failed fetch only
+ * marks the rules that depend on it unavailable.
+ */
+export async function evaluateUserAlerts(
+  rules: UserAlertRule[],
+  fetchers: AlertFetchers
+): Promise<AlertEvaluationRun> {
+  const fetches = new Map<string, Promise<BtctcCompanyResult | PositionByTicker | OnChain | null>>();
+  const evaluations: AlertEvaluation[] = [];
+  const unavailable: UserAlertRule[] = [];
+
+  for (const rule of rules) {
+    const key = sourceKey(rule);
+    if (!fetches.has(key)) {
+      fetches.set(
+        key,
+        fetchAlertSource(rule, fetchers).catch((error) => {
+          console.error(`[User Alerts] Fetch failed for ${key}:`, error);
+          return null;
+        })
+      );
+    }
+
+    const data = await fetches.get(key)!;
+    const value = data ? readMetricValue(rule.metric, data) : null;
+    if (value == null) {
+      unavailable.push(rule);
+      continue;
+    }
+
+    const condition = isConditionMet(rule.operator, value, rule.threshold);
+    evaluations.push({
+      rule,
+      value,
+      condition,
+      fired: condition && rule.lastCondition !== true,
+      asOf: data && 'asOf' in data ? data.asOf : null,
+    });
+  }
+
+  return { evaluations, unavailable };
+}
+
+export type AlertCommand = { kind: 'list' } | { kind: 'delete'; id: number };
+
+/**
+ * Recognise the deterministic alert management commands — "alerts",
+ * "list alerts", "my alerts", "delete alert 12" / "cancel alert #12" — so they
+ * don't go through Claude. Creating an alert is free text and goes through
+ * the create_alert tool instead.
+ */
+export function parseAlertCommand(text: string): AlertCommand | null {
+  const trimmed = text.trim().replace(/[.!?]+$/, '');
+
+  if (/^(?:(?:list|show)(?: my)? alerts|my alerts|alerts)$/i.test(trimmed)) {
+    return { kind: 'list' };
+  }
+
+  const del = trimmed.match(/^(?:delete|remove|cancel)\s+alert\s+#?(\d+)$/i);
+  if (del) {
+    return { kind: 'delete', id: Number(del[1]) };
+  }
+
+  return null;
+}
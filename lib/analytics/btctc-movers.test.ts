@@ -0,0 +1,38 @@
+import { test, expect, describe } from 'bun:test';
+import { computeBtctcMovers } from './btctc-movers';
+import type { BtctcCompany } from '../terminal/btctc';
+
+const company = (ticker: string, oneDayChangePercent: number | null): BtctcCompany => ({
+  rank: 1, company: ticker, ticker, btcHoldings: 100,
+  basicMNAV: 1, dilutedMNAV: 1.2, price: 10, oneDayChangePercent,
+  dilutedMNAVPrice: 9, enterpriseValueUSD: 1e6, avgVolumeUSD: 1e5,
+  btcNAVUSD: 1e6, totalDebt: 0,
+});
+
+const companies = [
+  company('MSTR', 5.4),
+  company('MTPLF', -3.2),
+  company('SMLR', 0),
+  company('BOYAA', 2.1),
+  company('NOCH', null),
+];
+
+describe('computeBtctcMovers', () => {
+  test('gainers are highest 1d first, losers lowest first, null/zero excluded', () => {
+    const { gainers, losers } = computeBtctcMovers(companies, 5);
+    expect(gainers.map((m) => m.ticker)).toEqual(['MSTR', 'BOYAA', 'MTPLF']);
+    expect(losers.map((m) => m.ticker)).toEqual(['MTPLF', 'BOYAA', 'MSTR']);
+  });
+
+  test('respects the limit', () => {
+    const { gainers, losers } = computeBtctcMovers(companies, 1);
+    expect(gainers.map((m) => m.ticker)).toEqual(['MSTR']);
+    expect(losers.map((m) => m.ticker)).toEqual(['MTPLF']);
+  });
+
+  test('carries price and diluted mNAV', () => {
+    expect(computeBtctcMovers(companies, 1).gainers[0]).toEqual({
+      company: 'MSTR', ticker: 'MSTR', changePercent: 5.4, price: 10, mNAV: 1.2,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+// Biggest 1-day movers in the BTC treasury company (BTCTC) universe, from the
+// terminal /api/btctc payload. Shared by the get_btctc_movers chat tool and the
+// EOD report's movers reply.
+
+import type { BtctcCompany } from '../terminal/btctc';
+
+export interface BtctcMover {
+  company: string;
+  ticker: string;
+  changePercent: number;
+  price: number | null;
+  mNAV: number | null;
+}
+
+export interface BtctcMovers {
+  gainers: BtctcMover[];
+  losers: BtctcMover[];
+}
+
+/**
+ * Sort the BTCTC universe by 1-day change into top gainers and losers.
+ * Mirrors the legacy lib/sheets/btctc.ts getBTCTCMovers logic, repointed at the
+ * terminal payload: companies with a null/zero 1-day change are excluded so the
+ * extremes are real moves, gainers are the top `limit`, losers the bottom `limit`.
+ */
+export function computeBtctcMovers(companies: BtctcCompany[], limit: number): BtctcMovers {
+  const sorted = companies
+    .filter((c) => c.oneDayChangePercent != null && c.oneDayChangePercent !== 0)
+    .sort(
+      (a, b) => (b.oneDayChangePercent as number) - (a.oneDayChangePercent as number)
+    );
+
+  const toMover = (c: BtctcCompany): BtctcMover => ({
+    company: c.company,
+    ticker: c.ticker,
+    changePercent: c.oneDayChangePercent as number,
+    price: c.price,
+    mNAV: c.dilutedMNAV,
+  });
+
+  const gainers = sorted.slice(0, limit).map(toMover);
+  const losers = sorted.slice(-limit).reverse().map(toMover);
+  return { gainers, losers };
+}
@@ -0,0 +1,92 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import {
+  computeDrawdown,
+  summarizeDrawdowns,
+  newlyCrossedThresholds,
+  getDrawdownAlertThresholds,
+  DEFAULT_DRAWDOWN_THRESHOLDS,
+  type ValuePoint,
+} from './drawdown';
+
+const series = (values: Array<number | null>): ValuePoint[] =>
+  values.map((value, i) => ({ date: `2026-06-${String(i + 1).padStart(2, '0')}`, value }));
+
+describe('computeDrawdown', () => {
+  test('tracks the high-water mark, current and max drawdown', () => {
+    // 100 → 120 (high) → 90 (−25%) → 110 (−8.33%)
+    const d = computeDrawdown(series([100, 120, 90, 110]))!;
+    expect(d.peak).toBe(120);
+    expect(d.peakDate).toBe('2026-06-02');
+    expect(d.currentDrawdownPct).toBeCloseTo(-8.3333, 4);
+    expect(d.maxDrawdownPct).toBeCloseTo(-25, 10);
+    expect(d.maxDrawdownDate).toBe('2026-06-03');
+  });
+
+  test('at a new high the current drawdown is zero but max is kept', () => {
+    const d = computeDrawdown(series([100, 80, 130]))!;
+    expect(d.currentDrawdownPct).toBe(0);
+    expect(d.maxDrawdownPct).toBeCloseTo(-20, 10);
+  });
+
+  test('null days are skipped, an all-null series is null', () => {
+    expect(computeDrawdown(series([100, null, 90]))!.currentDrawdownPct).toBeCloseTo(-10, 10);
+    expect(computeDrawdown(series([null, null]))).toBeNull();
+  });
+});
+
+describe('summarizeDrawdowns', () => {
+  test('fund uses AUM, BTC uses price', () => {
+    const s = summarizeDrawdowns([
+      { date: '2026-06-01', aumUsd: 100, btcPriceUsd: 70000 },
+      { date: '2026-06-02', aumUsd: 95, btcPriceUsd: 63000 },
+    ]);
+    expect(s.fund!.currentDrawdownPct).toBeCloseTo(-5, 10);
+    expect(s.btc!.currentDrawdownPct).toBeCloseTo(-10, 10);
+  });
+});
+
+describe('newlyCrossedThresholds', () => {
+  const levels = [10, 20, 30];
+
+  test('alerts on the day a level is first reached', () => {
+    expect(newlyCrossedThresholds(series([100, 95, 89]), levels)).toEqual([10]);
+  });
+
+  test('a gap down through several levels returns them all', () => {
+    expect(newlyCrossedThresholds(series([100, 95, 75]), levels)).toEqual([10, 20]);
+  });
+
+  test('staying below (or bouncing above and re-crossing) a level in the same cycle does not re-alert', () => {
+    expect(newlyCrossedThresholds(series([100, 88, 87]), levels)).toEqual([]);
+    expect(newlyCrossedThresholds(series([100, 88, 95, 89]), levels)).toEqual([]);
+  });
+
+  test('a new high starts a new cycle', () => {
+    expect(newlyCrossedThresholds(series([100, 88, 105, 94]), levels)).toEqual([10]);
+  });
+
+  test('no alert without history or above the high', () => {
+    expect(newlyCrossedThresholds(series([80]), levels)).toEqual([]);
+    expect(newlyCrossedThresholds(series([100, 110]), levels)).toEqual([]);
+  });
+});
+
+describe('getDrawdownAlertThresholds', () => {
+  const saved = process.env.DRAWDOWN_ALERT_THRESHOLDS;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.DRAWDOWN_ALERT_THRESHOLDS;
+    else process.env.DRAWDOWN_ALERT_THRESHOLDS = saved;
+  });
+
+  test('parses, de-dupes and sorts; accepts negative signs', () => {
+    process.env.DRAWDOWN_ALERT_THRESHOLDS = '-20, 10, 15, 10';
+    expect(getDrawdownAlertThresholds()).toEqual([10, 15, 20]);
+  });
+
+  test('unset or garbage falls back to the defaults', () => {
+    delete process.env.DRAWDOWN_ALERT_THRESHOLDS;
+    expect(getDrawdownAlertThresholds()).toEqual(DEFAULT_DRAWDOWN_THRESHOLDS);
+    process.env.DRAWDOWN_ALERT_THRESHOLDS = 'abc';
+    expect(getDrawdownAlertThresholds()).toEqual(DEFAULT_DRAWDOWN_THRESHOLDS);
+  });
+});
@@ -0,0 +1,125 @@
+// Drawdown from the running high-water mark, fund and BTC side by side.
+//
+// The fund side uses stored EOD AUM and the BTC side the stored BTC price. AUM
+// includes subscriptions/redemptions, so a large redemption reads as drawdown —
+// the figures describe the book, not the NAV-per-unit track record.
+//
+// Threshold alerts are derived from the series itself: a "cycle" runs from a
+// high-water mark until the next new high, and a threshold alerts only on the
+// day the drawdown first reaches it within the cycle. No alert state is stored.
+
+import type { EodValuePoint } from '../supabase/history';
+
+// Default alert levels (drawdown magnitudes in percent).
+export const DEFAULT_DRAWDOWN_THRESHOLDS = [10, 20, 30, 40, 50];
+
+export interface ValuePoint {
+  date: string;
+  value: number | null;
+}
+
+export interface DrawdownStats {
+  peak: number;
+  peakDate: string;
+  current: number;
+  currentDate: string;
+  currentDrawdownPct: number; // ≤ 0, ×100-scaled
+  maxDrawdownPct: number; // ≤ 0, worst peak-to-trough over the whole series
+  maxDrawdownDate: string; // trough date of the max drawdown
+}
+
+export interface DrawdownSummary {
+  fund: DrawdownStats | null;
+  btc: DrawdownStats | null;
+}
+
+/**
+ * Alert thresholds from DRAWDOWN_ALERT_THRESHOLDS ("10,20,30"), read lazily.
+ * Signs are ignored (-10 and 10 both mean a 10% drawdown); an empty or
+ * unparseable value falls back to the defaults.
+ */
+export function getDrawdownAlertThresholds(): number[] {
+  const raw = process.env.DRAWDOWN_ALERT_THRESHOLDS;
+  if (!raw || raw.trim() === '') return DEFAULT_DRAWDOWN_THRESHOLDS;
+  const parsed = raw
+    .split(',')
+    .map((t) => Math.abs(Number(t.trim())))
+    .filter((t) => Number.isFinite(t) && t > 0 && t < 100);
+  return parsed.length > 0 ? [...new Set(parsed)].sort((a, b) => a - b) : DEFAULT_DRAWDOWN_THRESHOLDS;
+}
+
+function drawdownPct(value: number, peak: number): number {
+  return (value / peak - 1) * 100;
+}
+
+function knownPoints(points: ValuePoint[]): Array<{ date: string; value: number }> {
+  return points
+    .filter((p): p is { date: string; value: number } => p.value != null && p.value > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** High-water mark, current and max drawdown of a series (any order). Null if empty. */
+export function computeDrawdown(points: ValuePoint[]): DrawdownStats | null {
+  const series = knownPoints(points);
+  if (series.length === 0) return null;
+
+  let peak = series[0];
+  let maxDrawdownPct = 0;
+  let maxDrawdownDate = series[0].date;
+
+  for (const p of series) {
+    if (p.value >= peak.value) peak = p;
+    const dd = drawdownPct(p.value, peak.value);
+    if (dd < maxDrawdownPct) {
+      maxDrawdownPct = dd;
+      maxDrawdownDate = p.date;
+    }
+  }
+
+  const last = series[series.length - 1];
+  return {
+    peak: peak.value,
+    peakDate: peak.date,
+    current: last.value,
+    currentDate: last.date,
+    currentDrawdownPct: drawdownPct(last.value, peak.value),
+    maxDrawdownPct,
+    maxDrawdownDate,
+  };
+}
+
+export function summarizeDrawdowns(days: EodValuePoint[]): DrawdownSummary {
+  return {
+    fund: computeDrawdown(days.map((d) => ({ date: d.date, value: d.aumUsd }))),
+    btc: computeDrawdown(days.map((d) => ({ date: d.date, value: d.btcPriceUsd }))),
+  };
+}
+
+/**
+ * Thresholds the LATEST point crosses for the first time in the current cycle,
+ * ascending. A gap down through several levels returns all of them; a day that
+ * merely stays below an already-crossed level returns nothing.
+ */
+export function newlyCrossedThresholds(points: ValuePoint[], thresholds: number[]): number[] {
+  const series = knownPoints(points);
+  if (series.length < 2) return [];
+
+  // Worst drawdown within the current cycle, before the latest point.
+  let peak = series[0].value;
+  let worstBefore = 0;
+  for (const p of series.slice(0, -1)) {
+    if (p.value >= peak) {
+      peak = p.value;
+      worstBefore = 0; // new high → new cycle
+    }
+    worstBefore = Math.min(worstBefore, drawdownPct(p.value, peak));
+  }
+
+  const latest = series[series.length - 1].value;
+  if (latest >= peak) return [];
+  const current = drawdownPct(latest, peak);
+
+  return thresholds
+    .filter((t) => current <= -t && worstBefore > -t)
+    .sort((a, b) => a - b);
+}
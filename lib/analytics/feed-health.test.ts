@@ -0,0 +1,67 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { findStaleFeeds, getStaleFeedAlertDays, staleFeedAlerts } from './feed-health';
+
+const day = (date: string, changes: Record<string, number | null>) => ({
+  date,
+  holdings: Object.entries(changes).map(([ticker, change1dPct]) => ({
+    name: `${ticker} Inc`,
+    ticker,
+    weightPercent: 2,
+    change1dPct,
+  })),
+});
+
+describe('findStaleFeeds', () => {
+  test('counts the trailing run of null or zero quotes per ticker', () => {
+    const feeds = findStaleFeeds([
+      day('2026-10-12', { DV8: 1.1, ZERO: 0, LIVE: 1 }),
+      day('2026-10-13', { DV8: null, ZERO: 0, LIVE: 0 }),
+      day('2026-10-14', { DV8: 0, ZERO: 0, LIVE: 2 }),
+      day('2026-10-15', { DV8: null, ZERO: 0, LIVE: -1 }),
+    ]);
+    expect(feeds.map((f) => [f.ticker, f.staleDays, f.firstStaleDate, f.latestChange])).toEqual([
+      ['ZERO', 4, '2026-10-12', 0],
+      ['DV8', 3, '2026-10-13', null],
+    ]);
+  });
+
+  test('a day without the ticker ends its run; input order does not matter', () => {
+    const feeds = findStaleFeeds([
+      day('2026-10-15', { DV8: null }),
+      day('2026-10-13', { DV8: null }),
+      day('2026-10-14', { OTHER: 1 }),
+    ]);
+    expect(feeds.map((f) => [f.ticker, f.staleDays])).toEqual([['DV8', 1]]);
+  });
+
+  test('no history, no stale feeds', () => {
+    expect(findStaleFeeds([])).toEqual([]);
+  });
+});
+
+describe('staleFeedAlerts', () => {
+  const feed = (staleDays: number) => ({
+    ticker: 'DV8', name: 'DV8', weightPercent: 1, staleDays, firstStaleDate: '2026-10-01', latestChange: null,
+  });
+
+  test('alerts at N business days, then every N more, escalating', () => {
+    expect(staleFeedAlerts([feed(2)], 3)).toEqual([]);
+    expect(staleFeedAlerts([feed(3)], 3).map((a) => a.level)).toEqual([1]);
+    expect(staleFeedAlerts([feed(4)], 3)).toEqual([]);
+    expect(staleFeedAlerts([feed(6)], 3).map((a) => a.level)).toEqual([2]);
+  });
+});
+
+describe('getStaleFeedAlertDays', () => {
+  afterEach(() => {
+    delete process.env.STALE_FEED_ALERT_DAYS;
+  });
+
+  test('reads STALE_FEED_ALERT_DAYS, falling back to 3', () => {
+    expect(getStaleFeedAlertDays()).toBe(3);
+    process.env.STALE_FEED_ALERT_DAYS = '5';
+    expect(getStaleFeedAlertDays()).toBe(5);
+    process.env.STALE_FEED_ALERT_DAYS = 'soon';
+    expect(getStaleFeedAlertDays()).toBe(3);
+  });
+});
@@ -0,0 +1,83 @@
+// Stale price feed monitor for the brief's holdings.
+//
+// A holding whose 1D change comes back null (no quote) or exactly 0 (a frozen
+// quote) day after day has a dead feed — the EOD report marks it, but a quiet
+// "no recent quote†" is how the DV8 outage went unnoticed for weeks. This
+// counts each ticker's trailing run of such EOD briefs from the stored history.
+//
+// Alerts are derived from the run length, like the drawdown alerts: a ticker
+// alerts on the day its run reaches N business days and again at 2N, 3N, …
+// (each one louder). No alert state is stored.
+
+import type { EodBriefSnapshot } from '../supabase/history';
+
+export const DEFAULT_STALE_FEED_ALERT_DAYS = 3;
+
+// Calendar-day lookback the monitor and get_feed_health read; ~30 business days.
+export const FEED_HEALTH_LOOKBACK_DAYS = 45;
+
+export interface StaleFeed {
+  ticker: string;
+  name: string;
+  weightPercent: number | null; // in the latest brief
+  staleDays: number; // consecutive EOD briefs, ending with the latest
+  firstStaleDate: string; // YYYY-MM-DD of the first brief in the run
+  latestChange: null | 0; // null = no quote, 0 = frozen quote
+}
+
+export interface StaleFeedAlert extends StaleFeed {
+  level: number; // 1 at N days, 2 at 2N, …
+}
+
+/** Business days of stale quotes before the first alert (STALE_FEED_ALERT_DAYS), read lazily. */
+export function getStaleFeedAlertDays(): number {
+  const n = Math.floor(Number(process.env.STALE_FEED_ALERT_DAYS));
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_STALE_FEED_ALERT_DAYS;
+}
+
+export function isStaleChange(change1dPct: number | null): change1dPct is null | 0 {
+  return change1dPct === null || change1dPct === 0;
+}
+
+/**
+ * Holdings in the latest brief whose quote has been stale for every brief
+ * back to `firstStaleDate`, longest run first. A day the ticker is missing
+ * from the brief ends its run.
+ */
+export function findStaleFeeds(days: Array<Pick<EodBriefSnapshot, 'date' | 'holdings'>>): StaleFeed[] {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = sorted[sorted.length - 1];
+  if (!latest) return [];
+
+  const feeds: StaleFeed[] = [];
+  for (const holding of latest.holdings) {
+    if (!isStaleChange(holding.change1dPct)) continue;
+
+    let staleDays = 0;
+    let firstStaleDate = latest.date;
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const h = sorted[i].holdings.find((x) => x.ticker === holding.ticker);
+      if (!h || !isStaleChange(h.change1dPct)) break;
+      staleDays += 1;
+      firstStaleDate = sorted[i].date;
+    }
+
+    feeds.push({
+      ticker: holding.ticker,
+      name: holding.name,
+      weightPercent: holding.weightPercent,
+      staleDays,
+      firstStaleDate,
+      latestChange: holding.change1dPct,
+    });
+  }
+
+  return feeds.sort((a, b) => b.staleDays - a.staleDays || a.ticker.localeCompare(b.ticker));
+}
+
+/** The stale feeds to alert on today: runs that just reached N, 2N, 3N, … days. */
+export function staleFeedAlerts(feeds: StaleFeed[], alertDays: number): StaleFeedAlert[] {
+  return feeds
+    .filter((f) => f.staleDays >= alertDays && f.staleDays % alertDays === 0)
+    .map((f) => ({ ...f, level: f.staleDays / alertDays }));
+}
@@ -0,0 +1,81 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import {
+  evaluateHoldingMoves,
+  getHoldingMoveAlertConfig,
+  nextAlertStates,
+  type HoldingAlertState,
+  type HoldingMoveAlertConfig,
+} from './holding-moves';
+
+const config: HoldingMoveAlertConfig = {
+  defaultThresholdPct: 10,
+  thresholdsByTicker: { MSTR: 8 },
+  escalationStepPct: 5,
+};
+
+const h = (ticker: string, change1dPct: number | null) => ({
+  name: `${ticker} Inc`,
+  ticker,
+  weightPercent: 5,
+  change1dPct,
+});
+
+const state = (ticker: string, alertedPct: number): HoldingAlertState => ({
+  ticker,
+  direction: alertedPct > 0 ? 'up' : 'down',
+  alertedPct,
+  alertCount: 1,
+});
+
+describe('evaluateHoldingMoves', () => {
+  test('alerts at the default or per-ticker threshold, largest move first', () => {
+    const alerts = evaluateHoldingMoves(
+      [h('AAA', -9.9), h('BBB', 11), h('MSTR', -8.5), h('CCC', null), h('DDD', -18)],
+      new Map(),
+      config
+    );
+    expect(alerts.map((a) => [a.holding.ticker, a.kind, a.thresholdPct])).toEqual([
+      ['DDD', 'new', 10],
+      ['BBB', 'new', 10],
+      ['MSTR', 'new', 8],
+    ]);
+  });
+
+  test('stays quiet until the move widens by the escalation step', () => {
+    const previous = new Map([['DDD', state('DDD', -12)]]);
+    expect(evaluateHoldingMoves([h('DDD', -16.9)], previous, config)).toEqual([]);
+
+    const [alert] = evaluateHoldingMoves([h('DDD', -17)], previous, config);
+    expect(alert).toMatchObject({ kind: 'escalation', previousPct: -12 });
+  });
+
+  test('a reversal through the threshold is a new alert', () => {
+    const previous = new Map([['DDD', state('DDD', -12)]]);
+    const [alert] = evaluateHoldingMoves([h('DDD', 10.5)], previous, config);
+    expect(alert.kind).toBe('new');
+  });
+
+  test('nextAlertStates records the alerted move and bumps the count', () => {
+    const previous = new Map([['DDD', state('DDD', -12)]]);
+    const alerts = evaluateHoldingMoves([h('ddd', -20)], previous, config);
+    expect(nextAlertStates(alerts, previous)).toEqual([
+      { ticker: 'DDD', direction: 'down', alertedPct: -20, alertCount: 2 },
+    ]);
+  });
+});
+
+describe('getHoldingMoveAlertConfig', () => {
+  afterEach(() => {
+    delete process.env.HOLDING_MOVE_ALERT_PCT;
+    delete process.env.HOLDING_MOVE_ALERT_OVERRIDES;
+  });
+
+  test('reads the default and per-ticker overrides, skipping malformed entries', () => {
+    process.env.HOLDING_MOVE_ALERT_PCT = '12';
+    process.env.HOLDING_MOVE_ALERT_OVERRIDES = 'mstr:8, MTPLF:-15, bad, X:abc';
+    const c = getHoldingMoveAlertConfig();
+    expect(c.defaultThresholdPct).toBe(12);
+    expect(c.thresholdsByTicker).toEqual({ MSTR: 8, MTPLF: 15 });
+    expect(c.escalationStepPct).toBe(5);
+  });
+});
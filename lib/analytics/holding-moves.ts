@@ -0,0 +1,116 @@
+// Intraday holdings move alerts: which holdings' 1-day moves warrant a post.
+//
+// A holding alerts when |change1dPct| reaches its threshold (per-ticker
+// override, else the default). After that it is quiet for the rest of the day
+// unless the move widens by the escalation step beyond the last alerted move,
+// or reverses through the threshold the other way — so a -12% day alerts once
+// at -12%, again at -17%, and not on every 15-minute poll in between.
+
+import type { PositionHolding } from '../terminal/positions';
+
+export const DEFAULT_HOLDING_MOVE_THRESHOLD_PCT = 10;
+export const DEFAULT_HOLDING_MOVE_ESCALATION_PCT = 5;
+
+export type MoveDirection = 'up' | 'down';
+
+export interface HoldingMoveAlertConfig {
+  defaultThresholdPct: number;
+  thresholdsByTicker: Record<string, number>; // upper-case ticker → |move| %
+  escalationStepPct: number;
+}
+
+export interface HoldingAlertState {
+  ticker: string;
+  direction: MoveDirection;
+  alertedPct: number; // the 1D move (signed, ×100-scaled) at the last alert
+  alertCount: number;
+}
+
+export interface HoldingMoveAlert {
+  holding: PositionHolding;
+  kind: 'new' | 'escalation';
+  thresholdPct: number;
+  previousPct: number | null; // last alerted move, for escalations
+}
+
+function envNumber(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (raw == null || raw.trim() === '') return fallback;
+  const n = Math.abs(Number(raw));
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Per-ticker thresholds from HOLDING_MOVE_ALERT_OVERRIDES ("MSTR:8,MTPLF:15").
+ * Malformed entries are skipped.
+ */
+function parseTickerThresholds(raw: string | undefined): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const part of (raw ?? '').split(',')) {
+    const [ticker, value] = part.split(':').map((s) => s?.trim());
+    const n = Math.abs(Number(value));
+    if (ticker && Number.isFinite(n) && n > 0) out[ticker.toUpperCase()] = n;
+  }
+  return out;
+}
+
+/** Alert config from env, read lazily (HOLDING_MOVE_ALERT_PCT, …_OVERRIDES, …_ESCALATION_PCT). */
+export function getHoldingMoveAlertConfig(): HoldingMoveAlertConfig {
+  return {
+    defaultThresholdPct: envNumber('HOLDING_MOVE_ALERT_PCT', DEFAULT_HOLDING_MOVE_THRESHOLD_PCT),
+    thresholdsByTicker: parseTickerThresholds(process.env.HOLDING_MOVE_ALERT_OVERRIDES),
+    escalationStepPct: envNumber('HOLDING_MOVE_ESCALATION_PCT', DEFAULT_HOLDING_MOVE_ESCALATION_PCT),
+  };
+}
+
+export function thresholdFor(ticker: string, config: HoldingMoveAlertConfig): number {
+  return config.thresholdsByTicker[ticker.toUpperCase()] ?? config.defaultThresholdPct;
+}
+
+/**
+ * Holdings to alert on this poll, largest move first. `previous` is today's
+ * alert state keyed by upper-case ticker.
+ */
+export function evaluateHoldingMoves(
+  holdings: PositionHolding[],
+  previous: Map<string, HoldingAlertState>,
+  config: HoldingMoveAlertConfig
+): HoldingMoveAlert[] {
+  const alerts: HoldingMoveAlert[] = [];
+
+  for (const holding of holdings) {
+    const move = holding.change1dPct;
+    if (move == null || !holding.ticker) continue;
+
+    const thresholdPct = thresholdFor(holding.ticker, config);
+    if (Math.abs(move) < thresholdPct) continue;
+
+    const direction: MoveDirection = move > 0 ? 'up' : 'down';
+    const prior = previous.get(holding.ticker.toUpperCase());
+
+    if (!prior || prior.direction !== direction) {
+      alerts.push({ holding, kind: 'new', thresholdPct, previousPct: null });
+    } else if (Math.abs(move) >= Math.abs(prior.alertedPct) + config.escalationStepPct) {
+      alerts.push({ holding, kind: 'escalation', thresholdPct, previousPct: prior.alertedPct });
+    }
+  }
+
+  return alerts.sort((a, b) => Math.abs(b.holding.change1dPct!) - Math.abs(a.holding.change1dPct!));
+}
+
+/** The state to store after posting `alerts` (merged over `previous` by the caller). */
+export function nextAlertStates(
+  alerts: HoldingMoveAlert[],
+  previous: Map<string, HoldingAlertState>
+): HoldingAlertState[] {
+  return alerts.map(({ holding }) => {
+    const ticker = holding.ticker.toUpperCase();
+    const move = holding.change1dPct!;
+    return {
+      ticker,
+      direction: move > 0 ? 'up' : 'down',
+      alertedPct: move,
+      alertCount: (previous.get(ticker)?.alertCount ?? 0) + 1,
+    };
+  });
+}
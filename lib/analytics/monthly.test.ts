@@ -0,0 +1,93 @@
+import { test, expect, describe } from 'bun:test';
+import { monthlyReturnFor, computeMonthlyReturns, summarizeMonth } from './monthly';
+import type { EodBriefSnapshot, MorningBriefSnapshot } from '../supabase/history';
+
+const morning = (date: string, fundMtdPct: number | null, btcMtdPct: number | null): MorningBriefSnapshot => ({
+  date,
+  asOf: `${date}T14:00:00.000Z`,
+  aumUsd: 100000000,
+  fundMtdPct,
+  fundYtdPct: null,
+  cashUsd: null,
+  btcPriceUsd: 64000,
+  btcMtdPct,
+  btcYtdPct: null,
+});
+
+const eod = (date: string, fund1dPct: number | null, btc1dPct: number | null): EodBriefSnapshot => ({
+  date,
+  asOf: `${date}T23:00:00.000Z`,
+  fundAsOfDate: date,
+  aumUsd: 100000000,
+  fund1dPct,
+  fundYtdPct: null,
+  btcPriceUsd: 64000,
+  btc1dPct,
+  btcYtdPct: null,
+  holdings: [],
+  onChain: null,
+});
+
+const mornings = [
+  morning('2025-12-31', 2, 1),
+  morning('2026-01-29', 4, 3),
+  morning('2026-01-30', 5, 2), // last January morning: MTD through Jan 29 close
+  morning('2026-02-27', -2, -4),
+  morning('2026-03-31', 10, null),
+];
+
+const eods = [
+  eod('2026-01-29', 1, 1), // before the last morning — already in its MTD
+  eod('2026-01-30', 2, -1),
+  eod('2026-02-27', null, 1),
+];
+
+describe('monthlyReturnFor', () => {
+  test('closes the last morning MTD with EOD returns from that day on', () => {
+    const jan = monthlyReturnFor('2026-01', mornings, eods)!;
+    // Fund: 1.05 × 1.02 − 1 = 7.1%; BTC: 1.02 × 0.99 − 1 = 0.98%
+    expect(jan.fundReturn).toBeCloseTo(7.1, 6);
+    expect(jan.btcReturn).toBeCloseTo(0.98, 6);
+    expect(jan.alpha).toBeCloseTo(6.12, 6);
+  });
+
+  test('a null EOD day is skipped, not treated as flat', () => {
+    const feb = monthlyReturnFor('2026-02', mornings, eods)!;
+    expect(feb.fundReturn).toBeCloseTo(-2, 6);
+    expect(feb.btcReturn).toBeCloseTo(-3.04, 6);
+  });
+
+  test('no stored month or a missing MTD side → null', () => {
+    expect(monthlyReturnFor('2026-04', mornings, eods)).toBeNull();
+    expect(monthlyReturnFor('2026-03', mornings, eods)).toBeNull();
+  });
+});
+
+describe('computeMonthlyReturns', () => {
+  test('returns the trailing window oldest first, omitting missing months', () => {
+    const rows = computeMonthlyReturns('2026-03', mornings, eods);
+    expect(rows.map((r) => r.month)).toEqual(['2025-12', '2026-01', '2026-02']);
+  });
+
+  test('respects the window size', () => {
+    expect(computeMonthlyReturns('2026-02', mornings, eods, 2).map((r) => r.month)).toEqual(['2026-01', '2026-02']);
+  });
+});
+
+describe('summarizeMonth', () => {
+  test('YTD compounds only the closed month\'s calendar year', () => {
+    const s = summarizeMonth('2026-02', mornings, eods);
+    expect(s.closed?.month).toBe('2026-02');
+    expect(s.trailing).toHaveLength(3);
+    expect(s.ytdMonths).toBe(2);
+    // 1.071 × 0.98 − 1 = 4.958%
+    expect(s.ytdFundPct).toBeCloseTo(4.958, 6);
+    expect(s.ytdAlphaPct).toBeCloseTo(s.ytdFundPct! - s.ytdBtcPct!, 10);
+  });
+
+  test('a month with no stored history has no closed row', () => {
+    const s = summarizeMonth('2026-04', mornings, eods);
+    expect(s.closed).toBeNull();
+    expect(s.ytdMonths).toBe(2);
+  });
+});
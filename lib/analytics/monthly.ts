@@ -0,0 +1,86 @@
+// Month-end returns built from the stored morning-brief MTD figures.
+//
+// The morning brief's MTD runs through the *previous* close, so the last stored
+// morning of a month is one trading day short of month-end. That gap is closed
+// with the stored EOD 1-day returns from that morning's date onward (the EOD row
+// for day D covers close D-1 → close D), which gives the full close-to-close
+// month without re-deriving anything the terminal already computed.
+
+import type { MonthlyReturn } from '../../types/portfolio';
+import type { EodBriefSnapshot, MorningBriefSnapshot } from '../supabase/history';
+import { addMonthsKey } from '../utils/dates';
+import { compoundPct } from './returns';
+
+// Rows in the trailing table, including the closed month.
+export const TRAILING_MONTHS = 12;
+
+export interface MonthlySummary {
+  month: string; // closed month, YYYY-MM
+  closed: MonthlyReturn | null; // null when the month has no stored morning MTD
+  trailing: MonthlyReturn[]; // oldest first, months without stored data omitted
+  ytdFundPct: number | null;
+  ytdBtcPct: number | null;
+  ytdAlphaPct: number | null;
+  ytdMonths: number; // stored months compounded into the YTD figures
+}
+
+/**
+ * Fund and BTC return for one calendar month: the last stored morning MTD of
+ * the month, compounded with the stored EOD 1-day returns on or after that
+ * morning's date. Returns null when the month has no morning MTD for either
+ * side — a missing month is reported as missing, never as flat.
+ */
+export function monthlyReturnFor(
+  month: string,
+  morning: MorningBriefSnapshot[],
+  eod: EodBriefSnapshot[]
+): MonthlyReturn | null {
+  const inMonth = morning
+    .filter((m) => m.date.startsWith(month))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const last = inMonth[inMonth.length - 1];
+  if (!last || last.fundMtdPct == null || last.btcMtdPct == null) return null;
+
+  const tail = eod.filter((d) => d.date.startsWith(month) && d.date >= last.date);
+  const fundReturn = compoundPct([last.fundMtdPct, ...tail.map((d) => d.fund1dPct)])!;
+  const btcReturn = compoundPct([last.btcMtdPct, ...tail.map((d) => d.btc1dPct)])!;
+
+  return { month, fundReturn, btcReturn, alpha: fundReturn - btcReturn };
+}
+
+/** MonthlyReturn rows for the `count` months ending with `lastMonth`, oldest first. */
+export function computeMonthlyReturns(
+  lastMonth: string,
+  morning: MorningBriefSnapshot[],
+  eod: EodBriefSnapshot[],
+  count: number = TRAILING_MONTHS
+): MonthlyReturn[] {
+  const rows: MonthlyReturn[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const row = monthlyReturnFor(addMonthsKey(lastMonth, -i), morning, eod);
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+export function summarizeMonth(
+  month: string,
+  morning: MorningBriefSnapshot[],
+  eod: EodBriefSnapshot[]
+): MonthlySummary {
+  const trailing = computeMonthlyReturns(month, morning, eod);
+  const ytd = trailing.filter((r) => r.month.slice(0, 4) === month.slice(0, 4));
+
+  const ytdFundPct = compoundPct(ytd.map((r) => r.fundReturn));
+  const ytdBtcPct = compoundPct(ytd.map((r) => r.btcReturn));
+
+  return {
+    month,
+    closed: trailing.find((r) => r.month === month) ?? null,
+    trailing,
+    ytdFundPct,
+    ytdBtcPct,
+    ytdAlphaPct: ytdFundPct != null && ytdBtcPct != null ? ytdFundPct - ytdBtcPct : null,
+    ytdMonths: ytd.length,
+  };
+}
@@ -0,0 +1,79 @@
+import { test, expect, describe } from 'bun:test';
+import { detectRegimeChanges, type OnChainRegimeState } from './onchain-regimes';
+import type { OnChainRegime, OnChainRegimeMetric } from '../external/bitcoin-magazine-pro';
+
+const now = new Date('2026-10-19T15:10:00Z');
+
+const reading = (metric: OnChainRegimeMetric, regime: string, value: number): OnChainRegime => ({
+  metric,
+  label: metric,
+  regime,
+  value,
+});
+
+const stored = (...states: OnChainRegimeState[]) => new Map(states.map((s) => [s.metric, s]));
+
+describe('detectRegimeChanges', () => {
+  test('the first reading records a baseline without alerting', () => {
+    const { changes, states } = detectRegimeChanges([reading('nupl', 'Belief', 62)], new Map(), now);
+    expect(changes).toEqual([]);
+    expect(states).toEqual([{ metric: 'nupl', regime: 'Belief', value: 62, since: now.toISOString() }]);
+  });
+
+  test('a new regime alerts with the previous value and how long the prior regime lasted', () => {
+    const { changes, states } = detectRegimeChanges(
+      [reading('nupl', 'Euphoria', 76)],
+      stored({ metric: 'nupl', regime: 'Belief', value: 74, since: '2026-10-07T15:10:00.000Z' }),
+      now
+    );
+    expect(changes).toEqual([
+      {
+        metric: 'nupl', label: 'nupl', from: 'Belief', to: 'Euphoria', previousValue: 74, value: 76,
+        priorSince: '2026-10-07T15:10:00.000Z', priorDurationMs: 12 * 86400000, signFlip: false,
+      },
+    ]);
+    expect(states[0].since).toBe(now.toISOString());
+  });
+
+  test('an unchanged regime updates the value but keeps since', () => {
+    const { changes, states } = detectRegimeChanges(
+      [reading('fearGreed', 'Greed', 70)],
+      stored({ metric: 'fearGreed', regime: 'Greed', value: 60, since: '2026-10-01T00:00:00.000Z' }),
+      now
+    );
+    expect(changes).toEqual([]);
+    expect(states).toEqual([{ metric: 'fearGreed', regime: 'Greed', value: 70, since: '2026-10-01T00:00:00.000Z' }]);
+  });
+
+  test('funding alerts on a sign flip inside the same regime', () => {
+    const { changes } = detectRegimeChanges(
+      [reading('fundingRate', 'Neutral', -0.002)],
+      stored({ metric: 'fundingRate', regime: 'Neutral', value: 0.004, since: '2026-10-19T10:00:00.000Z' }),
+      now
+    );
+    expect(changes.map((c) => [c.from, c.to, c.signFlip])).toEqual([['Neutral', 'Neutral', true]]);
+  });
+
+  test('funding oscillating around zero does not alert until it clears the dead band', () => {
+    let previous = stored({ metric: 'fundingRate', regime: 'Neutral', value: 0.004, since: '2026-10-19T10:00:00.000Z' });
+    for (const value of [0.001, -0.001, 0.0015, -0.0005]) {
+      const { changes, states } = detectRegimeChanges([reading('fundingRate', 'Neutral', value)], previous, now);
+      expect(changes).toEqual([]);
+      expect(states[0].value).toBe(0.004);
+      previous = stored(states[0]);
+    }
+
+    const { changes } = detectRegimeChanges([reading('fundingRate', 'Neutral', -0.005)], previous, now);
+    expect(changes.map((c) => [c.previousValue, c.value, c.signFlip])).toEqual([[0.004, -0.005, true]]);
+  });
+
+  test('a metric missing from this reading is left alone', () => {
+    const { changes, states } = detectRegimeChanges(
+      [],
+      stored({ metric: 'mvrv', regime: 'Fair', value: 0.8, since: '2026-10-01T00:00:00.000Z' }),
+      now
+    );
+    expect(changes).toEqual([]);
+    expect(states).toEqual([]);
+  });
+});
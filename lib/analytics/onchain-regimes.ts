@@ -0,0 +1,94 @@
+// On-chain regime change alerts: which metrics moved into a new regime since
+// the last check.
+//
+// The regimes are the classifications the daily reports already show
+// (lib/external/bitcoin-magazine-pro.ts). A metric alerts when its regime
+// differs from the stored one; funding also alerts when it changes sign, since
+// a flip negative matters even while it stays inside the "Neutral" band. The
+// first reading of a metric only records a baseline.
+//
+// Funding hovering around 0% would flip sign nearly every hourly run, so a sign
+// only counts outside a dead band (FUNDING_FLIP_MIN_PCT). A reading inside it
+// neither flips nor replaces the stored value the next flip is measured from.
+
+import type { OnChainRegime, OnChainRegimeMetric } from '../external/bitcoin-magazine-pro';
+
+export interface OnChainRegimeState {
+  metric: OnChainRegimeMetric;
+  regime: string;
+  value: number; // latest reading (funding: latest outside the dead band)
+  since: string; // ISO timestamp the metric entered this regime
+}
+
+export interface OnChainRegimeChange {
+  metric: OnChainRegimeMetric;
+  label: string;
+  from: string;
+  to: string;
+  previousValue: number;
+  value: number;
+  priorSince: string; // when the prior regime began
+  priorDurationMs: number;
+  signFlip: boolean; // funding crossed zero (the regime may be unchanged)
+}
+
+// |funding| below this (percent) has no trustworthy sign.
+export const DEFAULT_FUNDING_FLIP_MIN_PCT = 0.002;
+
+/** Funding dead band from FUNDING_FLIP_MIN_PCT, read lazily; invalid values fall back to the default. */
+export function getFundingFlipMinPct(): number {
+  const parsed = Math.abs(Number(process.env.FUNDING_FLIP_MIN_PCT));
+  return process.env.FUNDING_FLIP_MIN_PCT?.trim() && Number.isFinite(parsed) ? parsed : DEFAULT_FUNDING_FLIP_MIN_PCT;
+}
+
+function fundingSignFlipped(previous: number, current: number, minPct: number): boolean {
+  return Math.abs(previous) >= minPct && Math.abs(current) >= minPct && (previous < 0) !== (current < 0);
+}
+
+/**
+ * Compare this reading against the stored states. Returns the transitions to
+ * alert on and the states to store — every metric read this time, with `since`
+ * carried over unless it changed. Metrics missing from `current` (a failed
+ * fetch) are left as they were.
+ */
+export function detectRegimeChanges(
+  current: OnChainRegime[],
+  previous: Map<OnChainRegimeMetric, OnChainRegimeState>,
+  now: Date = new Date(),
+  fundingFlipMinPct: number = DEFAULT_FUNDING_FLIP_MIN_PCT
+): { changes: OnChainRegimeChange[]; states: OnChainRegimeState[] } {
+  const changes: OnChainRegimeChange[] = [];
+  const states: OnChainRegimeState[] = [];
+  const nowIso = now.toISOString();
+
+  for (const reading of current) {
+    const prior = previous.get(reading.metric);
+    const funding = reading.metric === 'fundingRate';
+    const signFlip = funding && !!prior && fundingSignFlipped(prior.value, reading.value, fundingFlipMinPct);
+    const value = funding && prior && Math.abs(reading.value) < fundingFlipMinPct ? prior.value : reading.value;
+
+    if (prior && (prior.regime !== reading.regime || signFlip)) {
+      changes.push({
+        metric: reading.metric,
+        label: reading.label,
+        from: prior.regime,
+        to: reading.regime,
+        previousValue: prior.value,
+        value: reading.value,
+        priorSince: prior.since,
+        priorDurationMs: now.getTime() - Date.parse(prior.since),
+        signFlip,
+      });
+      states.push({ metric: reading.metric, regime: reading.regime, value, since: nowIso });
+    } else {
+      states.push({
+        metric: reading.metric,
+        regime: reading.regime,
+        value,
+        since: prior?.since ?? nowIso,
+      });
+    }
+  }
+
+  return { changes, states };
+}
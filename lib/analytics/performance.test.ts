@@ -0,0 +1,102 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import {
+  computePerformanceStats,
+  monthlyReturnsFromDaily,
+  getDefaultPerformanceOptions,
+  MIN_OBSERVATIONS,
+} from './performance';
+import type { EodBriefSnapshot } from '../supabase/history';
+
+const day = (date: string, fund1dPct: number | null, btc1dPct: number | null): EodBriefSnapshot => ({
+  date,
+  asOf: `${date}T23:00:00.000Z`,
+  fundAsOfDate: date,
+  aumUsd: 100000000,
+  fund1dPct,
+  fundYtdPct: null,
+  btcPriceUsd: 64000,
+  btc1dPct,
+  btcYtdPct: null,
+  holdings: [],
+  onChain: null,
+});
+
+// Ten business days in June + two in July; fund = 0.5 × BTC + 0.1 each day.
+const btcMoves = [2, -1, 3, -2, 1, 0.5, -1.5, 2.5, -0.5, 1, -3, 4];
+const dates = [
+  '2026-06-17', '2026-06-18', '2026-06-19', '2026-06-22', '2026-06-23', '2026-06-24',
+  '2026-06-25', '2026-06-26', '2026-06-29', '2026-06-30', '2026-07-01', '2026-07-02',
+];
+const days = dates.map((d, i) => day(d, 0.5 * btcMoves[i] + 0.1, btcMoves[i]));
+
+const opts = { riskFreeRatePct: 0, periodsPerYear: 252 };
+
+describe('computePerformanceStats', () => {
+  const s = computePerformanceStats([...days].reverse(), opts)!;
+
+  test('recovers beta/correlation of a linear fund-vs-BTC series', () => {
+    expect(s.beta).toBeCloseTo(0.5, 10);
+    expect(s.correlation).toBeCloseTo(1, 10);
+    expect(s.volatility).toBeCloseTo(s.btcVolatility * 0.5, 10);
+  });
+
+  test('Jensen alpha is the annualised intercept', () => {
+    // Intercept 0.1%/day with rf 0 → 0.001 × 252 × 100 = 25.2%.
+    expect(s.alpha).toBeCloseTo(25.2, 6);
+  });
+
+  test('orders by date and reports the window it used', () => {
+    expect(s.from).toBe('2026-06-17');
+    expect(s.to).toBe('2026-07-02');
+    expect(s.observations).toBe(12);
+    expect(s.monthlyReturns.map((m) => m.month)).toEqual(['2026-06', '2026-07']);
+  });
+
+  test('the risk-free rate lowers Sharpe and Sortino', () => {
+    const withRf = computePerformanceStats(days, { ...opts, riskFreeRatePct: 5 })!;
+    expect(withRf.sharpeRatio!).toBeLessThan(s.sharpeRatio!);
+    expect(withRf.sortinoRatio!).toBeLessThan(s.sortinoRatio!);
+  });
+
+  test('days missing either return are dropped; too few pairs → null', () => {
+    const gappy = days.map((d, i) => (i < 3 ? { ...d, btc1dPct: null } : d));
+    expect(computePerformanceStats(gappy, opts)).toBeNull();
+    expect(computePerformanceStats(days.slice(0, MIN_OBSERVATIONS), opts)?.observations).toBe(MIN_OBSERVATIONS);
+  });
+
+  test('ratios are null (not NaN/Infinity) when undefined', () => {
+    const flat = dates.map((d) => day(d, 0.1, 1));
+    const f = computePerformanceStats(flat, opts)!;
+    expect(f.volatility).toBe(0);
+    expect(f.sharpeRatio).toBeNull();
+    expect(f.sortinoRatio).toBeNull();
+    expect(f.beta).toBeNull();
+    expect(f.correlation).toBeNull();
+    expect(f.alpha).toBeNull();
+  });
+});
+
+describe('monthlyReturnsFromDaily', () => {
+  test('compounds per calendar month with alpha', () => {
+    const rows = monthlyReturnsFromDaily([day('2026-06-29', 1, 2), day('2026-06-30', 1, -1), day('2026-07-01', -2, 1)]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].fundReturn).toBeCloseTo(2.01, 10);
+    expect(rows[0].btcReturn).toBeCloseTo(0.98, 10);
+    expect(rows[0].alpha).toBeCloseTo(1.03, 10);
+  });
+});
+
+describe('getDefaultPerformanceOptions', () => {
+  const saved = process.env.RISK_FREE_RATE_PCT;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.RISK_FREE_RATE_PCT;
+    else process.env.RISK_FREE_RATE_PCT = saved;
+  });
+
+  test('env overrides, and garbage falls back to the default', () => {
+    process.env.RISK_FREE_RATE_PCT = '5.25';
+    expect(getDefaultPerformanceOptions().riskFreeRatePct).toBe(5.25);
+    process.env.RISK_FREE_RATE_PCT = 'abc';
+    expect(getDefaultPerformanceOptions().riskFreeRatePct).toBe(4);
+  });
+});
@@ -0,0 +1,140 @@
+// Risk/return statistics (PerformanceMetrics) over the stored daily series.
+//
+// Inputs are the fund and BTC 1-day returns from the stored EOD snapshots. Only
+// days where BOTH are present are used, so the fund and benchmark series stay
+// aligned for beta/correlation; the result reports how many pairs it used.
+// Percents in and out are ×100-scaled (fmtPct-ready); ratios are unitless.
+
+import type { MonthlyReturn, PerformanceMetrics } from '../../types/portfolio';
+import type { EodBriefSnapshot } from '../supabase/history';
+import { compoundPct } from './returns';
+
+// Fewer paired days than this and the statistics are noise — return null.
+export const MIN_OBSERVATIONS = 10;
+
+// Standard deviations below this are float noise on a constant series, not risk.
+const ZERO_SD = 1e-12;
+
+export interface PerformanceOptions {
+  windowDays: number; // calendar-day lookback the caller reads history for
+  riskFreeRatePct: number; // annual, ×100-scaled (4 = 4%)
+  periodsPerYear: number; // annualisation factor for daily returns
+}
+
+export interface PerformanceStats extends PerformanceMetrics {
+  from: string; // first paired day used, YYYY-MM-DD
+  to: string; // last paired day used
+  observations: number;
+  riskFreeRatePct: number;
+  periodsPerYear: number;
+  btcCumulativeReturn: number;
+  btcVolatility: number;
+}
+
+function envNumber(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (raw == null || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Defaults for the reports and the Q&A tool. Env-overridable so the risk-free
+ * rate can track T-bills without a code change; read lazily like the API keys.
+ */
+export function getDefaultPerformanceOptions(): PerformanceOptions {
+  return {
+    windowDays: envNumber('PERFORMANCE_WINDOW_DAYS', 90),
+    riskFreeRatePct: envNumber('RISK_FREE_RATE_PCT', 4),
+    // Stored returns are business-day closes (Monday's BTC 1d spans the weekend).
+    periodsPerYear: envNumber('PERFORMANCE_PERIODS_PER_YEAR', 252),
+  };
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+// Sample covariance (n − 1); covariance(xs, xs) is the sample variance.
+function covariance(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sum = 0;
+  for (let i = 0; i < xs.length; i++) sum += (xs[i] - mx) * (ys[i] - my);
+  return sum / (xs.length - 1);
+}
+
+/** Compound the paired daily returns into one MonthlyReturn per calendar month. */
+export function monthlyReturnsFromDaily(days: EodBriefSnapshot[]): MonthlyReturn[] {
+  const byMonth = new Map<string, EodBriefSnapshot[]>();
+  for (const d of days) {
+    const month = d.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), d]);
+  }
+
+  const rows: MonthlyReturn[] = [];
+  for (const [month, inMonth] of [...byMonth].sort(([a], [b]) => a.localeCompare(b))) {
+    const fundReturn = compoundPct(inMonth.map((d) => d.fund1dPct));
+    const btcReturn = compoundPct(inMonth.map((d) => d.btc1dPct));
+    if (fundReturn == null || btcReturn == null) continue;
+    rows.push({ month, fundReturn, btcReturn, alpha: fundReturn - btcReturn });
+  }
+  return rows;
+}
+
+/**
+ * Volatility, Sharpe, Sortino, beta, correlation and Jensen's alpha vs BTC over
+ * the given days (any order). Volatility and alpha are annualised percents;
+ * Sharpe/Sortino are annualised ratios. Returns null below MIN_OBSERVATIONS.
+ */
+export function computePerformanceStats(
+  days: EodBriefSnapshot[],
+  options: Pick<PerformanceOptions, 'riskFreeRatePct' | 'periodsPerYear'>
+): PerformanceStats | null {
+  const paired = days
+    .filter((d): d is EodBriefSnapshot & { fund1dPct: number; btc1dPct: number } =>
+      d.fund1dPct != null && d.btc1dPct != null
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (paired.length < MIN_OBSERVATIONS) return null;
+
+  const { riskFreeRatePct, periodsPerYear } = options;
+  const fund = paired.map((d) => d.fund1dPct / 100);
+  const btc = paired.map((d) => d.btc1dPct / 100);
+  const rfDaily = riskFreeRatePct / 100 / periodsPerYear;
+  const sqrtP = Math.sqrt(periodsPerYear);
+
+  const sd = (xs: number[]) => {
+    const v = Math.sqrt(covariance(xs, xs));
+    return v < ZERO_SD ? 0 : v;
+  };
+  const fundSd = sd(fund);
+  const btcSd = sd(btc);
+  const cov = covariance(fund, btc);
+  const fundExcess = mean(fund) - rfDaily;
+  const btcExcess = mean(btc) - rfDaily;
+
+  // Downside deviation against the risk-free hurdle, over all observations.
+  const downsideRaw = Math.sqrt(mean(fund.map((r) => Math.min(0, r - rfDaily) ** 2)));
+  const downside = downsideRaw < ZERO_SD ? 0 : downsideRaw;
+
+  const beta = btcSd > 0 ? cov / btcSd ** 2 : null;
+
+  return {
+    from: paired[0].date,
+    to: paired[paired.length - 1].date,
+    observations: paired.length,
+    riskFreeRatePct,
+    periodsPerYear,
+    cumulativeReturn: compoundPct(paired.map((d) => d.fund1dPct))!,
+    btcCumulativeReturn: compoundPct(paired.map((d) => d.btc1dPct))!,
+    monthlyReturns: monthlyReturnsFromDaily(paired),
+    volatility: fundSd * sqrtP * 100,
+    btcVolatility: btcSd * sqrtP * 100,
+    sharpeRatio: fundSd > 0 ? (fundExcess / fundSd) * sqrtP : null,
+    sortinoRatio: downside > 0 ? (fundExcess / downside) * sqrtP : null,
+    beta,
+    correlation: fundSd > 0 && btcSd > 0 ? cov / (fundSd * btcSd) : null,
+    alpha: beta != null ? (fundExcess - beta * btcExcess) * periodsPerYear * 100 : null,
+  };
+}
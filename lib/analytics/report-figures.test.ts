@@ -0,0 +1,38 @@
+import { test, expect, describe } from 'bun:test';
+import { diffReportFigures, eodReportFigures, morningReportFigures } from './report-figures';
+import { SAMPLE_BRIEF, SAMPLE_MORNING_BRIEF } from '../slack/report-preview';
+
+describe('report figures', () => {
+  test('are the values as the report displays them', () => {
+    expect(morningReportFigures(SAMPLE_MORNING_BRIEF)).toMatchObject({ 'AUM': '$94,638,882', 'Fund MTD': '-4.20%' });
+    expect(eodReportFigures(SAMPLE_BRIEF)).toMatchObject({ 'Fund 1D': '-0.10%', 'SWC 1D': '-4.88%', 'DV8 1D': 'N/A' });
+  });
+});
+
+describe('diffReportFigures', () => {
+  test('an identical re-run changes nothing', () => {
+    const figures = eodReportFigures(SAMPLE_BRIEF);
+    expect(diffReportFigures(figures, eodReportFigures(SAMPLE_BRIEF))).toEqual([]);
+  });
+
+  test('a correction lists changed, new and dropped figures', () => {
+    const corrected = {
+      ...SAMPLE_BRIEF,
+      fund: { ...SAMPLE_BRIEF.fund, aumUsd: 96250000 },
+      topHoldings: [
+        ...SAMPLE_BRIEF.topHoldings.filter((h) => h.ticker !== 'DV8'),
+        { name: 'Metaplanet', ticker: 'MTPLF', weightPercent: 3.2, change1dPct: 2.5 },
+      ],
+    };
+    expect(diffReportFigures(eodReportFigures(SAMPLE_BRIEF), eodReportFigures(corrected))).toEqual([
+      { label: 'AUM', from: '$96,000,000', to: '$96,250,000' },
+      { label: 'MTPLF 1D', from: null, to: '+2.50%' },
+      { label: 'DV8 1D', from: 'N/A', to: null },
+    ]);
+  });
+
+  test('a change too small to move the display is not a change', () => {
+    const nudged = { ...SAMPLE_BRIEF, fund: { ...SAMPLE_BRIEF.fund, change1dPct: -0.1001 } };
+    expect(diffReportFigures(eodReportFigures(SAMPLE_BRIEF), eodReportFigures(nudged))).toEqual([]);
+  });
+});
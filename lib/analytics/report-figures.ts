@@ -0,0 +1,58 @@
+// The headline figures of a daily report, as displayed, for telling what a
+// re-run changed. Values are the formatted strings the report shows, so a
+// change too small to move the display isn't called a change.
+
+import type { Brief } from '../terminal/brief';
+import type { MorningBrief } from '../terminal/morning-brief';
+import { fmtPct, fmtUsd } from '../format';
+
+export type ReportFigures = Record<string, string>;
+
+export interface FigureChange {
+  label: string;
+  from: string | null; // null: not in the earlier post
+  to: string | null; // null: no longer in the report
+}
+
+export function morningReportFigures(brief: MorningBrief): ReportFigures {
+  return {
+    'AUM': fmtUsd(brief.fund.aumUsd),
+    'Fund MTD': fmtPct(brief.fund.mtdPct),
+    'Fund YTD': fmtPct(brief.fund.ytdPct),
+    'BTC': fmtUsd(brief.btc.priceUsd),
+    'BTC MTD': fmtPct(brief.btcMtdPct),
+    'BTC YTD': fmtPct(brief.btcYtdPct),
+    'Cash': fmtUsd(brief.fund.cashUsd),
+  };
+}
+
+export function eodReportFigures(brief: Brief): ReportFigures {
+  const figures: ReportFigures = {
+    'AUM': fmtUsd(brief.fund.aumUsd),
+    'Fund 1D': fmtPct(brief.fund.change1dPct),
+    'Fund YTD': fmtPct(brief.fund.ytdPct),
+    'BTC': fmtUsd(brief.btc.priceUsd),
+    'BTC 1D': fmtPct(brief.btc.change1dPct),
+    'BTC YTD': fmtPct(brief.btcYtdPct),
+  };
+  for (const h of brief.topHoldings) {
+    figures[`${h.ticker} 1D`] = fmtPct(h.change1dPct);
+  }
+  return figures;
+}
+
+/** Figures that differ between two posts, in the order of `next` (removed ones last). */
+export function diffReportFigures(previous: ReportFigures, next: ReportFigures): FigureChange[] {
+  const changes: FigureChange[] = [];
+  for (const [label, value] of Object.entries(next)) {
+    if (previous[label] !== value) {
+      changes.push({ label, from: previous[label] ?? null, to: value });
+    }
+  }
+  for (const [label, value] of Object.entries(previous)) {
+    if (!(label in next)) {
+      changes.push({ label, from: value, to: null });
+    }
+  }
+  return changes;
+}
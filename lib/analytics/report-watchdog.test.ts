@@ -0,0 +1,66 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { dueReports, expectedPostTime, getReportWatchdogGraceMs, reportKey } from './report-watchdog';
+
+const GRACE = 30 * 60000;
+const keys = (now: string) => dueReports(new Date(now), GRACE).map((r) => reportKey(r.type, r.date));
+
+describe('expectedPostTime', () => {
+  test('morning at 9:00 AM CT on its date, EOD at 7:00 PM CT (after midnight UTC)', () => {
+    expect(expectedPostTime('morning', '2026-10-19').toISOString()).toBe('2026-10-19T14:00:00.000Z');
+    expect(expectedPostTime('eod', '2026-10-23').toISOString()).toBe('2026-10-24T00:00:00.000Z');
+  });
+
+  test('follows CT across the DST change', () => {
+    expect(expectedPostTime('morning', '2026-12-01').toISOString()).toBe('2026-12-01T15:00:00.000Z');
+    expect(expectedPostTime('eod', '2026-12-01').toISOString()).toBe('2026-12-02T01:00:00.000Z');
+  });
+
+  test('uses the given schedules', () => {
+    const schedules = {
+      morning: { time: '08:30', timeZone: 'America/New_York' },
+      eod: { time: '17:00', timeZone: 'America/New_York' },
+      weekly: { time: '17:30', timeZone: 'America/New_York' },
+      monthly: { time: '09:00', timeZone: 'America/New_York' },
+    };
+    expect(expectedPostTime('morning', '2026-10-19', schedules).toISOString()).toBe('2026-10-19T12:30:00.000Z');
+  });
+});
+
+describe('dueReports', () => {
+  test('nothing is due before the grace period passes', () => {
+    expect(keys('2026-10-19T14:20:00Z')).toEqual([]);
+  });
+
+  test('the morning report is due once the grace period has passed', () => {
+    expect(keys('2026-10-19T14:30:00Z')).toEqual(['morning:2026-10-19']);
+  });
+
+  test("Friday's EOD is due early Saturday UTC, still Friday evening in CT", () => {
+    expect(keys('2026-10-24T00:45:00Z')).toEqual(['eod:2026-10-23']);
+  });
+
+  test('weekends expect nothing', () => {
+    expect(keys('2026-10-24T15:45:00Z')).toEqual([]);
+    expect(keys('2026-10-26T00:45:00Z')).toEqual([]); // Sunday evening CT
+  });
+
+  test('NYSE holidays expect nothing', () => {
+    expect(keys('2026-11-26T15:45:00Z')).toEqual([]); // Thanksgiving
+  });
+
+  test('reports past the lookback window are dropped', () => {
+    expect(keys('2026-10-19T21:30:00Z')).toEqual([]);
+  });
+});
+
+describe('getReportWatchdogGraceMs', () => {
+  afterEach(() => {
+    delete process.env.REPORT_WATCHDOG_GRACE_MINUTES;
+  });
+
+  test('reads REPORT_WATCHDOG_GRACE_MINUTES, defaulting to 30 minutes', () => {
+    expect(getReportWatchdogGraceMs()).toBe(GRACE);
+    process.env.REPORT_WATCHDOG_GRACE_MINUTES = '45';
+    expect(getReportWatchdogGraceMs()).toBe(45 * 60000);
+  });
+});
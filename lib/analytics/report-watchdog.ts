@@ -0,0 +1,74 @@
+// Dead-man's switch for the daily reports: which expected posts are overdue.
+//
+// Each report cron records its post (lib/supabase/report-posts.ts). A report is
+// expected on every NYSE trading day (CT date) at its scheduled local time
+// (lib/utils/report-schedule.ts); once the grace period has passed with no
+// record, the watchdog pages. Reports more than WATCHDOG_LOOKBACK_MS overdue are
+// ignored, so a watchdog outage or a fresh deploy doesn't page for long-gone
+// days.
+
+import { addDaysIso, isoDateCT } from '../utils/dates';
+import { getMarketDay } from '../utils/market-calendar';
+import { getReportSchedules, scheduledTimeOn, type ReportSchedules } from '../utils/report-schedule';
+
+export type ReportType = 'morning' | 'eod';
+
+export const DEFAULT_REPORT_WATCHDOG_GRACE_MINUTES = 30;
+export const WATCHDOG_LOOKBACK_MS = 6 * 3600000;
+
+export const REPORT_LABELS: Record<ReportType, string> = {
+  morning: 'Morning Report',
+  eod: 'EOD Report',
+};
+
+export interface ExpectedReport {
+  type: ReportType;
+  date: string; // CT business date, YYYY-MM-DD
+  expectedAt: Date;
+}
+
+/** Minutes after the expected post time before paging (REPORT_WATCHDOG_GRACE_MINUTES), read lazily. */
+export function getReportWatchdogGraceMs(): number {
+  const n = Number(process.env.REPORT_WATCHDOG_GRACE_MINUTES);
+  const minutes = Number.isFinite(n) && n > 0 ? n : DEFAULT_REPORT_WATCHDOG_GRACE_MINUTES;
+  return minutes * 60000;
+}
+
+export function expectedPostTime(
+  type: ReportType,
+  date: string,
+  schedules: ReportSchedules = getReportSchedules()
+): Date {
+  return scheduledTimeOn(schedules[type], date);
+}
+
+/**
+ * Reports past their grace period and still inside the lookback window, for
+ * the CT business dates around `now`. The caller filters out what was posted
+ * or already paged.
+ */
+export function dueReports(
+  now: Date,
+  graceMs: number,
+  schedules: ReportSchedules = getReportSchedules()
+): ExpectedReport[] {
+  const today = isoDateCT(now);
+  const due: ExpectedReport[] = [];
+
+  for (const date of [addDaysIso(today, -1), today]) {
+    if (!getMarketDay('NYSE', date).open) continue;
+    for (const type of Object.keys(REPORT_LABELS) as ReportType[]) {
+      const expectedAt = expectedPostTime(type, date, schedules);
+      const overdueMs = now.getTime() - expectedAt.getTime();
+      if (overdueMs >= graceMs && overdueMs < WATCHDOG_LOOKBACK_MS) {
+        due.push({ type, date, expectedAt });
+      }
+    }
+  }
+
+  return due;
+}
+
+export function reportKey(type: ReportType, date: string): string {
+  return `${type}:${date}`;
+}
@@ -0,0 +1,16 @@
+// Return arithmetic over the stored daily series.
+//
+// Every percent in and out of here is ×100-scaled, the same units contract as
+// the terminal API (e.g. -4.2 = -4.2%), so results can go straight to fmtPct.
+
+/**
+ * Compound a run of daily percent returns into one period return.
+ * Null days (no stored figure) are skipped rather than treated as flat, and the
+ * result is null when there is nothing to compound — never a fabricated 0.
+ */
+export function compoundPct(dailyPcts: Array<number | null>): number | null {
+  const known = dailyPcts.filter((p): p is number => p != null);
+  if (known.length === 0) return null;
+  const growth = known.reduce((acc, p) => acc * (1 + p / 100), 1);
+  return (growth - 1) * 100;
+}
@@ -0,0 +1,27 @@
+import { test, expect, describe } from 'bun:test';
+import { sinceMorning } from './since-morning';
+
+const snapshot = { date: '2026-10-19', morning_aum: 100000000, morning_btc_price: 60000 };
+
+describe('sinceMorning', () => {
+  test('AUM and BTC change against the morning snapshot', () => {
+    expect(sinceMorning(snapshot, 101500000, 59400)).toEqual({
+      aum: { changeUsd: 1500000, changePct: 1.5 },
+      btc: { changeUsd: -600, changePct: -1 },
+    });
+  });
+
+  test('no snapshot, no line', () => {
+    expect(sinceMorning(null, 101500000, 59400)).toBeNull();
+  });
+
+  test('a side without a figure is null; with neither there is no line', () => {
+    expect(sinceMorning(snapshot, null, 59400)?.aum).toBeNull();
+    expect(sinceMorning(snapshot, null, null)).toBeNull();
+  });
+
+  test('reads DECIMAL columns returned as strings', () => {
+    const raw = { ...snapshot, morning_aum: '100000000.00', morning_btc_price: '60000.00' } as unknown as typeof snapshot;
+    expect(sinceMorning(raw, 101000000, 60000)?.aum).toEqual({ changeUsd: 1000000, changePct: 1 });
+  });
+});
@@ -0,0 +1,37 @@
+// Intraday change for the EOD report: the evening figures against the morning
+// snapshot (daily_snapshots), which the morning cron records as it posts.
+//
+// The snapshot is keyed by CT date, so a morning report that didn't run — a
+// failed cron, a late deploy — leaves nothing to compare against and the EOD
+// line is left out rather than measured against yesterday.
+
+import { calculate1DChange, type DailySnapshot } from '../supabase/client';
+
+export interface ValueChange {
+  changeUsd: number;
+  changePct: number; // ×100-scaled
+}
+
+export interface SinceMorning {
+  aum: ValueChange | null;
+  btc: ValueChange | null;
+}
+
+function change(current: number | null, morning: number): ValueChange | null {
+  if (current === null || !Number.isFinite(morning) || morning === 0) return null;
+  return { changeUsd: current - morning, changePct: calculate1DChange(current, morning) * 100 };
+}
+
+/** AUM and BTC change since the morning snapshot, or null without one. */
+export function sinceMorning(
+  snapshot: DailySnapshot | null,
+  aumUsd: number | null,
+  btcPriceUsd: number | null
+): SinceMorning | null {
+  if (!snapshot) return null;
+
+  // DECIMAL columns can come back as strings.
+  const aum = change(aumUsd, Number(snapshot.morning_aum));
+  const btc = change(btcPriceUsd, Number(snapshot.morning_btc_price));
+  return aum || btc ? { aum, btc } : null;
+}
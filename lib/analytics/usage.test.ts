@@ -0,0 +1,65 @@
+import { test, expect, describe } from 'bun:test';
+import { summarizeUsage } from './usage';
+import type { UsageEntry } from '../supabase/usage-ledger';
+import type { QaAuditActivity } from '../supabase/qa-audit';
+
+const entry = (userId: string, channel: string | null, costUsd: number): UsageEntry => ({
+  userId,
+  channel,
+  model: 'claude-sonnet',
+  inputTokens: 1000,
+  outputTokens: 100,
+  costUsd,
+  createdAt: '2026-10-15T15:00:00.000Z',
+});
+
+const act = (status: QaAuditActivity['status'], toolNames: string[] = [], errorType: string | null = null): QaAuditActivity => ({
+  userId: 'U1',
+  channel: 'C1',
+  status,
+  toolNames,
+  errorType,
+  createdAt: '2026-10-15T15:00:00.000Z',
+});
+
+describe('summarizeUsage', () => {
+  const report = summarizeUsage(
+    [entry('U1', 'C1', 0.02), entry('U2', 'C1', 0.05), entry('U1', null, 0.01)],
+    [
+      act('answered', ['get_positions', 'get_fund_summary']),
+      act('answered', ['get_positions']),
+      act('cached'),
+      act('error', [], 'timeout'),
+      act('error', [], 'timeout'),
+      act('error'),
+      act('rate_limited'),
+    ]
+  );
+
+  test('totals and per-user / per-channel spend, highest cost first', () => {
+    expect(report.totals).toMatchObject({ requests: 3, inputTokens: 3000, outputTokens: 300 });
+    expect(report.totals.costUsd).toBeCloseTo(0.08);
+    expect(report.byUser.map((u) => [u.userId, u.requests])).toEqual([['U2', 1], ['U1', 2]]);
+    expect(report.byChannel.map((c) => c.channel)).toEqual(['C1', 'unknown']);
+  });
+
+  test('cache hit rate is cached answers over all answers', () => {
+    expect(report.cache).toEqual({ hits: 1, answered: 3, hitRate: 1 / 3 });
+    expect(report.outcomes).toMatchObject({ answered: 2, cached: 1, error: 3, rate_limited: 1 });
+  });
+
+  test('tool calls by name and errors by type, most frequent first', () => {
+    expect(report.toolCalls).toEqual([
+      { name: 'get_positions', calls: 2 },
+      { name: 'get_fund_summary', calls: 1 },
+    ]);
+    expect(report.errors).toEqual([
+      { errorType: 'timeout', count: 2 },
+      { errorType: 'unknown', count: 1 },
+    ]);
+  });
+
+  test('no activity → null hit rate', () => {
+    expect(summarizeUsage([], []).cache.hitRate).toBeNull();
+  });
+});
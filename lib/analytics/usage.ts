@@ -0,0 +1,97 @@
+// Q&A usage summary for /api/admin/usage.
+//
+// Spend (requests, tokens, cost) comes from the usage ledger, which has one
+// settled row per Claude-answered question. Everything about outcomes — cache
+// hits, tool calls, errors — comes from the Q&A audit log, which also records
+// questions that never reached Claude.
+
+import type { UsageEntry } from '../supabase/usage-ledger';
+import type { QaAuditActivity, QaAuditStatus } from '../supabase/qa-audit';
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byUser: Array<{ userId: string } & UsageTotals>; // highest cost first
+  byChannel: Array<{ channel: string } & UsageTotals>;
+  outcomes: Record<QaAuditStatus, number>;
+  cache: {
+    hits: number;
+    answered: number;
+    hitRate: number | null; // share of answers served from cache; null if none
+  };
+  toolCalls: Array<{ name: string; calls: number }>; // most used first
+  errors: Array<{ errorType: string; count: number }>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): void {
+  totals.requests++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.costUsd += entry.costUsd;
+}
+
+function groupTotals<K extends string>(
+  entries: UsageEntry[],
+  keyName: K,
+  keyOf: (entry: UsageEntry) => string
+): Array<Record<K, string> & UsageTotals> {
+  const groups = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const totals = groups.get(key) ?? emptyTotals();
+    addEntry(totals, entry);
+    groups.set(key, totals);
+  }
+  return [...groups]
+    .map(([key, totals]) => ({ [keyName]: key, ...totals }) as Record<K, string> & UsageTotals)
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+function countBy(keys: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function summarizeUsage(entries: UsageEntry[], activity: QaAuditActivity[]): UsageReport {
+  const totals = emptyTotals();
+  entries.forEach((entry) => addEntry(totals, entry));
+
+  const outcomes: Record<QaAuditStatus, number> = {
+    answered: 0,
+    cached: 0,
+    rejected: 0,
+    rate_limited: 0,
+    over_budget: 0,
+    error: 0,
+  };
+  activity.forEach((a) => outcomes[a.status]++);
+
+  const served = outcomes.cached + outcomes.answered;
+
+  return {
+    totals,
+    byUser: groupTotals(entries, 'userId', (e) => e.userId),
+    byChannel: groupTotals(entries, 'channel', (e) => e.channel ?? 'unknown'),
+    outcomes,
+    cache: {
+      hits: outcomes.cached,
+      answered: served,
+      hitRate: served > 0 ? outcomes.cached / served : null,
+    },
+    toolCalls: countBy(activity.flatMap((a) => a.toolNames)).map(([name, calls]) => ({ name, calls })),
+    errors: countBy(
+      activity.filter((a) => a.status === 'error').map((a) => a.errorType ?? 'unknown')
+    ).map(([errorType, count]) => ({ errorType, count })),
+  };
+}
@@ -0,0 +1,116 @@
+import { test, expect, describe } from 'bun:test';
+import { summarizeWeek, computeWeeklyHoldingMovers, computeRegimeChanges } from './weekly';
+import type { EodBriefSnapshot } from '../supabase/history';
+import type { OnChainMetrics } from '../external/bitcoin-magazine-pro';
+
+const onChain = (fg: [number, string], nupl: [number, string]): OnChainMetrics => ({
+  fearGreed: { value: fg[0], classification: fg[1] },
+  mvrv: null,
+  nupl: { value: nupl[0], classification: nupl[1] },
+  fundingRate: null,
+  movingAverage1Y: null,
+  movingAverage200W: null,
+});
+
+const day = (date: string, over: Partial<EodBriefSnapshot> = {}): EodBriefSnapshot => ({
+  date,
+  asOf: `${date}T22:00:00.000Z`,
+  fundAsOfDate: date,
+  aumUsd: 100000000,
+  fund1dPct: 0,
+  fundYtdPct: null,
+  btcPriceUsd: 64000,
+  btc1dPct: 0,
+  btcYtdPct: null,
+  holdings: [],
+  onChain: null,
+  ...over,
+});
+
+const week: EodBriefSnapshot[] = [
+  day('2026-06-15', {
+    aumUsd: 95000000, fund1dPct: 1, btc1dPct: 2,
+    holdings: [
+      { name: 'Astra', ticker: 'ASTR', weightPercent: 28, change1dPct: 10 },
+      { name: 'Dead Co', ticker: 'DV8', weightPercent: 5, change1dPct: null },
+    ],
+    onChain: onChain([48, 'Neutral'], [55, 'Belief']),
+  }),
+  day('2026-06-17', {
+    fund1dPct: -3, btc1dPct: -1,
+    holdings: [
+      { name: 'Astra', ticker: 'ASTR', weightPercent: 30, change1dPct: 10 },
+      { name: 'Smarter Web', ticker: 'SWC', weightPercent: 15, change1dPct: -4 },
+    ],
+  }),
+  day('2026-06-16', {
+    fund1dPct: 2, btc1dPct: 0,
+    holdings: [{ name: 'Moon Inc', ticker: '1723', weightPercent: 15, change1dPct: 1 }],
+  }),
+  day('2026-06-19', {
+    aumUsd: 97000000, btcPriceUsd: 66000, fund1dPct: null, btc1dPct: 1,
+    onChain: onChain([62, 'Greed'], [58, 'Belief']),
+  }),
+];
+
+describe('summarizeWeek', () => {
+  const s = summarizeWeek('2026-06-15', week);
+
+  test('compounds the stored daily returns (skipping null days) into WTD + alpha', () => {
+    // Fund: 1.01 × 1.02 × 0.97 − 1 = −0.0706%
+    expect(s.fundWtdPct).toBeCloseTo(-0.0706, 4);
+    // BTC: 1.02 × 1.00 × 0.99 × 1.01 − 1 = +1.9898%
+    expect(s.btcWtdPct).toBeCloseTo(1.9898, 4);
+    expect(s.alphaPct).toBeCloseTo(-0.0706 - 1.9898, 4);
+  });
+
+  test('orders days by date regardless of input order', () => {
+    expect(s.aumStartUsd).toBe(95000000);
+    expect(s.aumEndUsd).toBe(97000000);
+    expect(s.weekEnd).toBe('2026-06-19');
+    expect(s.daysStored).toBe(4);
+  });
+
+  test('best and worst day come from days with a fund return', () => {
+    expect(s.bestDay).toEqual({ date: '2026-06-16', fund1dPct: 2 });
+    expect(s.worstDay).toEqual({ date: '2026-06-17', fund1dPct: -3 });
+  });
+
+  test('a single stored day has a best day but no worst day', () => {
+    const one = summarizeWeek('2026-06-15', week.slice(0, 1));
+    expect(one.bestDay?.date).toBe('2026-06-15');
+    expect(one.worstDay).toBeNull();
+  });
+});
+
+describe('computeWeeklyHoldingMovers', () => {
+  test('compounds per ticker, ranks by absolute move and drops all-null holdings', () => {
+    const movers = computeWeeklyHoldingMovers(week);
+    expect(movers.map((m) => m.ticker)).toEqual(['ASTR', 'SWC', '1723']);
+    expect(movers[0].wtdPct).toBeCloseTo(21, 6);
+    expect(movers[0].weightPercent).toBe(30); // latest weight wins
+    expect(movers[0].daysCovered).toBe(2);
+  });
+
+  test('respects the limit', () => {
+    expect(computeWeeklyHoldingMovers(week, 1)).toHaveLength(1);
+  });
+});
+
+describe('computeRegimeChanges', () => {
+  test('compares first vs last stored on-chain reading', () => {
+    const changes = computeRegimeChanges(week);
+    const fg = changes.find((c) => c.label === 'Fear & Greed')!;
+    expect(fg).toEqual({
+      label: 'Fear & Greed',
+      from: { regime: 'Neutral', value: 48 },
+      to: { regime: 'Greed', value: 62 },
+      changed: true,
+    });
+    expect(changes.find((c) => c.label === 'NUPL')!.changed).toBe(false);
+  });
+
+  test('no stored on-chain data → no section', () => {
+    expect(computeRegimeChanges(week.map((d) => ({ ...d, onChain: null })))).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+// Week-to-date summary built from the stored EOD snapshots.
+//
+// Each stored day carries the terminal's fund/BTC 1-day return, so Monday's
+// row already covers Friday close → Monday close and compounding Mon..Fri gives
+// the full close-to-close week. Days missing from storage are simply absent
+// from the compounding (the report says how many days it used).
+
+import type { EodBriefSnapshot } from '../supabase/history';
+import { getOnChainRegimes, type OnChainRegime } from '../external/bitcoin-magazine-pro';
+import { compoundPct } from './returns';
+
+// How many holdings to list in the weekly movers section.
+export const WEEKLY_MOVERS_LIMIT = 5;
+
+export interface WeeklyDay {
+  date: string;
+  fund1dPct: number;
+}
+
+export interface WeeklyHoldingMove {
+  name: string;
+  ticker: string;
+  weightPercent: number | null; // latest stored weight
+  wtdPct: number;
+  daysCovered: number;
+}
+
+export interface WeeklyRegimeChange {
+  label: string;
+  from: Pick<OnChainRegime, 'regime' | 'value'> | null;
+  to: Pick<OnChainRegime, 'regime' | 'value'> | null;
+  changed: boolean;
+}
+
+export interface WeeklySummary {
+  weekStart: string; // Monday, YYYY-MM-DD
+  weekEnd: string; // last stored day, YYYY-MM-DD
+  daysStored: number;
+  aumStartUsd: number | null; // first stored close of the week
+  aumEndUsd: number | null; // last stored close of the week
+  btcPriceEndUsd: number | null;
+  fundWtdPct: number | null;
+  btcWtdPct: number | null;
+  alphaPct: number | null;
+  bestDay: WeeklyDay | null;
+  worstDay: WeeklyDay | null;
+  holdingMovers: WeeklyHoldingMove[];
+  regimeChanges: WeeklyRegimeChange[];
+}
+
+/**
+ * Compound each holding's stored 1-day moves across the week and rank by the
+ * size of the move. A holding only in part of the week (entered/left the top-N)
+ * is compounded over the days it was present; null (stale-feed) days are skipped.
+ */
+export function computeWeeklyHoldingMovers(
+  days: EodBriefSnapshot[],
+  limit: number = WEEKLY_MOVERS_LIMIT
+): WeeklyHoldingMove[] {
+  const byTicker = new Map<string, { name: string; weightPercent: number | null; moves: Array<number | null> }>();
+
+  for (const day of days) {
+    for (const h of day.holdings) {
+      const entry = byTicker.get(h.ticker) ?? { name: h.name, weightPercent: null, moves: [] };
+      entry.name = h.name;
+      entry.weightPercent = h.weightPercent;
+      entry.moves.push(h.change1dPct);
+      byTicker.set(h.ticker, entry);
+    }
+  }
+
+  const moves: WeeklyHoldingMove[] = [];
+  for (const [ticker, entry] of byTicker) {
+    const wtdPct = compoundPct(entry.moves);
+    if (wtdPct == null) continue;
+    moves.push({
+      name: entry.name,
+      ticker,
+      weightPercent: entry.weightPercent,
+      wtdPct,
+      daysCovered: entry.moves.filter((m) => m != null).length,
+    });
+  }
+
+  return moves.sort((a, b) => Math.abs(b.wtdPct) - Math.abs(a.wtdPct)).slice(0, limit);
+}
+
+/**
+ * Compare each on-chain regime on the first stored day that has on-chain data
+ * against the last one. A metric present on only one side is reported with the
+ * other side null.
+ */
+export function computeRegimeChanges(days: EodBriefSnapshot[]): WeeklyRegimeChange[] {
+  const withOnChain = days.filter((d) => d.onChain);
+  if (withOnChain.length === 0) return [];
+
+  const first = getOnChainRegimes(withOnChain[0].onChain!);
+  const last = getOnChainRegimes(withOnChain[withOnChain.length - 1].onChain!);
+
+  const labels = [...new Set([...first, ...last].map((r) => r.label))];
+  return labels.map((label) => {
+    const a = first.find((r) => r.label === label) ?? null;
+    const b = last.find((r) => r.label === label) ?? null;
+    return {
+      label,
+      from: a && { regime: a.regime, value: a.value },
+      to: b && { regime: b.regime, value: b.value },
+      changed: (a?.regime ?? null) !== (b?.regime ?? null),
+    };
+  });
+}
+
+export function summarizeWeek(weekStart: string, days: EodBriefSnapshot[]): WeeklySummary {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+
+  const fundWtdPct = compoundPct(sorted.map((d) => d.fund1dPct));
+  const btcWtdPct = compoundPct(sorted.map((d) => d.btc1dPct));
+
+  const ranked = sorted
+    .filter((d): d is EodBriefSnapshot & { fund1dPct: number } => d.fund1dPct != null)
+    .map((d) => ({ date: d.date, fund1dPct: d.fund1dPct }))
+    .sort((a, b) => b.fund1dPct - a.fund1dPct);
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return {
+    weekStart,
+    weekEnd: last?.date ?? weekStart,
+    daysStored: sorted.length,
+    aumStartUsd: first?.aumUsd ?? null,
+    aumEndUsd: last?.aumUsd ?? null,
+    btcPriceEndUsd: last?.btcPriceUsd ?? null,
+    fundWtdPct,
+    btcWtdPct,
+    alphaPct: fundWtdPct != null && btcWtdPct != null ? fundWtdPct - btcWtdPct : null,
+    bestDay: ranked[0] ?? null,
+    // Only call out a worst day when there is more than one day to compare.
+    worstDay: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    holdingMovers: computeWeeklyHoldingMovers(sorted),
+    regimeChanges: computeRegimeChanges(sorted),
+  };
+}
@@ -97,10 +97,24 @@ function getUserFriendlyError(error: any): string {
   return `I encountered an error: ${error.message || 'Unknown error'}. Please try again or rephrase your question.`;
 }
 
+export interface ToolCallRecord {
+  name: string;
+  input: unknown;
+  content: string;
+  isError: boolean;
+}
+
+// What a tool loop has done so far, reported after every turn so a caller can
+// still account for it (audit, usage) if a later turn throws or times out.
+export type ToolLoopProgress = Pick<SendMessageResult, 'inputTokens' | 'outputTokens'> & {
+  toolCalls: ToolCallRecord[];
+};
+
 export interface SendMessageResult {
   response: string;
   inputTokens: number;
   outputTokens: number;
+  toolCalls?: ToolCallRecord[]; // sendMessageWithTools only, in call order
 }
 
 export async function sendMessage(
@@ -212,12 +226,14 @@ async function createWithRetry(
  * handler. Tokens are summed across every turn for accurate budget tracking.
  *
  * `deps` is injectable so tests can mock the terminal client (no live network).
+ * `onProgress` receives the tool calls and summed usage after every turn.
  */
 export async function sendMessageWithTools(
   systemPrompt: string,
   userMessage: string,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
-  deps?: ToolDeps
+  deps?: ToolDeps,
+  onProgress?: (progress: ToolLoopProgress) => void
 ): Promise<SendMessageResult> {
   const client = getClaudeClient();
 
@@ -229,6 +245,7 @@ export async function sendMessageWithTools(
   let inputTokens = 0;
   let outputTokens = 0;
   let lastResponseText = '';
+  const toolCalls: ToolCallRecord[] = [];
 
   // Loop bound: each iteration is one model turn. We allow up to
   // MAX_TOOL_ITERATIONS tool-using turns plus one final answer turn.
@@ -252,6 +269,7 @@ export async function sendMessageWithTools(
 
     inputTokens += response.usage.input_tokens || 0;
     outputTokens += response.usage.output_tokens || 0;
+    onProgress?.({ toolCalls: [...toolCalls], inputTokens, outputTokens });
 
     const textContent = response.content.find((b) => b.type === 'text');
     if (textContent && 'text' in textContent && textContent.text) {
@@ -265,6 +283,7 @@ export async function sendMessageWithTools(
         response: lastResponseText || 'Sorry, I could not generate a response.',
         inputTokens,
         outputTokens,
+        toolCalls,
       };
     }
 
@@ -278,8 +297,10 @@ export async function sendMessageWithTools(
       if (block.type !== 'tool_use') continue;
       console.log(`[Claude] dispatching tool: ${block.name}`);
       const result = await dispatchTool(block.name, block.input, deps);
+      toolCalls.push({ name: block.name, input: block.input, ...result });
       toolResults.push(toToolResult(block.id, result));
     }
+    onProgress?.({ toolCalls: [...toolCalls], inputTokens, outputTokens });
 
     messages.push({ role: 'user', content: toolResults });
   }
@@ -293,6 +314,7 @@ export async function sendMessageWithTools(
       "I gathered some data but couldn't finish composing an answer. Please try rephrasing your question.",
     inputTokens,
     outputTokens,
+    toolCalls,
   };
 }
 
@@ -0,0 +1,77 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+
+// memory.ts reaches config.ts through the Slack client; set the required vars
+// before importing it. No Supabase credentials → the in-process store is used.
+beforeAll(() => {
+  process.env.SLACK_BOT_TOKEN ||= 'x';
+  process.env.SLACK_SIGNING_SECRET ||= 'x';
+  process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL ||= 'x@x';
+  process.env.GOOGLE_PRIVATE_KEY ||= 'x';
+  process.env.ANTHROPIC_API_KEY ||= 'test-key';
+  process.env.PORTFOLIO_SHEET_ID ||= 'x';
+  process.env.BTCTC_SHEET_ID ||= 'x';
+  process.env.DAILY_REPORTS_CHANNEL_ID ||= 'x';
+  process.env.ASK_FUNDBOT_CHANNEL_ID ||= 'x';
+  process.env.TERMINAL_API_URL ||= 'https://terminal.example.test';
+  process.env.BRIEF_API_KEY ||= 'x';
+  delete process.env.SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+});
+
+let memory: typeof import('./memory');
+beforeAll(async () => {
+  memory = await import('./memory');
+});
+
+describe('thread memory', () => {
+  test('round-trips messages and keeps tool data with the answer', async () => {
+    await memory.addMessageToThread('t-1', 'user', 'What is AUM?', { channel: 'C1' });
+    await memory.addMessageToThread('t-1', 'assistant', 'AUM is $100M.', {
+      channel: 'C1',
+      toolContext: 'get_fund_summary():\nAUM $100,000,000',
+    });
+
+    const messages = await memory.getThreadMessages('t-1');
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toEqual({ role: 'user', content: 'What is AUM?' });
+    expect(messages[1].content).toContain('AUM is $100M.');
+    expect(messages[1].content).toContain('get_fund_summary():\nAUM $100,000,000');
+
+    const stats = await memory.getThreadStats('t-1');
+    expect(stats).toMatchObject({ messageCount: 2, hasSummary: false });
+  });
+
+  test('trims long threads to the most recent messages behind a summary', async () => {
+    for (let i = 0; i < 12; i++) {
+      await memory.addMessageToThread('t-2', i % 2 === 0 ? 'user' : 'assistant', `BTC question ${i}`);
+    }
+    const messages = await memory.getThreadMessages('t-2');
+    // Summary exchange + the last 10 messages.
+    expect(messages).toHaveLength(12);
+    expect(messages[1].content).toContain('Previous conversation topics: BTC');
+    expect(messages[messages.length - 1].content).toBe('BTC question 11');
+  });
+
+  test('clearThread forgets the thread', async () => {
+    await memory.addMessageToThread('t-3', 'user', 'hi');
+    await memory.clearThread('t-3');
+    expect(await memory.getThreadContext('t-3')).toBeNull();
+  });
+});
+
+describe('summarizeToolCalls', () => {
+  test('drops failed calls, includes inputs and caps long results', () => {
+    const text = memory.summarizeToolCalls([
+      { name: 'get_fund_history', input: { days: 30 }, content: 'x'.repeat(5000), isError: false },
+      { name: 'get_positions', input: {}, content: 'temporarily unavailable', isError: true },
+    ])!;
+    expect(text.startsWith('get_fund_history({"days":30}):\n')).toBe(true);
+    expect(text).not.toContain('get_positions');
+    expect(text.length).toBeLessThan(1300);
+  });
+
+  test('no successful calls → undefined', () => {
+    expect(memory.summarizeToolCalls(undefined)).toBeUndefined();
+    expect(memory.summarizeToolCalls([])).toBeUndefined();
+  });
+});
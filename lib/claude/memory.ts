@@ -1,26 +1,114 @@
 // Enhanced thread memory management for conversational context
-// Uses in-memory cache with Slack thread history fallback for persistence
+// Persists to Supabase (thread_memory) so follow-ups work across instances and
+// deploys; an in-process Map backs it up when Supabase is unconfigured or down,
+// and Slack thread history is the last resort for threads with no stored row.
 
 import { ThreadContext, ThreadMessage } from '../../types';
 import { getThreadHistory } from '../slack/client';
+import { getSupabaseClient, isSupabaseConfigured } from '../supabase/client';
+import type { ToolCallRecord } from './client';
 
 const MAX_MESSAGES_PER_THREAD = 10;
 const THREAD_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 const SUMMARY_THRESHOLD = 8; // Create summary after this many messages
 
-// In-memory storage (resets on cold start, which is acceptable)
+// Tool data kept with each answer, so a follow-up ("and vs last week?") sees
+// the numbers the previous answer was built from, not just its prose.
+const MAX_TOOL_RESULT_CHARS = 1200;
+const MAX_TOOL_CONTEXT_CHARS = 3000;
+
+const TABLE = 'thread_memory';
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string };
+
+interface ThreadMemoryRow {
+  thread_ts: string;
+  channel: string | null;
+  messages: ThreadMessage[];
+  summary: string | null;
+  last_updated: string;
+  expires_at: string;
+}
+
+// Per-instance copy of every thread this instance wrote or read. Serves reads
+// when Supabase is unavailable; resets on cold start.
 const threadMemory = new Map<string, ThreadContext>();
 
-export function getThreadContext(threadTs: string): ThreadContext | null {
-  const context = threadMemory.get(threadTs);
+function isExpired(context: ThreadContext, now = Date.now()): boolean {
+  return now - context.lastUpdated > THREAD_TTL_MS;
+}
+
+function fromRow(row: ThreadMemoryRow): ThreadContext {
+  return {
+    threadTs: row.thread_ts,
+    ...(row.channel ? { channel: row.channel } : {}),
+    messages: Array.isArray(row.messages) ? row.messages : [],
+    lastUpdated: new Date(row.last_updated).getTime(),
+    ...(row.summary ? { summary: row.summary } : {}),
+  };
+}
+
+function toRow(context: ThreadContext): ThreadMemoryRow {
+  return {
+    thread_ts: context.threadTs,
+    channel: context.channel ?? null,
+    messages: context.messages,
+    summary: context.summary ?? null,
+    last_updated: new Date(context.lastUpdated).toISOString(),
+    expires_at: new Date(context.lastUpdated + THREAD_TTL_MS).toISOString(),
+  };
+}
+
+async function loadContext(threadTs: string): Promise<ThreadContext | null> {
+  if (isSupabaseConfigured()) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from(TABLE)
+        .select('thread_ts, channel, messages, summary, last_updated, expires_at')
+        .eq('thread_ts', threadTs)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        const context = fromRow(data as ThreadMemoryRow);
+        threadMemory.set(threadTs, context);
+        return context;
+      }
+    } catch (error) {
+      console.warn('[Memory] Supabase read failed, using in-process memory:', error);
+    }
+  }
+
+  return threadMemory.get(threadTs) ?? null;
+}
+
+async function saveContext(context: ThreadContext): Promise<void> {
+  threadMemory.set(context.threadTs, context);
+
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const { error } = await getSupabaseClient()
+      .from(TABLE)
+      .upsert(toRow(context), { onConflict: 'thread_ts' });
+    if (error) throw error;
+  } catch (error) {
+    // The answer was already computed — losing durability beats failing the reply.
+    console.warn(`[Memory] Supabase write failed for thread ${context.threadTs}:`, error);
+  }
+}
+
+export async function getThreadContext(threadTs: string): Promise<ThreadContext | null> {
+  const context = await loadContext(threadTs);
 
   if (!context) {
     return null;
   }
 
   // Check if thread has expired
-  const now = Date.now();
-  if (now - context.lastUpdated > THREAD_TTL_MS) {
+  if (isExpired(context)) {
     threadMemory.delete(threadTs);
     return null;
   }
@@ -42,7 +130,7 @@ function createConversationSummary(messages: ThreadMessage[]): string {
     .map((m) => m.content);
 
   const topics = new Set<string>();
-  
+
   // Simple keyword extraction for common fund-related topics
   const keywords = [
     'AUM', 'performance', 'position', 'BTC', 'bitcoin', 'holdings',
@@ -66,54 +154,93 @@ function createConversationSummary(messages: ThreadMessage[]): string {
   return `Previous conversation topics: ${Array.from(topics).join(', ')} (${messages.length} messages)`;
 }
 
-export function addMessageToThread(
-  threadTs: string,
-  role: 'user' | 'assistant',
-  content: string
-): void {
-  let context = threadMemory.get(threadTs);
+/**
+ * Compact, size-capped record of the tool calls behind an answer, for storing
+ * with the assistant message. Failed calls are dropped. Undefined if none.
+ */
+export function summarizeToolCalls(toolCalls: ToolCallRecord[] | undefined): string | undefined {
+  const parts = (toolCalls ?? [])
+    .filter((call) => !call.isError)
+    .map((call) => {
+      const input = call.input && Object.keys(call.input as object).length > 0
+        ? JSON.stringify(call.input)
+        : '';
+      const content = call.content.length > MAX_TOOL_RESULT_CHARS
+        ? `${call.content.slice(0, MAX_TOOL_RESULT_CHARS)}…`
+        : call.content;
+      return `${call.name}(${input}):\n${content}`;
+    });
 
-  if (!context) {
-    context = {
-      threadTs,
-      messages: [],
-      lastUpdated: Date.now(),
-    };
+  if (parts.length === 0) {
+    return undefined;
   }
 
-  context.messages.push({
-    role,
-    content,
-    timestamp: Date.now(),
-  });
+  const joined = parts.join('\n\n');
+  return joined.length > MAX_TOOL_CONTEXT_CHARS ? `${joined.slice(0, MAX_TOOL_CONTEXT_CHARS)}…` : joined;
+}
+
+function appendMessage(context: ThreadContext, message: ThreadMessage): void {
+  context.messages.push(message);
 
   // If we have many messages, create a summary and keep recent ones
   if (context.messages.length > MAX_MESSAGES_PER_THREAD) {
     // Keep the most recent messages
     const recentMessages = context.messages.slice(-MAX_MESSAGES_PER_THREAD);
-    
+
     // Create summary of older messages if we haven't already
     if (!context.summary && context.messages.length > SUMMARY_THRESHOLD) {
       const olderMessages = context.messages.slice(0, -MAX_MESSAGES_PER_THREAD);
       context.summary = createConversationSummary(olderMessages);
-      console.log(`[Memory] Created summary for thread ${threadTs}: ${context.summary}`);
+      console.log(`[Memory] Created summary for thread ${context.threadTs}: ${context.summary}`);
     }
-    
+
     context.messages = recentMessages;
   }
 
   context.lastUpdated = Date.now();
-  threadMemory.set(threadTs, context);
 }
 
-export function getThreadMessages(threadTs: string): Array<{ role: 'user' | 'assistant'; content: string }> {
-  const context = getThreadContext(threadTs);
+export async function addMessageToThread(
+  threadTs: string,
+  role: 'user' | 'assistant',
+  content: string,
+  options: { channel?: string; toolContext?: string } = {}
+): Promise<void> {
+  const context: ThreadContext = (await getThreadContext(threadTs)) ?? {
+    threadTs,
+    messages: [],
+    lastUpdated: Date.now(),
+  };
+
+  if (options.channel) {
+    context.channel = options.channel;
+  }
+
+  appendMessage(context, {
+    role,
+    content,
+    timestamp: Date.now(),
+    ...(role === 'assistant' && options.toolContext ? { toolContext: options.toolContext } : {}),
+  });
+
+  await saveContext(context);
+}
+
+function toHistoryMessage({ role, content, toolContext }: ThreadMessage): HistoryMessage {
+  if (!toolContext) {
+    return { role, content };
+  }
+  return { role, content: `${content}\n\n[Data behind this answer — ${toolContext}]` };
+}
+
+export async function getThreadMessages(threadTs: string): Promise<HistoryMessage[]> {
+  const context = await getThreadContext(threadTs);
 
   if (!context) {
     return [];
   }
 
-  const messages = context.messages.map(({ role, content }) => ({ role, content }));
+  const messages = context.messages.map(toHistoryMessage);
 
   // Prepend summary as a system-like context if it exists
   if (context.summary && messages.length > 0) {
@@ -132,23 +259,22 @@ export function getThreadMessages(threadTs: string): Array<{ role: 'user' | 'ass
 }
 
 /**
- * Get thread messages with Slack fallback for cold start recovery
- * This provides persistent conversation history across serverless invocations
+ * Get thread messages, falling back to the Slack thread itself for threads with
+ * no stored context (started before thread_memory existed, or written while
+ * Supabase was down). The Slack copy has the answers' text only, not their tool data.
  */
 export async function getThreadMessagesWithFallback(
   threadTs: string,
   channel: string
-): Promise<Array<{ role: 'user' | 'assistant'; content: string }>> {
-  // First, try in-memory cache
-  const cachedMessages = getThreadMessages(threadTs);
+): Promise<HistoryMessage[]> {
+  const storedMessages = await getThreadMessages(threadTs);
 
-  if (cachedMessages.length > 0) {
-    console.log(`[Memory] Using ${cachedMessages.length} cached messages`);
-    return cachedMessages;
+  if (storedMessages.length > 0) {
+    console.log(`[Memory] Using ${storedMessages.length} stored messages`);
+    return storedMessages;
   }
 
-  // If cache is empty, try to recover from Slack thread history
-  console.log('[Memory] Cache empty, fetching from Slack thread history...');
+  console.log('[Memory] No stored context, fetching from Slack thread history...');
 
   try {
     const slackHistory = await getThreadHistory(channel, threadTs, MAX_MESSAGES_PER_THREAD);
@@ -156,10 +282,12 @@ export async function getThreadMessagesWithFallback(
     if (slackHistory.length > 0) {
       console.log(`[Memory] Recovered ${slackHistory.length} messages from Slack`);
 
-      // Rebuild the in-memory cache from Slack history
+      // Store the recovered thread in one write so the next follow-up skips Slack
+      const context: ThreadContext = { threadTs, channel, messages: [], lastUpdated: Date.now() };
       for (const msg of slackHistory) {
-        addMessageToThread(threadTs, msg.role, msg.content);
+        appendMessage(context, { role: msg.role, content: msg.content, timestamp: Date.now() });
       }
+      await saveContext(context);
 
       // Return the recovered messages
       return slackHistory.map(({ role, content }) => ({ role, content }));
@@ -174,13 +302,13 @@ export async function getThreadMessagesWithFallback(
 /**
  * Get thread statistics
  */
-export function getThreadStats(threadTs: string): {
+export async function getThreadStats(threadTs: string): Promise<{
   messageCount: number;
   hasSummary: boolean;
   ageMinutes: number;
-} | null {
-  const context = getThreadContext(threadTs);
-  
+} | null> {
+  const context = await getThreadContext(threadTs);
+
   if (!context) {
     return null;
   }
@@ -198,30 +326,58 @@ export function getThreadStats(threadTs: string): {
 /**
  * Clear a specific thread
  */
-export function clearThread(threadTs: string): void {
+export async function clearThread(threadTs: string): Promise<void> {
   threadMemory.delete(threadTs);
+
+  if (isSupabaseConfigured()) {
+    const { error } = await getSupabaseClient().from(TABLE).delete().eq('thread_ts', threadTs);
+    if (error) {
+      console.error(`[Memory] Error clearing thread ${threadTs}:`, error);
+      throw error;
+    }
+  }
+
   console.log(`[Memory] Cleared thread ${threadTs}`);
 }
 
-export function clearExpiredThreads(): void {
+/**
+ * TTL cleanup: drop expired threads from this instance and from Supabase.
+ * Expired rows are already ignored on read, so this only reclaims space; run by
+ * the weekly maintenance cron. Returns how many stored rows were deleted.
+ */
+export async function clearExpiredThreads(): Promise<number> {
   const now = Date.now();
-  const threadsToDelete: string[] = [];
 
   for (const [threadTs, context] of threadMemory.entries()) {
-    if (now - context.lastUpdated > THREAD_TTL_MS) {
-      threadsToDelete.push(threadTs);
+    if (isExpired(context, now)) {
+      threadMemory.delete(threadTs);
     }
   }
 
-  threadsToDelete.forEach((threadTs) => threadMemory.delete(threadTs));
+  if (!isSupabaseConfigured()) {
+    return 0;
+  }
+
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .delete()
+    .lt('expires_at', new Date(now).toISOString())
+    .select('thread_ts');
 
-  if (threadsToDelete.length > 0) {
-    console.log(`[Memory] Cleared ${threadsToDelete.length} expired thread(s)`);
+  if (error) {
+    console.error('[Memory] Error clearing expired threads:', error);
+    throw error;
   }
+
+  const deleted = data?.length ?? 0;
+  if (deleted > 0) {
+    console.log(`[Memory] Cleared ${deleted} expired thread(s)`);
+  }
+  return deleted;
 }
 
 /**
- * Get memory statistics
+ * Get memory statistics for this instance's in-process copy
  */
 export function getMemoryStats(): {
   totalThreads: number;
@@ -229,7 +385,9 @@ export function getMemoryStats(): {
   threadsWithSummaries: number;
 } {
   let totalMessages = 0;
-  let threadsWithSummaries = 0;  for (const context of threadMemory.values()) {
+  let threadsWithSummaries = 0;
+
+  for (const context of threadMemory.values()) {
     totalMessages += context.messages.length;
     if (context.summary) {
       threadsWithSummaries++;
@@ -241,5 +399,4 @@ export function getMemoryStats(): {
     totalMessages,
     threadsWithSummaries,
   };
-}// Auto-cleanup every hour
-setInterval(clearExpiredThreads, 60 * 60 * 1000);
+}
@@ -80,6 +80,9 @@ describe('buildSystemPrompt', () => {
     expect(p).toContain('get_btctc_company');
     expect(p).toContain('get_btctc_movers');
     expect(p).toContain('get_onchain_metrics');
+    expect(p).toContain('get_fund_history');
+    expect(p).toContain('get_performance_stats');
+    expect(p).toContain('get_drawdown');
   });
 
   test('buildQuickSystemPrompt matches the full builder', () => {
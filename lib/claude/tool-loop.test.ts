@@ -95,6 +95,9 @@ describe('sendMessageWithTools — tool loop', () => {
     // Summed across both turns: input 20+10, output 8+5.
     expect(r.inputTokens).toBe(30);
     expect(r.outputTokens).toBe(13);
+    // The call is recorded so thread memory can keep the data behind the answer.
+    expect(r.toolCalls).toHaveLength(1);
+    expect(r.toolCalls![0]).toMatchObject({ name: 'get_fund_summary', isError: false });
 
     // Second call carries the assistant tool_use turn + a user tool_result turn.
     const secondMsgs = createCalls[1].messages;
@@ -145,4 +148,25 @@ describe('sendMessageWithTools — tool loop', () => {
     // ...but the raw upstream error must not leak through the tool_result.
     expect(toolResultTurn.content[0].content).not.toContain('terminal down');
   });
+
+  test('reports tool calls and usage as it goes, so a later failure still has them', async () => {
+    scriptedResponses.length = 0;
+    createCalls = [];
+    // The second messages.create finds no scripted response and rejects.
+    scriptedResponses.push(toolUseResp('get_fund_summary'));
+
+    let progress: { toolCalls: unknown[]; inputTokens: number; outputTokens: number } | null = null;
+    await expect(
+      sendMessageWithTools('sys', 'mtd?', [], okDeps, (p) => {
+        progress = p;
+      })
+    ).rejects.toThrow();
+
+    expect(createCalls.length).toBe(2);
+    expect(progress).toMatchObject({
+      toolCalls: [{ name: 'get_fund_summary', isError: false }],
+      inputTokens: 20,
+      outputTokens: 8,
+    });
+  });
 });
@@ -4,13 +4,14 @@ import {
   MAX_TOOL_ITERATIONS,
   dispatchTool,
   toToolResult,
-  computeBtctcMovers,
+  readHistoryRange,
   type ToolDeps,
 } from './tools';
 import type { FundSummary } from '../terminal/summary';
 import type { Positions, PositionByTicker } from '../terminal/positions';
 import type { Btctc, BtctcCompany, BtctcCompanyResult } from '../terminal/btctc';
 import type { OnChain } from '../terminal/on-chain';
+import type { EodBriefSnapshot, EodValuePoint } from '../supabase/history';
 
 const summary: FundSummary = {
   asOf: '2026-06-22T20:00:00.000Z',
@@ -89,6 +90,19 @@ const onChain: OnChain = {
   },
 };
 
+const history: EodBriefSnapshot[] = [
+  {
+    date: '2026-06-18', asOf: '2026-06-18T22:00:00.000Z', fundAsOfDate: '2026-06-18',
+    aumUsd: 95000000, fund1dPct: 2, fundYtdPct: -15, btcPriceUsd: 65000, btc1dPct: 1,
+    btcYtdPct: 138, holdings: [], onChain: null,
+  },
+  {
+    date: '2026-06-19', asOf: '2026-06-19T22:00:00.000Z', fundAsOfDate: '2026-06-19',
+    aumUsd: 96900000, fund1dPct: 2, fundYtdPct: -13.3, btcPriceUsd: 64350, btc1dPct: -1,
+    btcYtdPct: 136, holdings: [], onChain: null,
+  },
+];
+
 const okDeps: ToolDeps = {
   getFundSummary: async () => summary,
   fetchPositions: async () => positions,
@@ -96,17 +110,28 @@ const okDeps: ToolDeps = {
   fetchBtctc: async () => btctc,
   fetchBtctcCompany: async () => btctcCompanies[0],
   fetchOnChain: async () => onChain,
+  getEodBriefHistory: async () => history,
+  getEodValueHistory: async (): Promise<EodValuePoint[]> => [
+    { date: '2026-06-17', aumUsd: 100000000, btcPriceUsd: 70000 },
+    { date: '2026-06-18', aumUsd: 95000000, btcPriceUsd: 65000 },
+    { date: '2026-06-19', aumUsd: 96900000, btcPriceUsd: 64350 },
+  ],
 };
 
 describe('TOOLS definitions', () => {
   test('exposes the full v2 tool set (the two summary tools + the 5 now-live tools)', () => {
     const names = TOOLS.map((t) => t.name).sort();
     expect(names).toEqual([
+      'create_alert',
       'get_btctc_company',
       'get_btctc_movers',
+      'get_drawdown',
+      'get_feed_health',
+      'get_fund_history',
       'get_fund_summary',
       'get_holdings',
       'get_onchain_metrics',
+      'get_performance_stats',
       'get_position_by_ticker',
       'get_top_holdings',
     ]);
@@ -350,22 +375,160 @@ describe('dispatchTool', () => {
   });
 });
 
-describe('computeBtctcMovers', () => {
-  test('gainers are highest 1d first, losers lowest first, null/zero excluded', () => {
-    const { gainers, losers } = computeBtctcMovers(btctcCompanies, 5);
-    expect(gainers.map((m) => m.ticker)).toEqual(['MSTR', 'BOYAA', 'MTPLF']);
-    expect(losers.map((m) => m.ticker)).toEqual(['MTPLF', 'BOYAA', 'MSTR']);
-    // Zero (SMLR) and null (NOCH) movers are filtered out.
-    expect(gainers.some((m) => m.ticker === 'SMLR')).toBe(false);
-    expect(gainers.some((m) => m.ticker === 'NOCH')).toBe(false);
+describe('get_fund_history', () => {
+  test('renders each stored day with its own asOf and the compounded period', async () => {
+    let asked: [string, string] | null = null;
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async (from, to) => {
+        asked = [from, to];
+        return history;
+      },
+    };
+    const r = await dispatchTool(
+      'get_fund_history',
+      { start_date: '2026-06-15', end_date: '2026-06-19' },
+      deps
+    );
+    expect(r.isError).toBe(false);
+    expect(asked).toEqual(['2026-06-15', '2026-06-19']);
+    expect(r.content).toContain('snapshot history');
+    expect(r.content).toContain(
+      '2026-06-18 (asOf 2026-06-18T22:00:00.000Z): AUM $95,000,000, Fund 1d +2.00%, BTC 1d +1.00%'
+    );
+    // (1.02 × 1.02 − 1) = +4.04%; (1.01 × 0.99 − 1) = −0.01%; alpha +4.05%.
+    expect(r.content).toContain('Fund +4.04%, BTC -0.01%, Alpha +4.05%');
+  });
+
+  test('a single date is a one-day range with no period line', async () => {
+    let asked: [string, string] | null = null;
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async (from, to) => {
+        asked = [from, to];
+        return history.slice(0, 1);
+      },
+    };
+    const r = await dispatchTool('get_fund_history', { date: '2026-06-18' }, deps);
+    expect(asked).toEqual(['2026-06-18', '2026-06-18']);
+    expect(r.content).not.toContain('Period');
+  });
+
+  test('no stored rows is an honest "no history", not an error', async () => {
+    const deps: ToolDeps = { ...okDeps, getEodBriefHistory: async () => [] };
+    const r = await dispatchTool('get_fund_history', { date: '2025-03-03' }, deps);
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('No stored snapshots for 2025-03-03');
+  });
+
+  test('missing or malformed dates are an is_error without hitting storage', async () => {
+    let called = false;
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async () => {
+        called = true;
+        return [];
+      },
+    };
+    const r = await dispatchTool('get_fund_history', { date: 'last week' }, deps);
+    expect(r.isError).toBe(true);
+    expect(r.content).toContain('YYYY-MM-DD');
+    expect(called).toBe(false);
+  });
+
+  test('a storage failure degrades gracefully without leaking the error', async () => {
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async () => {
+        throw new Error('relation "eod_brief_history" does not exist');
+      },
+    };
+    const r = await dispatchTool('get_fund_history', { date: '2026-06-18' }, deps);
+    expect(r.isError).toBe(true);
+    expect(r.content).toContain('temporarily unavailable');
+    expect(r.content).not.toContain('relation');
+  });
+});
+
+describe('get_performance_stats', () => {
+  // Twelve alternating days: enough observations, with variance on both sides.
+  const series: EodBriefSnapshot[] = Array.from({ length: 12 }, (_, i) => ({
+    ...history[0],
+    date: `2026-06-${String(i + 1).padStart(2, '0')}`,
+    fund1dPct: i % 2 === 0 ? 2 : -1,
+    btc1dPct: i % 2 === 0 ? 1 : -0.5,
+  }));
+
+  test('reads the trailing window and renders the stats with its dates', async () => {
+    let asked: [string, string] | null = null;
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async (from, to) => {
+        asked = [from, to];
+        return series;
+      },
+    };
+    const r = await dispatchTool('get_performance_stats', { window_days: 30, risk_free_rate_pct: 0 }, deps);
+    expect(r.isError).toBe(false);
+    expect(asked).not.toBeNull();
+    const [from, to] = asked!;
+    expect((Date.parse(to) - Date.parse(from)) / 86_400_000).toBe(29);
+    expect(r.content).toContain('Window: 2026-06-01 to 2026-06-12 (12 daily returns; risk-free 0% annual');
+    // Fund moves are exactly 2× BTC's → beta 2, correlation 1.
+    expect(r.content).toContain('Beta vs BTC: 2.00');
+    expect(r.content).toContain('Correlation vs BTC: 1.00');
+    expect(r.content).toContain('- 2026-06: Fund');
+  });
+
+  test('too little stored history is an honest answer, not an error', async () => {
+    const r = await dispatchTool('get_performance_stats', {}, okDeps);
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('Not enough stored history');
+  });
+
+  test('an out-of-range window is an is_error without hitting storage', async () => {
+    let called = false;
+    const deps: ToolDeps = {
+      ...okDeps,
+      getEodBriefHistory: async () => {
+        called = true;
+        return [];
+      },
+    };
+    const r = await dispatchTool('get_performance_stats', { window_days: 5000 }, deps);
+    expect(r.isError).toBe(true);
+    expect(called).toBe(false);
+  });
+});
+
+describe('get_drawdown', () => {
+  test('renders fund and BTC off their highs with dates', async () => {
+    const r = await dispatchTool('get_drawdown', {}, okDeps);
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('As of 2026-06-19');
+    expect(r.content).toContain('High-water mark: $100,000,000 on 2026-06-17');
+    expect(r.content).toContain('Current drawdown from high: -3.10%');
+    expect(r.content).toContain('Max drawdown on record: -5.00% (trough 2026-06-18)');
+    expect(r.content).toContain('Current drawdown from high: -8.07%');
+  });
+
+  test('no stored history is an honest answer', async () => {
+    const r = await dispatchTool('get_drawdown', {}, { ...okDeps, getEodValueHistory: async () => [] });
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('No stored snapshots yet');
+  });
+});
+
+describe('readHistoryRange', () => {
+  test('rejects inverted, impossible and over-long ranges', () => {
+    expect(readHistoryRange({ start_date: '2026-06-19', end_date: '2026-06-01' })).toHaveProperty('error');
+    expect(readHistoryRange({ date: '2026-02-30' })).toHaveProperty('error');
+    expect(readHistoryRange({ start_date: '2025-01-01', end_date: '2026-01-01' })).toHaveProperty('error');
   });
 
-  test('respects the limit', () => {
-    const { gainers, losers } = computeBtctcMovers(btctcCompanies, 1);
-    expect(gainers).toHaveLength(1);
-    expect(losers).toHaveLength(1);
-    expect(gainers[0].ticker).toBe('MSTR');
-    expect(losers[0].ticker).toBe('MTPLF');
+  test('a lone start or end date is a single day', () => {
+    expect(readHistoryRange({ start_date: '2026-06-01' })).toEqual({ from: '2026-06-01', to: '2026-06-01' });
+    expect(readHistoryRange({ end_date: '2026-06-01' })).toEqual({ from: '2026-06-01', to: '2026-06-01' });
   });
 });
 
@@ -392,3 +555,95 @@ describe('MAX_TOOL_ITERATIONS', () => {
     expect(MAX_TOOL_ITERATIONS).toBeLessThanOrEqual(6);
   });
 });
+
+describe('get_feed_health', () => {
+  const day = (date: string, dv8: number | null) => ({
+    ...history[0],
+    date,
+    asOf: `${date}T22:00:00.000Z`,
+    holdings: [
+      { name: 'MicroStrategy', ticker: 'MSTR', weightPercent: 18.5, change1dPct: -2.1 },
+      { name: 'DV8', ticker: 'DV8', weightPercent: 1.25, change1dPct: dv8 },
+    ],
+  });
+
+  test('lists holdings with a run of N/A or zero quotes', async () => {
+    const r = await dispatchTool('get_feed_health', {}, {
+      ...okDeps,
+      getEodBriefHistory: async () => [day('2026-06-16', 1.2), day('2026-06-17', null), day('2026-06-18', 0), day('2026-06-19', null)],
+    });
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('Latest EOD brief: 2026-06-19');
+    expect(r.content).toContain('- DV8 (DV8): no quote (N/A) for 3 consecutive EOD brief(s) since 2026-06-17; weight 1.25%');
+    expect(r.content).not.toContain('MSTR');
+  });
+
+  test('reports healthy feeds and missing history plainly', async () => {
+    const healthy = await dispatchTool('get_feed_health', {}, { ...okDeps, getEodBriefHistory: async () => [day('2026-06-19', 0.4)] });
+    expect(healthy.content).toContain('Every holding had a live');
+    const empty = await dispatchTool('get_feed_health', {}, { ...okDeps, getEodBriefHistory: async () => [] });
+    expect(empty.content).toContain('No stored EOD briefs');
+  });
+});
+
+describe('create_alert', () => {
+  const alertDeps = (count = 0) => {
+    const created: Array<{ rule: unknown; currentCondition: boolean }> = [];
+    const deps: ToolDeps = {
+      ...okDeps,
+      alerts: {
+        countAlerts: async () => count,
+        createAlert: async (rule, currentCondition) => {
+          created.push({ rule, currentCondition });
+          return { id: 7 };
+        },
+      },
+    };
+    return { deps, created };
+  };
+
+  test('saves the rule with its current condition and reports the current value', async () => {
+    const { deps, created } = alertDeps();
+    const r = await dispatchTool(
+      'create_alert',
+      { metric: 'diluted_mnav', ticker: 'mstr', operator: 'below', threshold: 1.2 },
+      deps
+    );
+    expect(r.isError).toBe(false);
+    expect(r.content).toContain('Alert #7 created: MSTR diluted mNAV below 1.20.');
+    expect(r.content).toContain('Current value: 2.10.');
+    expect(r.content).toContain('delete alert <number>');
+    expect(created).toEqual([
+      { rule: { metric: 'diluted_mnav', ticker: 'MSTR', operator: 'below', threshold: 1.2 }, currentCondition: false },
+    ]);
+  });
+
+  test('says so when the condition is already met', async () => {
+    const { deps, created } = alertDeps();
+    const r = await dispatchTool('create_alert', { metric: 'diluted_mnav', ticker: 'MSTR', operator: 'above', threshold: 2 }, deps);
+    expect(r.content).toContain('already met');
+    expect(created[0].currentCondition).toBe(true);
+  });
+
+  test('does not create an alert for a ticker with no data', async () => {
+    const { deps, created } = alertDeps();
+    const r = await dispatchTool(
+      'create_alert',
+      { metric: 'diluted_mnav', ticker: 'NOPE', operator: 'below', threshold: 1 },
+      { ...deps, fetchBtctcCompany: async (t) => ({ found: false, ticker: t }) }
+    );
+    expect(r.isError).toBe(true);
+    expect(r.content).toContain('NOPE diluted mNAV');
+    expect(created).toHaveLength(0);
+  });
+
+  test('refuses past the per-user cap, on invalid input, and without an alert context', async () => {
+    const input = { metric: 'fear_and_greed', operator: 'above', threshold: 80 };
+    expect((await dispatchTool('create_alert', input, alertDeps(20).deps)).isError).toBe(true);
+    expect((await dispatchTool('create_alert', { ...input, operator: 'over' }, alertDeps().deps)).isError).toBe(true);
+
+    const r = await dispatchTool('create_alert', input, okDeps);
+    expect(r.isError).toBe(true);
+    expect(r.content).toContain('Slack conversation');
+  });
+});
@@ -7,6 +7,12 @@
 // API-key-accessible read endpoints for positions, BTCTC companies, and
 // on-chain metrics — so the per-ticker / full-position-list / treasury-company
 // / on-chain tools that were previously deferred are now live.
+//
+// The exceptions are get_fund_history, get_performance_stats, get_drawdown and get_feed_health, which read the
+// brief history the daily reports persist to Supabase (lib/supabase/history.ts).
+// It is still terminal data — just yesterday's, captured at the time it was posted.
+// create_alert is the one tool that writes: it saves a user alert rule, and only
+// works when the caller passes the Slack user's alert context (deps.alerts).
 
 import type { Tool, ToolResultBlockParam } from '@anthropic-ai/sdk/resources/messages';
 import { getFundSummary, asOfLabel, type FundSummary } from '../terminal/summary';
@@ -24,7 +30,42 @@ import {
   type BtctcCompanyResult,
 } from '../terminal/btctc';
 import { fetchOnChain, type OnChain } from '../terminal/on-chain';
-import { fmtUsd, fmtPct } from '../format';
+import type { UnitsGuardOutcomes } from '../terminal/client';
+import {
+  getEodBriefHistory,
+  getEodValueHistory,
+  type EodBriefSnapshot,
+  type EodValuePoint,
+} from '../supabase/history';
+import { compoundPct } from '../analytics/returns';
+import { computeBtctcMovers, type BtctcMover } from '../analytics/btctc-movers';
+import {
+  computePerformanceStats,
+  getDefaultPerformanceOptions,
+  MIN_OBSERVATIONS,
+  type PerformanceStats,
+} from '../analytics/performance';
+import { summarizeDrawdowns, type DrawdownStats } from '../analytics/drawdown';
+import {
+  FEED_HEALTH_LOOKBACK_DAYS,
+  findStaleFeeds,
+  getStaleFeedAlertDays,
+  type StaleFeed,
+} from '../analytics/feed-health';
+import {
+  ALERT_METRIC_NAMES,
+  MAX_ALERTS_PER_USER,
+  describeAlertRule,
+  describeAlertSubject,
+  fetchAlertSource,
+  formatAlertValue,
+  isConditionMet,
+  readMetricValue,
+  validateAlertRule,
+  type AlertRuleSpec,
+} from '../analytics/alert-rules';
+import { fmtUsd, fmtPct, fmtRatio } from '../format';
+import { addDaysIso, isoDateCT } from '../utils/dates';
 
 // Cap on tool iterations in the agent loop — bounds cost and latency.
 export const MAX_TOOL_ITERATIONS = 4;
@@ -40,26 +81,50 @@ export interface ToolDeps {
   fetchBtctc: () => Promise<Btctc>;
   fetchBtctcCompany: (ticker: string) => Promise<BtctcCompanyResult>;
   fetchOnChain: () => Promise<OnChain>;
+  getEodBriefHistory: (from: string, to: string) => Promise<EodBriefSnapshot[]>;
+  getEodValueHistory: (to: string) => Promise<EodValuePoint[]>;
+  // Present only for a Slack request with a known user; create_alert errors without it.
+  alerts?: AlertToolContext;
+}
+
+/** The requesting user's alert store, bound by the caller (api/slack/events.ts). */
+export interface AlertToolContext {
+  countAlerts: () => Promise<number>;
+  createAlert: (rule: AlertRuleSpec, currentCondition: boolean) => Promise<{ id: number }>;
 }
 
 /**
- * The live terminal-backed dependencies. Exported so callers can override a
- * single fetcher (e.g. a per-request memoized getFundSummary) while keeping the
- * live implementations for the rest. dispatchTool() uses this when no deps are
- * passed.
+ * The live terminal-backed dependencies, recording units-guard outcomes into
+ * the caller's `guard`. Exported so callers can override a single fetcher (e.g.
+ * a per-request memoized getFundSummary) while keeping the live
+ * implementations for the rest.
  */
-export const defaultDeps: ToolDeps = {
-  getFundSummary,
-  fetchPositions,
-  fetchPositionByTicker,
-  fetchBtctc,
-  fetchBtctcCompany,
-  fetchOnChain,
-};
+export function liveDeps(guard?: UnitsGuardOutcomes): ToolDeps {
+  return {
+    getFundSummary: () => getFundSummary(guard),
+    fetchPositions: () => fetchPositions(guard),
+    fetchPositionByTicker: (ticker) => fetchPositionByTicker(ticker, guard),
+    fetchBtctc: () => fetchBtctc(guard),
+    fetchBtctcCompany: (ticker) => fetchBtctcCompany(ticker, guard),
+    fetchOnChain,
+    getEodBriefHistory,
+    getEodValueHistory,
+  };
+}
+
+// dispatchTool() uses these when no deps are passed; nothing is recorded.
+export const defaultDeps: ToolDeps = liveDeps();
 
 // Default number of gainers/losers to return for get_btctc_movers.
 const DEFAULT_MOVERS_LIMIT = 5;
 
+// Widest range get_fund_history will read in one call — bounds the payload fed
+// back to the model.
+const MAX_HISTORY_DAYS = 92;
+
+// Longest lookback get_performance_stats accepts (calendar days).
+const MAX_PERFORMANCE_WINDOW_DAYS = 366;
+
 // ---------------------------------------------------------------------------
 // Tool definitions (Anthropic tool-use schema)
 // ---------------------------------------------------------------------------
@@ -152,6 +217,92 @@ export const TOOLS: Tool[] = [
       'must cite.',
     input_schema: { type: 'object', properties: {} },
   },
+  {
+    name: 'get_fund_history',
+    description:
+      "Get the fund's stored daily history for a past date or date range: " +
+      'AUM, fund 1-day return, BTC 1-day return and BTC price for each ' +
+      'business day, plus the period return compounded from those daily ' +
+      'figures (fund, BTC, alpha). Use this for questions like "what was AUM ' +
+      'on March 3rd" or "how did we do last week". Pass "date" for a single ' +
+      'day, or "start_date" and "end_date" for a range (YYYY-MM-DD, Central ' +
+      `Time, at most ${MAX_HISTORY_DAYS} days). Each day carries its own "asOf" ` +
+      'timestamp you must cite.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'A single day, YYYY-MM-DD' },
+        start_date: { type: 'string', description: 'Range start, YYYY-MM-DD (inclusive)' },
+        end_date: { type: 'string', description: 'Range end, YYYY-MM-DD (inclusive)' },
+      },
+    },
+  },
+  {
+    name: 'get_performance_stats',
+    description:
+      "Get the fund's risk/return statistics versus BTC, computed from the " +
+      'stored daily fund and BTC returns over a trailing window ending today: ' +
+      'cumulative return, annualised volatility, Sharpe and Sortino ratios, ' +
+      "beta and correlation to BTC, annualised (Jensen's) alpha, and the " +
+      'per-month returns in the window. Use this for questions about risk, ' +
+      'volatility, Sharpe, beta, or risk-adjusted performance. Optionally pass ' +
+      `"window_days" (calendar days, default 90, max ${MAX_PERFORMANCE_WINDOW_DAYS}) ` +
+      'and "risk_free_rate_pct" (annual, e.g. 4.5). Cite the window dates it reports.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        window_days: { type: 'number', description: 'Trailing lookback in calendar days' },
+        risk_free_rate_pct: { type: 'number', description: 'Annual risk-free rate in percent' },
+      },
+    },
+  },
+  {
+    name: 'get_drawdown',
+    description:
+      "Get how far the fund is off its high, with BTC side by side, from the " +
+      'stored daily EOD closes: the AUM high-water mark and its date, current ' +
+      'drawdown from that high, and the worst (max) drawdown on record with its ' +
+      'trough date; the same for the BTC price. Use this for "how far are we ' +
+      'off the high" or "what was our max drawdown". Note the fund side is AUM, ' +
+      'so subscriptions/redemptions move it. Cite the as-of date it reports.',
+    input_schema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_feed_health',
+    description:
+      'Check which holdings have dead or frozen price quotes: holdings whose ' +
+      '1-day change was N/A or exactly 0.00% in consecutive stored EOD briefs, ' +
+      'with how many business days, since when, and their portfolio weight. ' +
+      'Use this for "which holdings have stale quotes" or "is the DV8 feed ' +
+      'working". Cite the brief date it reports.',
+    input_schema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'create_alert',
+    description:
+      'Save an alert for the user asking, e.g. "alert me if MSTR diluted mNAV ' +
+      'drops below 1.2" or "tell me when Fear & Greed goes above 80". The rule ' +
+      'is checked every 15 minutes and the user gets a Slack DM when the ' +
+      'metric crosses the threshold. Metrics: diluted_mnav, basic_mnav, ' +
+      'btctc_price, btctc_1d_change_pct, btc_holdings (treasury-company data, ' +
+      'need "ticker"); position_weight_pct, position_1d_change_pct, ' +
+      "position_value_usd (the fund's own position, need \"ticker\"); " +
+      'fear_and_greed, mvrv_z_score, nupl, funding_rate, btc_200w_ma (on-chain, ' +
+      'no ticker). Percent metrics take the threshold in percent (e.g. -10 for ' +
+      'a 10% drop). Only call this when the user explicitly asks to be alerted. ' +
+      'The result reports the current value and the alert number; tell the user ' +
+      'they can say "list alerts" or "delete alert <number>".',
+    input_schema: {
+      type: 'object',
+      properties: {
+        metric: { type: 'string', enum: ALERT_METRIC_NAMES },
+        ticker: { type: 'string', description: 'Required for BTCTC and position metrics' },
+        operator: { type: 'string', enum: ['above', 'below'] },
+        threshold: { type: 'number' },
+      },
+      required: ['metric', 'operator', 'threshold'],
+    },
+  },
 ];
 
 const TOOL_NAMES = new Set(TOOLS.map((t) => t.name));
@@ -305,43 +456,6 @@ function renderBtctcCompany(ticker: string, r: BtctcCompanyResult): string {
   ].join('\n');
 }
 
-export interface BtctcMover {
-  company: string;
-  ticker: string;
-  changePercent: number;
-  price: number | null;
-  mNAV: number | null;
-}
-
-/**
- * Sort the BTCTC universe by 1-day change into top gainers and losers.
- * Mirrors the legacy lib/sheets/btctc.ts getBTCTCMovers logic, repointed at the
- * terminal payload: companies with a null/zero 1-day change are excluded so the
- * extremes are real moves, gainers are the top `limit`, losers the bottom `limit`.
- */
-export function computeBtctcMovers(
-  companies: BtctcCompany[],
-  limit: number = DEFAULT_MOVERS_LIMIT
-): { gainers: BtctcMover[]; losers: BtctcMover[] } {
-  const sorted = companies
-    .filter((c) => c.oneDayChangePercent != null && c.oneDayChangePercent !== 0)
-    .sort(
-      (a, b) => (b.oneDayChangePercent as number) - (a.oneDayChangePercent as number)
-    );
-
-  const toMover = (c: BtctcCompany): BtctcMover => ({
-    company: c.company,
-    ticker: c.ticker,
-    changePercent: c.oneDayChangePercent as number,
-    price: c.price,
-    mNAV: c.dilutedMNAV,
-  });
-
-  const gainers = sorted.slice(0, limit).map(toMover);
-  const losers = sorted.slice(-limit).reverse().map(toMover);
-  return { gainers, losers };
-}
-
 function renderBtctcMovers(b: Btctc, limit: number): string {
   const { gainers, losers } = computeBtctcMovers(b.companies ?? [], limit);
   if (gainers.length === 0 && losers.length === 0) {
@@ -374,6 +488,184 @@ function renderOnChain(o: OnChain): string {
   ].join('\n');
 }
 
+const HISTORY_SOURCE = 'Source: fund-bot snapshot history (210k terminal EOD briefs, stored daily)';
+
+function renderFundHistory(
+  range: { from: string; to: string },
+  days: EodBriefSnapshot[]
+): string {
+  const rangeLabel = range.from === range.to ? range.from : `${range.from} to ${range.to}`;
+  if (days.length === 0) {
+    return [
+      HISTORY_SOURCE,
+      `No stored snapshots for ${rangeLabel}. History only exists for business days ` +
+        'since the EOD report began persisting its brief, so earlier dates are unavailable.',
+    ].join('\n');
+  }
+
+  const lines = days.map(
+    (d) =>
+      `- ${d.date} (asOf ${d.asOf}): AUM ${fmtUsd(d.aumUsd)}, Fund 1d ${fmtPct(d.fund1dPct)}, ` +
+      `BTC 1d ${fmtPct(d.btc1dPct)}, BTC ${fmtUsd(d.btcPriceUsd)}`
+  );
+
+  const out = [HISTORY_SOURCE, `Range: ${rangeLabel} (${days.length} stored day(s))`, ...lines];
+
+  if (days.length > 1) {
+    const fund = compoundPct(days.map((d) => d.fund1dPct));
+    const btc = compoundPct(days.map((d) => d.btc1dPct));
+    const alpha = fund != null && btc != null ? fmtPct(fund - btc) : 'N/A';
+    out.push(
+      `Period (compounded from the stored daily returns): Fund ${fmtPct(fund)}, ` +
+        `BTC ${fmtPct(btc)}, Alpha ${alpha}`
+    );
+  }
+
+  return out.join('\n');
+}
+
+function renderPerformanceStats(
+  window: { from: string; to: string },
+  stats: PerformanceStats | null,
+  storedDays: number
+): string {
+  if (!stats) {
+    return [
+      HISTORY_SOURCE,
+      `Not enough stored history for ${window.from} to ${window.to}: ${storedDays} stored day(s), ` +
+        `at least ${MIN_OBSERVATIONS} days with both a fund and a BTC return are needed.`,
+    ].join('\n');
+  }
+
+  const monthly = stats.monthlyReturns.map(
+    (m) => `  - ${m.month}: Fund ${fmtPct(m.fundReturn)}, BTC ${fmtPct(m.btcReturn)}, Alpha ${fmtPct(m.alpha)}`
+  );
+
+  return [
+    HISTORY_SOURCE,
+    `Window: ${stats.from} to ${stats.to} (${stats.observations} daily returns; ` +
+      `risk-free ${stats.riskFreeRatePct}% annual; annualised over ${stats.periodsPerYear} periods)`,
+    `- Cumulative return: Fund ${fmtPct(stats.cumulativeReturn)}, BTC ${fmtPct(stats.btcCumulativeReturn)}`,
+    `- Annualised volatility: Fund ${fmtRatio(stats.volatility)}%, BTC ${fmtRatio(stats.btcVolatility)}%`,
+    `- Sharpe ratio: ${fmtRatio(stats.sharpeRatio)}`,
+    `- Sortino ratio: ${fmtRatio(stats.sortinoRatio)}`,
+    `- Beta vs BTC: ${fmtRatio(stats.beta)}`,
+    `- Correlation vs BTC: ${fmtRatio(stats.correlation)}`,
+    `- Alpha vs BTC (annualised, Jensen): ${fmtPct(stats.alpha)}`,
+    'Monthly (compounded from the stored daily returns; first/last month may be partial):',
+    ...monthly,
+  ].join('\n');
+}
+
+function renderDrawdownSide(label: string, d: DrawdownStats | null): string[] {
+  if (!d) return [`${label}: no stored data`];
+  return [
+    `${label}:`,
+    `- Current: ${fmtUsd(d.current)}`,
+    `- High-water mark: ${fmtUsd(d.peak)} on ${d.peakDate}`,
+    `- Current drawdown from high: ${fmtPct(d.currentDrawdownPct)}`,
+    `- Max drawdown on record: ${fmtPct(d.maxDrawdownPct)} (trough ${d.maxDrawdownDate})`,
+  ];
+}
+
+function renderDrawdown(points: EodValuePoint[]): string {
+  if (points.length === 0) {
+    return [HISTORY_SOURCE, 'No stored snapshots yet, so no drawdown history is available.'].join('\n');
+  }
+  const { fund, btc } = summarizeDrawdowns(points);
+  return [
+    HISTORY_SOURCE,
+    `As of ${points[points.length - 1].date} (${points[0].date} onward, ${points.length} stored day(s); ` +
+      'fund side is AUM, so flows move it)',
+    ...renderDrawdownSide('Fund (AUM)', fund),
+    ...renderDrawdownSide('BTC (price)', btc),
+  ].join('\n');
+}
+
+function renderStaleFeed(f: StaleFeed): string {
+  const quote = f.latestChange === null ? 'no quote (N/A)' : 'frozen at 0.00%';
+  const weight = f.weightPercent != null ? `${f.weightPercent.toFixed(2)}%` : 'N/A';
+  return `- ${f.name} (${f.ticker}): ${quote} for ${f.staleDays} consecutive EOD brief(s) since ${f.firstStaleDate}; weight ${weight}`;
+}
+
+function renderFeedHealth(days: EodBriefSnapshot[], alertDays: number): string {
+  const latest = days[days.length - 1];
+  if (!latest) {
+    return [
+      HISTORY_SOURCE,
+      `No stored EOD briefs in the last ${FEED_HEALTH_LOOKBACK_DAYS} days, so feed health can't be checked.`,
+    ].join('\n');
+  }
+
+  const stale = findStaleFeeds(days);
+  const header = [
+    HISTORY_SOURCE,
+    `Latest EOD brief: ${latest.date} (asOf ${latest.asOf}), ${latest.holdings.length} holdings`,
+  ];
+  if (stale.length === 0) {
+    return [...header, 'Every holding had a live, non-zero 1-day change in the latest brief.'].join('\n');
+  }
+  return [
+    ...header,
+    `Holdings with stale quotes (ops alert after ${alertDays} business days):`,
+    ...stale.map(renderStaleFeed),
+  ].join('\n');
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function readIsoDate(input: unknown, key: string): string | null {
+  if (input && typeof input === 'object' && key in input) {
+    const v = (input as Record<string, unknown>)[key];
+    if (typeof v === 'string' && ISO_DATE.test(v.trim())) {
+      const d = v.trim();
+      // Reject shape-valid but impossible dates (2026-02-30).
+      if (new Date(`${d}T00:00:00Z`).toISOString().startsWith(d)) return d;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the history tool input to an inclusive YYYY-MM-DD range, or an error
+ * message for the model. A lone `date` is a one-day range; a lone start or end
+ * is treated as a single day too.
+ */
+export function readHistoryRange(
+  input: unknown
+): { from: string; to: string } | { error: string } {
+  const date = readIsoDate(input, 'date');
+  const start = readIsoDate(input, 'start_date');
+  const end = readIsoDate(input, 'end_date');
+
+  const from = start ?? date ?? end;
+  const to = end ?? date ?? start;
+  if (!from || !to) {
+    return {
+      error: 'get_fund_history requires "date" or "start_date"/"end_date" as YYYY-MM-DD.',
+    };
+  }
+  if (from > to) {
+    return { error: `get_fund_history: start_date ${from} is after end_date ${to}.` };
+  }
+  const spanDays = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+  if (spanDays > MAX_HISTORY_DAYS) {
+    return {
+      error: `get_fund_history: range is ${spanDays} days; the maximum is ${MAX_HISTORY_DAYS}. Split it into smaller ranges.`,
+    };
+  }
+  return { from, to };
+}
+
+// Pull a finite number off an unknown tool input, or null if absent/invalid.
+function readNumber(input: unknown, key: string): number | null {
+  if (input && typeof input === 'object' && key in input) {
+    const v = (input as Record<string, unknown>)[key];
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+  }
+  return null;
+}
+
 // Pull a string `ticker` off an unknown tool input, or null if absent.
 function readTicker(input: unknown): string | null {
   if (input && typeof input === 'object' && 'ticker' in input) {
@@ -476,6 +768,56 @@ export async function dispatchTool(
           content: renderOnChain(await deps.fetchOnChain()),
           isError: false,
         };
+      case 'get_fund_history': {
+        const range = readHistoryRange(input);
+        if ('error' in range) {
+          return { content: range.error, isError: true };
+        }
+        return {
+          content: renderFundHistory(
+            range,
+            await deps.getEodBriefHistory(range.from, range.to)
+          ),
+          isError: false,
+        };
+      }
+      case 'get_performance_stats': {
+        const defaults = getDefaultPerformanceOptions();
+        const windowDays = Math.floor(readNumber(input, 'window_days') ?? defaults.windowDays);
+        if (windowDays < MIN_OBSERVATIONS || windowDays > MAX_PERFORMANCE_WINDOW_DAYS) {
+          return {
+            content: `get_performance_stats: window_days must be between ${MIN_OBSERVATIONS} and ${MAX_PERFORMANCE_WINDOW_DAYS}.`,
+            isError: true,
+          };
+        }
+        const riskFreeRatePct = readNumber(input, 'risk_free_rate_pct') ?? defaults.riskFreeRatePct;
+        const to = isoDateCT();
+        const from = addDaysIso(to, -(windowDays - 1));
+        const days = await deps.getEodBriefHistory(from, to);
+        return {
+          content: renderPerformanceStats(
+            { from, to },
+            computePerformanceStats(days, { riskFreeRatePct, periodsPerYear: defaults.periodsPerYear }),
+            days.length
+          ),
+          isError: false,
+        };
+      }
+      case 'get_drawdown':
+        return {
+          content: renderDrawdown(await deps.getEodValueHistory(isoDateCT())),
+          isError: false,
+        };
+      case 'get_feed_health': {
+        const to = isoDateCT();
+        const days = await deps.getEodBriefHistory(addDaysIso(to, -FEED_HEALTH_LOOKBACK_DAYS), to);
+        return {
+          content: renderFeedHealth(days, getStaleFeedAlertDays()),
+          isError: false,
+        };
+      }
+      case 'create_alert':
+        return await createAlert(input, deps);
       default:
         return { content: `Unknown tool "${name}".`, isError: true };
     }
@@ -491,6 +833,58 @@ export async function dispatchTool(
   }
 }
 
+async function createAlert(input: unknown, deps: ToolDeps): Promise<DispatchResult> {
+  if (!deps.alerts) {
+    return {
+      content: 'create_alert: alerts can only be set up from a Slack conversation with a known user.',
+      isError: true,
+    };
+  }
+
+  const validated = validateAlertRule(input);
+  if ('error' in validated) {
+    return { content: `create_alert: ${validated.error}`, isError: true };
+  }
+  const rule = validated.rule;
+
+  if ((await deps.alerts.countAlerts()) >= MAX_ALERTS_PER_USER) {
+    return {
+      content:
+        `create_alert: the user already has ${MAX_ALERTS_PER_USER} alerts, the maximum. ` +
+        'Tell them to delete one first ("list alerts", then "delete alert <number>").',
+      isError: true,
+    };
+  }
+
+  // Read the metric now: it proves the ticker resolves, and gives the baseline
+  // so a rule that is already met waits for the next crossing.
+  const value = readMetricValue(rule.metric, await fetchAlertSource(rule, deps));
+  if (value == null) {
+    return {
+      content:
+        `create_alert: no current value for ${describeAlertSubject(rule)}` +
+        (rule.ticker ? ` — ${rule.ticker} may not be covered by this source.` : '.') +
+        ' The alert was NOT created.',
+      isError: true,
+    };
+  }
+
+  const alreadyMet = isConditionMet(rule.operator, value, rule.threshold);
+  const { id } = await deps.alerts.createAlert(rule, alreadyMet);
+
+  return {
+    content: [
+      `Alert #${id} created: ${describeAlertRule(rule)}.`,
+      `Current value: ${formatAlertValue(rule.metric, value)}.`,
+      alreadyMet
+        ? 'The condition is already met right now, so the user will be DMed the next time it crosses the threshold again.'
+        : 'The user will get a Slack DM when the condition is met (checked every 15 minutes).',
+      'Manage alerts with "list alerts" or "delete alert <number>".',
+    ].join('\n'),
+    isError: false,
+  };
+}
+
 /** Build a tool_result content block for the messages array. */
 export function toToolResult(
   toolUseId: string,
@@ -1,6 +1,8 @@
 // Environment configuration and validation
 import { config as dotenvConfig } from 'dotenv';
 import { existsSync } from 'fs';
+import { getReportSchedules, type ReportSchedules } from './utils/report-schedule';
+import { loadReportTemplates, type ReportTemplates } from './slack/report-templates';
 
 // Load .env.local if it exists, otherwise fall back to .env
 if (existsSync('.env.local')) {
@@ -43,7 +45,13 @@ interface Config {
     dailyReportsId: string;
     askFundBotId: string;
     testDailyReportsId?: string;
+    opsAlertsId: string; // bot health alerts; defaults to the daily-reports channel
   };
+  // Local report times (REPORT_TIMEZONE, MORNING_REPORT_TIME, …); the crons
+  // fire at both candidate UTC hours and skip the one that doesn't match.
+  reportSchedules: ReportSchedules;
+  // Morning/EOD layouts: config/report-templates.json, or REPORT_TEMPLATES_PATH.
+  reportTemplates: ReportTemplates;
   cronSecret?: string;
   env: 'development' | 'production';
 }
@@ -101,7 +109,10 @@ function validateEnv(): Config {
       dailyReportsId: process.env.DAILY_REPORTS_CHANNEL_ID!,
       askFundBotId: process.env.ASK_FUNDBOT_CHANNEL_ID!,
       testDailyReportsId: process.env.TEST_DAILY_REPORTS_CHANNEL_ID,
+      opsAlertsId: process.env.OPS_ALERTS_CHANNEL_ID || process.env.DAILY_REPORTS_CHANNEL_ID!,
     },
+    reportSchedules: getReportSchedules(),
+    reportTemplates: loadReportTemplates(),
     cronSecret: process.env.CRON_SECRET,
     env: (process.env.NODE_ENV as 'development' | 'production') || 'development',
   };
@@ -59,6 +59,27 @@ async function fetchMetric(metricName: string): Promise<string | null> {
   }
 }
 
+/**
+ * Health probe: fetch one metric and throw on failure. fetchMetric swallows
+ * errors so a report degrades to N/A; the health check needs to see them.
+ */
+export async function pingBmPro(): Promise<void> {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error('BM_PRO_API_KEY not configured');
+  }
+
+  const response = await fetch(`${BM_PRO_API_BASE}/metrics/fear-and-greed`, {
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Accept': 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`BM Pro API returned ${response.status}`);
+  }
+}
+
 /**
  * Parse CSV response from BM Pro API and get the latest value by column index
  */
@@ -317,6 +338,43 @@ export async function fetchOnChainMetrics(): Promise<OnChainMetrics> {
   };
 }
 
+export type OnChainRegimeMetric = 'fearGreed' | 'mvrv' | 'nupl' | 'fundingRate';
+
+export interface OnChainRegime {
+  metric: OnChainRegimeMetric;
+  label: string; // display name, e.g. "Fear & Greed"
+  regime: string; // classification / sentiment, e.g. "Greed"
+  value: number;
+}
+
+const REGIME_LABELS: Record<OnChainRegimeMetric, string> = {
+  fearGreed: 'Fear & Greed',
+  mvrv: 'MVRV',
+  nupl: 'NUPL',
+  fundingRate: 'Funding Rate',
+};
+
+/**
+ * The classified (regime-bearing) metrics in a fetch, in display order.
+ * Metrics that failed to load are omitted rather than given a placeholder.
+ */
+export function getOnChainRegimes(metrics: OnChainMetrics): OnChainRegime[] {
+  const regimes: OnChainRegime[] = [];
+  if (metrics.fearGreed) {
+    regimes.push({ metric: 'fearGreed', label: REGIME_LABELS.fearGreed, regime: metrics.fearGreed.classification, value: metrics.fearGreed.value });
+  }
+  if (metrics.mvrv) {
+    regimes.push({ metric: 'mvrv', label: REGIME_LABELS.mvrv, regime: metrics.mvrv.classification, value: metrics.mvrv.value });
+  }
+  if (metrics.nupl) {
+    regimes.push({ metric: 'nupl', label: REGIME_LABELS.nupl, regime: metrics.nupl.classification, value: metrics.nupl.value });
+  }
+  if (metrics.fundingRate) {
+    regimes.push({ metric: 'fundingRate', label: REGIME_LABELS.fundingRate, regime: metrics.fundingRate.sentiment, value: metrics.fundingRate.value });
+  }
+  return regimes;
+}
+
 /**
  * Format on-chain metrics for display (no emojis, caps/bold/italics)
  */
@@ -12,3 +12,16 @@ export function fmtPct(n: number | null): string {
   const sign = n >= 0 ? '+' : '';
   return `${sign}${n.toFixed(2)}%`;
 }
+
+// Unitless ratio (Sharpe, beta, …) to two decimals.
+export function fmtRatio(n: number | null): string {
+  if (n == null) return 'N/A';
+  return n.toFixed(2);
+}
+
+// Signed dollar change: "+$1,234" / "-$1,234".
+export function fmtUsdChange(n: number | null): string {
+  if (n == null) return 'N/A';
+  const sign = n >= 0 ? '+' : '-';
+  return `${sign}$${Math.round(Math.abs(n)).toLocaleString('en-US')}`;
+}
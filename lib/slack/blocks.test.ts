@@ -1,13 +1,39 @@
 import { test, expect, describe } from 'bun:test';
-import { buildMorningReportBlocks, buildEodReportBlocks } from './blocks';
+import {
+  buildMorningReportBlocks,
+  buildEodReportBlocks,
+  buildEodReportReplies,
+  buildWeeklyReportBlocks,
+  buildMonthlyReportBlocks,
+  buildDrawdownAlertText,
+  buildHoldingMoveAlertText,
+  buildOnChainRegimeAlertText,
+  buildStaleFeedAlertText,
+  buildMissingReportAlertText,
+  buildReportUpdateNoteText,
+  buildUnitsIncidentRecoveryText,
+  buildUnitsIncidentText,
+  buildUserAlertFiredText,
+  buildUserAlertListText,
+} from './blocks';
+import { DEFAULT_REPORT_TEMPLATES, type ReportTemplate } from './report-templates';
+import type { UserAlertRule } from '../analytics/alert-rules';
+import { UnitsGuardError } from '../terminal/client';
 import type { MorningBrief } from '../terminal/morning-brief';
 import type { Brief } from '../terminal/brief';
+import type { WeeklySummary } from '../analytics/weekly';
+import type { MonthlySummary } from '../analytics/monthly';
+import type { PerformanceStats } from '../analytics/performance';
+import type { DrawdownSummary } from '../analytics/drawdown';
+import type { OnChainMetrics } from '../external/bitcoin-magazine-pro';
 
 const sectionText = (blocks: unknown[], needle: string): string =>
   (blocks as Array<{ text?: { text?: string } }>)
     .map((b) => b.text?.text)
     .find((t): t is string => !!t && t.includes(needle)) ?? '';
 
+const threadBlocks = (replies: Array<{ blocks: unknown[] }>): unknown[] => replies.flatMap((r) => r.blocks);
+
 describe('buildMorningReportBlocks — FUND BRIEF', () => {
   const brief: MorningBrief = {
     asOf: '2026-06-22T20:00:00.000Z',
@@ -48,7 +74,7 @@ describe('buildMorningReportBlocks — FUND BRIEF', () => {
   });
 });
 
-describe('buildEodReportBlocks — Top Holdings', () => {
+describe('buildEodReportReplies — Top Holdings', () => {
   const base: Brief = {
     asOf: '2026-06-22T20:00:00.000Z',
     btc: { priceUsd: 64414, change1dPct: 1.86 },
@@ -60,7 +86,7 @@ describe('buildEodReportBlocks — Top Holdings', () => {
     ],
     btcYtdPct: 137.02,
   };
-  const holdings = (b: Brief = base) => sectionText(buildEodReportBlocks(b, null), '210K BRIEF');
+  const holdings = (b: Brief = base) => sectionText(threadBlocks(buildEodReportReplies(b, null)), '210K BRIEF');
 
   test('renders BTC YTD in the 210K BRIEF, after BTC 1D', () => {
     const t = holdings();
@@ -91,6 +117,32 @@ describe('buildEodReportBlocks — Top Holdings', () => {
     expect(t).toContain('upstream reports no movement');
   });
 
+  test('holdings whose home market was closed get ‡ and the holiday in the footnote', () => {
+    const closed = new Map([
+      ['SWC', { market: 'LSE' as const, date: '2026-08-31', open: false, holiday: 'Summer Bank Holiday', earlyClose: null }],
+    ]);
+    const t = sectionText(threadBlocks(buildEodReportReplies(base, null, null, closed)), '210K BRIEF');
+    expect(t).toContain('2. Smarter Web  -4.88%‡');
+    expect(t).toContain('1. Astra  -1.64%\n');
+    expect(t).toContain('_‡ home market closed today (LSE / Aquis: Summer Bank Holiday) — 1D is from the last session_');
+  });
+
+  test('renders the since-this-morning line after BTC YTD when there is a snapshot', () => {
+    const since = {
+      aum: { changeUsd: 1361117.85, changePct: 1.44 },
+      btc: { changeUsd: -250.5, changePct: -0.39 },
+    };
+    const t = sectionText(threadBlocks(buildEodReportReplies(base, null, null, new Map(), since)), '210K BRIEF');
+    expect(t).toContain('BTC YTD: +137.02%\nSince this morning: AUM +$1,361,118 (+1.44%) · BTC -$251 (-0.39%)\n');
+    expect(holdings()).not.toContain('Since this morning');
+  });
+
+  test('a since-morning side without a figure renders N/A', () => {
+    const since = { aum: null, btc: { changeUsd: 120, changePct: 0.19 } };
+    const t = sectionText(threadBlocks(buildEodReportReplies(base, null, null, new Map(), since)), '210K BRIEF');
+    expect(t).toContain('Since this morning: AUM N/A · BTC +$120 (+0.19%)');
+  });
+
   test('null change renders LOUD, never a silent N/A — regression for the DV8 outage', () => {
     const withStale: Brief = {
       ...base,
@@ -105,3 +157,377 @@ describe('buildEodReportBlocks — Top Holdings', () => {
     expect(t).not.toContain('N/A');
   });
 });
+
+describe('EOD thread layout', () => {
+  const brief: Brief = {
+    asOf: '2026-06-22T20:00:00.000Z',
+    btc: { priceUsd: 64414, change1dPct: 1.86 },
+    fund: { aumUsd: 96000000, change1dPct: -0.1, ytdPct: -16.18, asOfDate: '2026-06-22' },
+    topHoldings: [{ name: 'Astra Enterprise Public Company Limited', ticker: 'ASTR', weightPercent: 28.78, change1dPct: -1.64 }],
+    btcYtdPct: 137.02,
+  };
+  const onChain: OnChainMetrics = {
+    fearGreed: { value: 38, classification: 'Fear' },
+    mvrv: { value: 1.84, classification: 'Neutral' },
+    nupl: { value: 42, classification: 'Belief' },
+    fundingRate: { value: -0.0042, sentiment: 'Bearish' },
+    movingAverage1Y: { price: 71250 },
+    movingAverage200W: { price: 48900 },
+  };
+  const movers = {
+    gainers: [{ company: 'Strategy', ticker: 'mstr', changePercent: 4.12, price: 318.5, mNAV: 1.42 }],
+    losers: [{ company: 'Semler Scientific', ticker: 'SMLR', changePercent: -3.35, price: 27.4, mNAV: null }],
+  };
+
+  test('the top-level post carries only AUM, fund 1D and BTC 1D', () => {
+    const t = sectionText(buildEodReportBlocks(brief), '210K BRIEF');
+    expect(t).toBe('*210K BRIEF*\n\nAUM: $96,000,000\nFund 1D: -0.10%\nBTC 1D: +1.86%');
+    expect(JSON.stringify(buildEodReportBlocks(brief))).not.toContain('Top Holdings');
+  });
+
+  test('threads the brief, on-chain and movers replies in order', () => {
+    const replies = buildEodReportReplies(brief, onChain, null, new Map(), null, movers);
+    expect(replies.map((r) => r.key)).toEqual(['brief', 'on-chain', 'btctc-movers']);
+    expect(sectionText(replies[2].blocks, 'BTCTC MOVERS')).toBe(
+      '*BTCTC MOVERS (1D)*\n\n*Gainers:*\n1. Strategy (MSTR)  +4.12%  _mNAV 1.42_\n\n*Losers:*\n1. Semler Scientific (SMLR)  -3.35%'
+    );
+  });
+
+  test('leaves out replies whose data is unavailable', () => {
+    expect(buildEodReportReplies(brief, null).map((r) => r.key)).toEqual(['brief']);
+    const none = { gainers: [], losers: [] };
+    expect(buildEodReportReplies(brief, null, null, new Map(), null, none).map((r) => r.key)).toEqual(['brief']);
+  });
+});
+
+describe('report templates', () => {
+  const brief: Brief = {
+    asOf: '2026-06-22T20:00:00.000Z',
+    btc: { priceUsd: 64414, change1dPct: 1.86 },
+    fund: { aumUsd: 96000000, change1dPct: -0.1, ytdPct: -16.18, asOfDate: '2026-06-22' },
+    topHoldings: [
+      { name: 'Astra Enterprise Public Company Limited', ticker: 'ASTR', weightPercent: 28.78, change1dPct: -1.64 },
+      { name: 'Moon Inc', ticker: '1723', weightPercent: 15.15, change1dPct: 0.04 },
+    ],
+    btcYtdPct: 137.02,
+  };
+
+  test('renders custom labels, order and flat threshold', () => {
+    const holdings = {
+      title: 'Holdings',
+      flat: { marker: '~', maxAbsPct: 0.05, note: 'barely moved' },
+      stale: { marker: '!', note: 'no quote' },
+      closed: { marker: '#', note: 'closed ({markets})' },
+    };
+    const template: ReportTemplate = {
+      post: [
+        { type: 'header', text: 'EVENING' },
+        { type: 'fields', title: 'FUND', fields: [{ field: 'fund1d', label: 'Day' }, { field: 'aum', label: 'Assets' }] },
+      ],
+      thread: [{ key: 'brief', text: 'Detail', sections: [{ type: 'fields', title: 'DETAIL', fields: [{ field: 'btcYtd', label: 'BTC YTD' }], holdings }] }],
+    };
+
+    const blocks = buildEodReportBlocks(brief, template);
+    expect(blocks).toHaveLength(2);
+    expect(sectionText(blocks, 'FUND')).toBe('*FUND*\n\nDay: -0.10%\nAssets: $96,000,000');
+
+    const t = sectionText(threadBlocks(buildEodReportReplies(brief, null, null, new Map(), null, null, template)), 'DETAIL');
+    expect(t).toContain('2. Moon Inc  +0.04%~');
+    expect(t).toContain('\n_~ barely moved_');
+  });
+
+  test('drops the dividers around a section with no data', () => {
+    const morning: MorningBrief = {
+      asOf: '2026-06-22T13:00:00.000Z',
+      btc: { priceUsd: 64414 },
+      fund: { aumUsd: 96000000, mtdPct: 1.2, ytdPct: -16.18, cashUsd: 500000 },
+      btcMtdPct: 3.4,
+      btcYtdPct: 137.02,
+    };
+    const types = buildMorningReportBlocks(morning, null, DEFAULT_REPORT_TEMPLATES.morning).map((b) => b.type);
+    expect(types).toEqual(['header', 'section', 'divider', 'section', 'divider', 'section']);
+  });
+});
+
+describe('buildWeeklyReportBlocks', () => {
+  const summary: WeeklySummary = {
+    weekStart: '2026-06-15',
+    weekEnd: '2026-06-19',
+    daysStored: 5,
+    aumStartUsd: 95000000,
+    aumEndUsd: 97000000,
+    btcPriceEndUsd: 66000,
+    fundWtdPct: 2.5,
+    btcWtdPct: -1.25,
+    alphaPct: 3.75,
+    bestDay: { date: '2026-06-16', fund1dPct: 2 },
+    worstDay: { date: '2026-06-17', fund1dPct: -3 },
+    holdingMovers: [
+      { name: 'Astra Enterprise Public Company Limited', ticker: 'ASTR', weightPercent: 30, wtdPct: 21, daysCovered: 5 },
+    ],
+    regimeChanges: [
+      { label: 'Fear & Greed', from: { regime: 'Neutral', value: 48 }, to: { regime: 'Greed', value: 62 }, changed: true },
+      { label: 'NUPL', from: { regime: 'Belief', value: 55 }, to: { regime: 'Belief', value: 58 }, changed: false },
+    ],
+  };
+  const blocks = buildWeeklyReportBlocks(summary, null, new Date('2026-06-20T00:30:00.000Z'));
+
+  test('renders WTD, alpha and best/worst day', () => {
+    const t = sectionText(blocks, 'WEEK TO DATE');
+    expect(t).toContain('AUM: $97,000,000');
+    expect(t).toContain('Mon Jun 15 close $95,000,000');
+    expect(t).toContain('Fund WTD: +2.50%');
+    expect(t).toContain('BTC WTD: -1.25%');
+    expect(t).toContain('Alpha: +3.75%');
+    expect(t).toContain('Best day: Tue Jun 16  +2.00%');
+    expect(t).toContain('Worst day: Wed Jun 17  -3.00%');
+  });
+
+  test('movers use the short display names', () => {
+    expect(sectionText(blocks, 'HOLDING MOVERS')).toContain('1. Astra  +21.00%');
+  });
+
+  test('regime section flags changes and unchanged metrics', () => {
+    const t = sectionText(blocks, 'ON-CHAIN REGIME');
+    expect(t).toContain('Fear & Greed: Neutral → *Greed*');
+    expect(t).toContain('NUPL: Belief  _(unchanged)_');
+  });
+
+  test('omits the regime section when no on-chain data was stored', () => {
+    const none = buildWeeklyReportBlocks({ ...summary, regimeChanges: [] });
+    expect(sectionText(none, 'ON-CHAIN REGIME')).toBe('');
+  });
+});
+
+describe('buildMonthlyReportBlocks', () => {
+  const summary: MonthlySummary = {
+    month: '2026-02',
+    closed: { month: '2026-02', fundReturn: -2, btcReturn: -3.04, alpha: 1.04 },
+    trailing: [
+      { month: '2026-01', fundReturn: 7.1, btcReturn: 0.98, alpha: 6.12 },
+      { month: '2026-02', fundReturn: -2, btcReturn: -3.04, alpha: 1.04 },
+    ],
+    ytdFundPct: 4.958,
+    ytdBtcPct: -2.09,
+    ytdAlphaPct: 7.048,
+    ytdMonths: 2,
+  };
+  const blocks = buildMonthlyReportBlocks(summary, null, new Date('2026-03-02T15:30:00.000Z'));
+
+  test('renders the closed month vs BTC', () => {
+    const t = sectionText(blocks, 'FEBRUARY RETURN');
+    expect(t).toContain('Fund: -2.00%');
+    expect(t).toContain('BTC: -3.04%');
+    expect(t).toContain('Alpha: +1.04%');
+  });
+
+  test('renders YTD compounding for the closed month\'s year', () => {
+    const t = sectionText(blocks, '2026 YTD');
+    expect(t).toContain('Fund YTD: +4.96%');
+    expect(t).toContain('Alpha: +7.05%');
+  });
+
+  test('renders one aligned table row per stored month', () => {
+    const t = sectionText(blocks, 'TRAILING 12 MONTHS');
+    expect(t).toContain('Jan 2026');
+    expect(t).toContain('Feb 2026');
+    expect(t).toMatch(/Feb 2026\s+-2\.00%\s+-3\.04%\s+\+1\.04%/);
+  });
+
+  test('the risk section is optional and renders N/A for undefined ratios', () => {
+    expect(sectionText(blocks, 'RISK VS BTC')).toBe('');
+
+    const stats: PerformanceStats = {
+      from: '2025-03-03', to: '2026-02-27', observations: 248, riskFreeRatePct: 4, periodsPerYear: 252,
+      cumulativeReturn: 12, btcCumulativeReturn: 5, monthlyReturns: [],
+      volatility: 41.234, btcVolatility: 52.1, sharpeRatio: 1.234, sortinoRatio: null,
+      alpha: 8.5, beta: 0.72, correlation: 0.81,
+    };
+    const t = sectionText(buildMonthlyReportBlocks(summary, stats), 'RISK VS BTC');
+    expect(t).toContain('Volatility (ann.): 41.23% _(BTC 52.10%)_');
+    expect(t).toContain('Sharpe: 1.23 | Sortino: N/A');
+    expect(t).toContain('Beta vs BTC: 0.72 | Correlation: 0.81');
+    expect(t).toContain('Alpha vs BTC (ann.): +8.50%');
+    expect(t).toContain('248 daily returns, 2025-03-03 – 2026-02-27');
+  });
+});
+
+describe('drawdown rendering', () => {
+  const brief: Brief = {
+    asOf: '2026-06-22T20:00:00.000Z',
+    btc: { priceUsd: 64414, change1dPct: 1.86 },
+    fund: { aumUsd: 94000000, change1dPct: -0.1, ytdPct: -16.18, asOfDate: '2026-06-22' },
+    topHoldings: [],
+    btcYtdPct: 137.02,
+  };
+  const drawdown: DrawdownSummary = {
+    fund: {
+      peak: 120000000, peakDate: '2025-11-03', current: 94000000, currentDate: '2026-06-22',
+      currentDrawdownPct: -21.67, maxDrawdownPct: -24.1, maxDrawdownDate: '2026-04-07',
+    },
+    btc: {
+      peak: 64414, peakDate: '2026-06-22', current: 64414, currentDate: '2026-06-22',
+      currentDrawdownPct: 0, maxDrawdownPct: -31.2, maxDrawdownDate: '2026-02-05',
+    },
+  };
+
+  test('EOD report shows fund and BTC side by side', () => {
+    const t = sectionText(threadBlocks(buildEodReportReplies(brief, null, drawdown)), 'DRAWDOWN');
+    expect(t).toContain('Fund: -21.67% from AUM high of $120,000,000 (Nov 3, 2025)  _max -24.10%_');
+    expect(t).toContain('BTC: at price high ($64,414)  _max -31.20%_');
+  });
+
+  test('EOD report omits the section without history', () => {
+    expect(sectionText(threadBlocks(buildEodReportReplies(brief, null)), 'DRAWDOWN')).toBe('');
+  });
+
+  test('alert names the deepest level and lists a multi-level gap', () => {
+    const text = buildDrawdownAlertText([10, 20], drawdown);
+    expect(text).toContain('DRAWDOWN ALERT: Fund crossed -20%');
+    expect(text).toContain('Thresholds crossed today: -10%, -20%.');
+    expect(text).toContain('-21.67% from the high of $120,000,000 (Nov 3, 2025)');
+    expect(buildDrawdownAlertText([10], drawdown)).not.toContain('Thresholds crossed today');
+  });
+});
+
+describe('holding move alerts', () => {
+  const holding = { name: 'Smarter Web Company', ticker: 'SWC', weightPercent: 6.25, change1dPct: -18.3 };
+
+  test('a new alert names the threshold crossed', () => {
+    const text = buildHoldingMoveAlertText(
+      [{ holding, kind: 'new', thresholdPct: 10, previousPct: null }],
+      new Date('2026-10-19T15:00:00Z')
+    );
+    expect(text).toContain('*Holding move as of 10:00 AM CT*');
+    expect(text).toContain('• *SWC* (Smarter Web) -18.30% today · 6.3% of book — crossed -10%');
+  });
+
+  test('an escalation shows the move at the last alert', () => {
+    const text = buildHoldingMoveAlertText([{ holding, kind: 'escalation', thresholdPct: 10, previousPct: -12.1 }]);
+    expect(text).toContain(':rotating_light:');
+    expect(text).toContain('widened from -12.10% at last alert');
+  });
+});
+
+describe('user alerts', () => {
+  const rule: UserAlertRule = {
+    id: 12, userId: 'U1', channel: 'C1', metric: 'diluted_mnav', ticker: 'MSTR', operator: 'below',
+    threshold: 1.2, lastCondition: false, triggerCount: 0, createdAt: '2026-10-18T00:00:00.000Z',
+  };
+
+  test('the DM names the rule, the value and how to delete it', () => {
+    const text = buildUserAlertFiredText(
+      { rule, value: 1.15, condition: true, fired: true, asOf: null },
+      new Date('2026-10-19T15:00:00Z')
+    );
+    expect(text).toContain('*Alert #12:* MSTR diluted mNAV is 1.15 — now below your 1.20 threshold (as of 10:00 AM CT)');
+    expect(text).toContain('"delete alert 12"');
+  });
+
+  test('the list shows each rule and how often it fired', () => {
+    const text = buildUserAlertListText([rule, { ...rule, id: 13, triggerCount: 2 }]);
+    expect(text).toContain('*Your alerts (2/20)*');
+    expect(text).toContain('• *#12* MSTR diluted mNAV below 1.20\n');
+    expect(text).toContain('• *#13* MSTR diluted mNAV below 1.20 · fired 2×');
+    expect(buildUserAlertListText([])).toContain('no alerts');
+  });
+});
+
+describe('on-chain regime alerts', () => {
+  const change = {
+    metric: 'nupl' as const, label: 'NUPL', from: 'Belief', to: 'Euphoria', previousValue: 74, value: 76,
+    priorSince: '2026-10-07T15:10:00.000Z', priorDurationMs: 12 * 86400000, signFlip: false,
+  };
+
+  test('shows the transition, the previous value and the prior regime length', () => {
+    const text = buildOnChainRegimeAlertText([change], new Date('2026-10-19T15:10:00Z'));
+    expect(text).toContain('*On-chain regime change as of 10:10 AM CT*');
+    expect(text).toContain('• *NUPL:* Belief → *Euphoria* — 74% → 76% · prior regime lasted 12 days');
+  });
+
+  test('a funding sign flip inside one regime says which way it flipped', () => {
+    const text = buildOnChainRegimeAlertText([
+      {
+        ...change, metric: 'fundingRate', label: 'Funding Rate', from: 'Neutral', to: 'Neutral',
+        previousValue: 0.004, value: -0.002, priorDurationMs: 5 * 3600000, signFlip: true,
+      },
+    ]);
+    expect(text).toContain('• *Funding Rate:* flipped negative _(still Neutral)_ — +0.0040% → -0.0020% · prior regime lasted 5 hours');
+  });
+});
+
+describe('stale feed alerts', () => {
+  const alert = {
+    ticker: 'SWC', name: 'Smarter Web Company', weightPercent: 6.25, staleDays: 3,
+    firstStaleDate: '2026-10-14', latestChange: null, level: 1,
+  };
+
+  test('names the ticker, weight and first stale date', () => {
+    const text = buildStaleFeedAlertText([alert], 3);
+    expect(text).toContain(':warning: *STALE PRICE FEED*');
+    expect(text).toContain('• *SWC* (Smarter Web) · 6.3% of book — no quote for 3 business days, since Oct 14');
+    expect(text).toContain('repeats every 3 business days');
+  });
+
+  test('escalates past the first alert', () => {
+    const text = buildStaleFeedAlertText([{ ...alert, staleDays: 6, level: 2, latestChange: 0 as const }], 3);
+    expect(text).toContain(':rotating_light:');
+    expect(text).toContain('quote frozen at 0.00% for 6 business days');
+  });
+});
+
+describe('units guard incidents', () => {
+  const trip = new UnitsGuardError('Brief', 'topHoldings[2].change1dPct', -1830, 100, '/api/brief');
+
+  test('the incident names the endpoint, field, value and bound', () => {
+    const text = buildUnitsIncidentText('/api/brief', trip, new Date('2026-10-19T15:00:00Z'));
+    expect(text).toContain('*UNITS GUARD INCIDENT — Brief*');
+    expect(text).toContain('• Endpoint: `/api/brief`');
+    expect(text).toContain('• Field: `topHoldings[2].change1dPct` = -1830 (bound ±100%)');
+    expect(text).toContain('• First seen: 10:00 AM CT');
+  });
+
+  test('the recovery says how long it lasted and how often it tripped', () => {
+    const text = buildUnitsIncidentRecoveryText(
+      {
+        id: 1, endpoint: '/api/brief', context: 'Brief', field: trip.field, value: trip.value, maxAbs: 100,
+        occurrences: 4, openedAt: '2026-10-19T12:00:00.000Z', lastPostedAt: '2026-10-19T12:00:00.000Z',
+        channel: 'C-ops', messageTs: '1.2',
+      },
+      new Date('2026-10-19T15:00:00Z')
+    );
+    expect(text).toBe(
+      ':white_check_mark: *Recovered — Brief* `/api/brief` passed the units check again at 10:00 AM CT, after 3 hours and 4 trips.'
+    );
+  });
+});
+
+describe('buildMissingReportAlertText', () => {
+  test('names each missing report, when it was due and how long overdue', () => {
+    const text = buildMissingReportAlertText(
+      [{ type: 'eod', date: '2026-10-23', expectedAt: new Date('2026-10-24T00:00:00Z') }],
+      new Date('2026-10-24T00:45:00Z')
+    );
+    expect(text).toContain('*MISSING DAILY REPORT*');
+    expect(text).toContain('• *EOD Report* for Fri Oct 23 — due 7:00 PM CT, no post after 45 minutes');
+  });
+});
+
+describe('buildReportUpdateNoteText', () => {
+  test('lists each changed figure with its before and after', () => {
+    const text = buildReportUpdateNoteText(
+      [
+        { label: 'AUM', from: '$96,000,000', to: '$96,250,000' },
+        { label: 'MTPLF 1D', from: null, to: '+2.50%' },
+        { label: 'DV8 1D', from: 'N/A', to: null },
+      ],
+      new Date('2026-10-20T00:42:00Z')
+    );
+    expect(text).toBe(
+      ':pencil2: *Updated 7:42 PM CT* — 3 figures changed:\n' +
+      '• AUM: $96,000,000 → *$96,250,000*\n' +
+      '• MTPLF 1D: _new_ +2.50%\n' +
+      '• DV8 1D: N/A → _dropped_'
+    );
+  });
+});
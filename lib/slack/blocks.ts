@@ -1,11 +1,49 @@
 // Slack Block Kit message builders
 
+import type {
+  Block,
+  ContextBlock,
+  DividerBlock,
+  HeaderBlock,
+  KnownBlock,
+  SectionBlock,
+} from '@slack/web-api';
 import type { Brief, BriefHolding } from '../terminal/brief';
 import type { MorningBrief } from '../terminal/morning-brief';
-import type { OnChainMetrics } from '../external/bitcoin-magazine-pro';
+import type { OnChainMetrics, OnChainRegimeMetric } from '../external/bitcoin-magazine-pro';
 import { formatOnChainBrief } from '../external/bitcoin-magazine-pro';
-import { fmtUsd, fmtPct } from '../format';
-import { formatDateCT, formatTimeCT } from '../utils/dates';
+import type { WeeklySummary } from '../analytics/weekly';
+import type { MonthlySummary } from '../analytics/monthly';
+import type { PerformanceStats } from '../analytics/performance';
+import type { DrawdownStats, DrawdownSummary } from '../analytics/drawdown';
+import type { HoldingMoveAlert } from '../analytics/holding-moves';
+import type { OnChainRegimeChange } from '../analytics/onchain-regimes';
+import type { StaleFeedAlert } from '../analytics/feed-health';
+import type { UnitsGuardError } from '../terminal/client';
+import type { UnitsIncident } from '../terminal/units-incidents';
+import { REPORT_LABELS, type ExpectedReport } from '../analytics/report-watchdog';
+import type { FigureChange } from '../analytics/report-figures';
+import type { SinceMorning, ValueChange } from '../analytics/since-morning';
+import type { BtctcMover, BtctcMovers } from '../analytics/btctc-movers';
+import { MARKET_LABELS, type MarketDay } from '../utils/market-calendar';
+import {
+  DEFAULT_REPORT_TEMPLATES,
+  type EodField,
+  type HoldingsSpec,
+  type MorningField,
+  type ReportTemplate,
+  type SectionSpec,
+} from './report-templates';
+import {
+  MAX_ALERTS_PER_USER,
+  describeAlertRule,
+  describeAlertSubject,
+  formatAlertValue,
+  type AlertEvaluation,
+  type UserAlertRule,
+} from '../analytics/alert-rules';
+import { fmtUsd, fmtPct, fmtRatio, fmtUsdChange } from '../format';
+import { formatDateCT, formatDuration, formatTimeCT } from '../utils/dates';
 
 // Short display names for the holdings report, keyed by ticker (more stable than
 // the legal name across rebrands). Falls back to the API's full name, so an
@@ -15,128 +53,579 @@ const HOLDING_DISPLAY_NAMES: Record<string, string> = {
   SWC: 'Smarter Web',
 };
 
-function holdingDisplayName(h: BriefHolding): string {
+function holdingDisplayName(h: Pick<BriefHolding, 'name' | 'ticker'>): string {
   return HOLDING_DISPLAY_NAMES[h.ticker] ?? h.name;
 }
 
-export function buildEodReportBlocks(
-  brief: Brief,
-  onChainMetrics: OnChainMetrics | null,
-  now: Date = new Date()
-) {
-  const dateStr = formatDateCT(now);
-  const timeStr = formatTimeCT(now);
+// Format a stored YYYY-MM-DD as a short label ("Tue Jun 16"). Parsed at noon
+// UTC so the calendar day is the same in every US timezone.
+function shortDayLabel(isoDate: string, formatStr: string = 'EEE MMM d'): string {
+  return formatDateCT(new Date(`${isoDate}T12:00:00Z`), formatStr);
+}
+
+// "Fund: -12.34% from AUM high of $110,000,000 (Mar 3, 2026)  _max -18.20%_"
+function drawdownLine(label: string, highLabel: string, d: DrawdownStats | null): string {
+  if (!d) return `${label}: N/A`;
+  const fromHigh = d.currentDrawdownPct < 0
+    ? `${fmtPct(d.currentDrawdownPct)} from ${highLabel} high of ${fmtUsd(d.peak)} (${shortDayLabel(d.peakDate, 'MMM d, yyyy')})`
+    : `at ${highLabel} high (${fmtUsd(d.peak)})`;
+  return `${label}: ${fromHigh}  _max ${fmtPct(d.maxDrawdownPct)}_`;
+}
+
+function sinceMorningChange(label: string, c: ValueChange | null): string {
+  return c ? `${label} ${fmtUsdChange(c.changeUsd)} (${fmtPct(c.changePct)})` : `${label} N/A`;
+}
+
+// A threaded reply under a report post. `key` is stable across re-runs, so an
+// in-place update edits the same reply (lib/slack/daily-report.ts).
+export interface ThreadReply {
+  key: string;
+  text: string; // notification fallback
+  blocks: (Block | KnownBlock)[];
+}
+
+// Gainers and losers each in the EOD thread.
+export const EOD_BTCTC_MOVERS_LIMIT = 3;
+
+// What a report template renders from: formatted figures by field key (null
+// leaves the line out), plus the data behind the non-field sections. Data that
+// is missing leaves its section out.
+interface TemplateData {
+  fields: Record<string, string | null>;
+  btcPriceUsd: number | null;
+  onChainMetrics: OnChainMetrics | null;
+  holdings?: BriefHolding[];
+  closedMarkets?: Map<string, MarketDay>;
+  drawdown?: DrawdownSummary | null;
+  movers?: BtctcMovers | null;
+  now: Date;
+}
 
+function holdingsText(spec: HoldingsSpec, holdings: BriefHolding[], closedMarkets: Map<string, MarketDay>): string {
   // The terminal API distinguishes:
-  //   change1dPct === null → upstream feed stale (>3d) — fmtPct renders "N/A"
-  //   change1dPct === 0    → upstream returned a quote with no movement (honest flat
+  //   change1dPct === null → upstream feed stale (>3d) — the stale marker
+  //   |change1dPct| ≤ flat.maxAbsPct → no movement worth reading (honest flat
   //                          day OR thin-trading sub-tick noise on penny names).
-  //                          Asterisk + footnote so readers don't misread the signal.
+  //                          Marker + footnote so readers don't misread the signal.
   //   anything else        → normal +X.XX% / -X.XX%
-  const hasZeroChange = brief.topHoldings.some(h => h.change1dPct === 0);
-  const hasStaleFeed = brief.topHoldings.some(h => h.change1dPct === null);
+  const isFlat = (pct: number | null) => pct !== null && Math.abs(pct) <= spec.flat.maxAbsPct;
+  const hasFlat = holdings.some((h) => isFlat(h.change1dPct));
+  const hasStaleFeed = holdings.some((h) => h.change1dPct === null);
 
-  const holdings = brief.topHoldings.length > 0
-    ? brief.topHoldings
+  const lines = holdings.length > 0
+    ? holdings
         .map((h, i) => {
           const name = holdingDisplayName(h);
+          const closed = closedMarkets.has(h.ticker) ? spec.closed.marker : '';
           // A null change is a dead/suspended feed. Render it LOUD rather than a
           // bare "N/A" — a silent N/A is exactly what hid the DV8 outage for weeks.
           if (h.change1dPct === null) {
-            return `${i + 1}. ${name}  no recent quote†`;
+            return `${i + 1}. ${name}  no recent quote${spec.stale.marker}${closed}`;
           }
-          const marker = h.change1dPct === 0 ? '*' : '';
-          return `${i + 1}. ${name}  ${fmtPct(h.change1dPct)}${marker}`;
+          const marker = isFlat(h.change1dPct) ? spec.flat.marker : '';
+          return `${i + 1}. ${name}  ${fmtPct(h.change1dPct)}${marker}${closed}`;
         })
         .join('\n')
     : '_No holdings data_';
 
+  // Holidays of the holdings' home markets, e.g. "LSE / Aquis: Boxing Day (substitute)".
+  const closures = [...new Set(
+    holdings
+      .map((h) => closedMarkets.get(h.ticker))
+      .filter((d): d is MarketDay => !!d)
+      .map((d) => `${MARKET_LABELS[d.market]}${d.holiday ? `: ${d.holiday}` : ''}`)
+  )];
+
   const footnote =
-    (hasZeroChange ? '\n_* upstream reports no movement — possible flat day or thin trading_' : '') +
-    (hasStaleFeed ? '\n_† no recent price quote — feed may be stale or the listing suspended_' : '');
+    (hasFlat ? `\n_${spec.flat.marker} ${spec.flat.note}_` : '') +
+    (hasStaleFeed ? `\n_${spec.stale.marker} ${spec.stale.note}_` : '') +
+    (closures.length > 0
+      ? `\n_${spec.closed.marker} ${spec.closed.note.replace('{markets}', closures.join('; '))}_`
+      : '');
 
-  const blocks: any[] = [
-    createHeaderBlock('END OF DAY'),
-    createSectionBlock(`*${dateStr}* | ${timeStr} CT`),
-    createDividerBlock(),
+  return `*${spec.title}:*\n${lines}${footnote}`;
+}
+
+function btctcMoverLines(movers: BtctcMover[]): string {
+  return movers
+    .map((m, i) => `${i + 1}. ${m.company} (${m.ticker.toUpperCase()})  ${fmtPct(m.changePercent)}${m.mNAV != null ? `  _mNAV ${m.mNAV.toFixed(2)}_` : ''}`)
+    .join('\n');
+}
+
+function renderSection(section: SectionSpec, data: TemplateData): KnownBlock | null {
+  switch (section.type) {
+    case 'header':
+      return createHeaderBlock(section.text);
+    case 'dateline':
+      return createSectionBlock(`*${formatDateCT(data.now)}* | ${formatTimeCT(data.now)} CT`);
+    case 'divider':
+      return createDividerBlock();
+    case 'text':
+      return createSectionBlock(section.text);
+    case 'context':
+      return createContextBlock([section.text]);
+    case 'headline': {
+      const value = data.fields[section.field];
+      return value == null ? null : createSectionBlock(`*${section.label}:* ${value}`);
+    }
+    case 'fields': {
+      const lines = section.fields
+        .map(({ field, label }) => (data.fields[field] == null ? null : `${label}: ${data.fields[field]}`))
+        .filter((line): line is string => line !== null);
+      const holdings = section.holdings
+        ? `\n\n${holdingsText(section.holdings, data.holdings ?? [], data.closedMarkets ?? new Map())}`
+        : '';
+      return createSectionBlock(`*${section.title}*\n\n${lines.join('\n')}${holdings}`);
+    }
+    case 'on-chain':
+      // Skip cleanly if the upstream API failed.
+      return data.onChainMetrics && data.btcPriceUsd !== null
+        ? createSectionBlock(`*${section.title}*\n\n${formatOnChainBrief(data.onChainMetrics, data.btcPriceUsd)}`)
+        : null;
+    case 'drawdown':
+      // Skip if the stored history couldn't be read.
+      return data.drawdown && (data.drawdown.fund || data.drawdown.btc)
+        ? createSectionBlock(
+            `*${section.title}*\n\n` +
+            `${drawdownLine('Fund', 'AUM', data.drawdown.fund)}\n` +
+            `${drawdownLine('BTC', 'price', data.drawdown.btc)}`
+          )
+        : null;
+    case 'btctc-movers':
+      // Skip if the terminal had none, or couldn't be reached.
+      return data.movers && (data.movers.gainers.length > 0 || data.movers.losers.length > 0)
+        ? createSectionBlock(
+            `*${section.title}*\n\n` +
+            `*Gainers:*\n${btctcMoverLines(data.movers.gainers) || '_None_'}\n\n` +
+            `*Losers:*\n${btctcMoverLines(data.movers.losers) || '_None_'}`
+          )
+        : null;
+  }
+}
+
+/** Render template sections, dropping dividers left leading, trailing or doubled by a skipped section. */
+function renderSections(sections: SectionSpec[], data: TemplateData): KnownBlock[] {
+  const blocks = sections.map((s) => renderSection(s, data)).filter((b): b is KnownBlock => b !== null);
+  return blocks.filter((b, i) =>
+    b.type !== 'divider' ||
+    (i > 0 && i < blocks.length - 1 && blocks[i - 1].type !== 'divider')
+  );
+}
+
+/** Threaded replies of a template; a reply left with no content is not posted. */
+function renderThread(template: ReportTemplate, data: TemplateData): ThreadReply[] {
+  return template.thread
+    .map((reply) => ({ key: reply.key, text: reply.text, blocks: renderSections(reply.sections, data) }))
+    .filter((reply) => reply.blocks.length > 0);
+}
+
+function eodTemplateData(
+  brief: Brief,
+  onChainMetrics: OnChainMetrics | null,
+  drawdown: DrawdownSummary | null,
+  closedMarkets: Map<string, MarketDay>,
+  since: SinceMorning | null,
+  movers: BtctcMovers | null,
+  now: Date
+): TemplateData {
+  const fields: Record<EodField, string | null> = {
+    btcPrice: fmtUsd(brief.btc.priceUsd),
+    aum: fmtUsd(brief.fund.aumUsd),
+    fund1d: fmtPct(brief.fund.change1dPct),
+    fundYtd: fmtPct(brief.fund.ytdPct),
+    btc1d: fmtPct(brief.btc.change1dPct),
+    btcYtd: fmtPct(brief.btcYtdPct),
+    // vs the morning snapshot; no line without one
+    sinceMorning: since ? `${sinceMorningChange('AUM', since.aum)} · ${sinceMorningChange('BTC', since.btc)}` : null,
+  };
+  return {
+    fields,
+    btcPriceUsd: brief.btc.priceUsd,
+    onChainMetrics,
+    holdings: brief.topHoldings,
+    closedMarkets,
+    drawdown,
+    movers,
+    now,
+  };
+}
+
+/**
+ * Top-level EOD post. The default template keeps it to the headline figures,
+ * so the channel stays scannable; the detail is threaded under it
+ * (buildEodReportReplies).
+ */
+export function buildEodReportBlocks(
+  brief: Brief,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATES.eod,
+  now: Date = new Date()
+) {
+  return renderSections(template.post, eodTemplateData(brief, null, null, new Map(), null, null, now));
+}
+
+/**
+ * Threaded detail under the EOD post. By default: the full 210K brief with
+ * holdings and drawdown, the on-chain brief, and BTCTC movers.
+ */
+export function buildEodReportReplies(
+  brief: Brief,
+  onChainMetrics: OnChainMetrics | null,
+  drawdown: DrawdownSummary | null = null,
+  closedMarkets: Map<string, MarketDay> = new Map(), // by ticker: home market closed today
+  since: SinceMorning | null = null,
+  movers: BtctcMovers | null = null,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATES.eod,
+  now: Date = new Date()
+): ThreadReply[] {
+  return renderThread(template, eodTemplateData(brief, onChainMetrics, drawdown, closedMarkets, since, movers, now));
+}
+
+/**
+ * Plain-text alert for a fund drawdown crossing one or more thresholds (the
+ * deepest is named; a gap through several levels lists them all).
+ */
+export function buildDrawdownAlertText(crossed: number[], drawdown: DrawdownSummary): string {
+  const fund = drawdown.fund!;
+  const levels = crossed.map((t) => `-${t}%`).join(', ');
+  const deepest = crossed[crossed.length - 1];
+  return (
+    `*DRAWDOWN ALERT: Fund crossed -${deepest}%*\n` +
+    `AUM ${fmtUsd(fund.current)} is ${fmtPct(fund.currentDrawdownPct)} from the high of ${fmtUsd(fund.peak)} ` +
+    `(${shortDayLabel(fund.peakDate, 'MMM d, yyyy')}).\n` +
+    (crossed.length > 1 ? `Thresholds crossed today: ${levels}.\n` : '') +
+    `BTC: ${drawdown.btc ? fmtPct(drawdown.btc.currentDrawdownPct) : 'N/A'} from its high.\n` +
+    `_First time this cycle — no further alert at this level until AUM sets a new high._`
+  );
+}
+
+// Parent message of the day's intraday alert thread.
+export function buildHoldingAlertThreadText(alertDate: string): string {
+  return `*INTRADAY HOLDING MOVES — ${shortDayLabel(alertDate)}*\n_Alerts for large 1D moves post in this thread._`;
+}
+
+export function buildHoldingMoveAlertText(alerts: HoldingMoveAlert[], now: Date = new Date()): string {
+  const lines = alerts.map(({ holding, kind, thresholdPct, previousPct }) => {
+    const move = holding.change1dPct!;
+    const weight = holding.weightPercent != null ? ` · ${holding.weightPercent.toFixed(1)}% of book` : '';
+    const detail = kind === 'escalation'
+      ? `widened from ${fmtPct(previousPct)} at last alert`
+      : `crossed ${move < 0 ? '-' : '+'}${thresholdPct}%`;
+    return `• *${holding.ticker}* (${holdingDisplayName(holding)}) ${fmtPct(move)} today${weight} — ${detail}`;
+  });
+  const escalated = alerts.some((a) => a.kind === 'escalation');
+  return (
+    `${escalated ? ':rotating_light:' : ':warning:'} *Holding move${alerts.length > 1 ? 's' : ''} as of ${formatTimeCT(now)} CT*\n` +
+    lines.join('\n')
+  );
+}
+
+// Ops alert for holdings whose quote has been null/0 for N, 2N, … EOD briefs.
+export function buildStaleFeedAlertText(alerts: StaleFeedAlert[], alertDays: number): string {
+  const lines = alerts.map((a) => {
+    const weight = a.weightPercent != null ? `${a.weightPercent.toFixed(1)}% of book` : 'weight N/A';
+    const quote = a.latestChange === null ? 'no quote' : 'quote frozen at 0.00%';
+    return (
+      `• *${a.ticker}* (${holdingDisplayName(a)}) · ${weight} — ${quote} for ${a.staleDays} business days, ` +
+      `since ${shortDayLabel(a.firstStaleDate, 'MMM d')}`
+    );
+  });
+  const escalated = alerts.some((a) => a.level > 1);
+  return (
+    `${escalated ? ':rotating_light:' : ':warning:'} *STALE PRICE FEED${alerts.length > 1 ? 'S' : ''}*\n` +
+    `${lines.join('\n')}\n` +
+    `_1D change has been N/A or exactly 0 in every EOD brief since. Check the terminal's quote source; ` +
+    `this repeats every ${alertDays} business days while it stays stale._`
+  );
+}
+
+// Ops incident when a terminal endpoint fails the percent-units guard.
+export function buildUnitsIncidentText(endpoint: string, trip: UnitsGuardError, now: Date = new Date()): string {
+  return (
+    `:rotating_light: *UNITS GUARD INCIDENT — ${trip.context}*\n` +
+    `• Endpoint: \`${endpoint}\`\n` +
+    `• Field: \`${trip.field}\` = ${trip.value} (bound ±${trip.maxAbs}%)\n` +
+    `• First seen: ${formatTimeCT(now)} CT\n` +
+    `_The terminal should send ×100-scaled percents (e.g. -4.2); a value this large is most likely ` +
+    `a double-multiply upstream. Reports and answers that need this endpoint are failing until it is fixed. ` +
+    `Recovery will be posted in this thread._`
+  );
+}
+
+export function buildUnitsIncidentRepeatText(incident: UnitsIncident, trip: UnitsGuardError, now: Date = new Date()): string {
+  return (
+    `Still failing after ${formatDuration(now.getTime() - Date.parse(incident.openedAt))} ` +
+    `(${incident.occurrences + 1} trips): \`${trip.field}\` = ${trip.value}`
+  );
+}
+
+export function buildUnitsIncidentRecoveryText(incident: UnitsIncident, now: Date = new Date()): string {
+  return (
+    `:white_check_mark: *Recovered — ${incident.context}* \`${incident.endpoint}\` passed the units check again ` +
+    `at ${formatTimeCT(now)} CT, after ${formatDuration(now.getTime() - Date.parse(incident.openedAt))} ` +
+    `and ${incident.occurrences} trip${incident.occurrences === 1 ? '' : 's'}.`
+  );
+}
+
+// Context line appended to a daily report updated in place by a re-run.
+export function createReportUpdatedBlock(now: Date = new Date()) {
+  return createContextBlock([`_Updated ${formatTimeCT(now)} CT_`]);
+}
+
+// Threaded under an updated daily report: which figures the re-run changed.
+export function buildReportUpdateNoteText(changes: FigureChange[], now: Date = new Date()): string {
+  const lines = changes.map((c) => {
+    if (c.to === null) return `• ${c.label}: ${c.from} → _dropped_`;
+    if (c.from === null) return `• ${c.label}: _new_ ${c.to}`;
+    return `• ${c.label}: ${c.from} → *${c.to}*`;
+  });
+  return `:pencil2: *Updated ${formatTimeCT(now)} CT* — ${changes.length} figure${changes.length === 1 ? '' : 's'} changed:\n${lines.join('\n')}`;
+}
+
+// Ops page from the report watchdog: an expected daily report never posted.
+export function buildMissingReportAlertText(reports: ExpectedReport[], now: Date = new Date()): string {
+  const lines = reports.map(
+    (r) =>
+      `• *${REPORT_LABELS[r.type]}* for ${shortDayLabel(r.date)} — due ${formatTimeCT(r.expectedAt)} CT, ` +
+      `no post after ${formatDuration(now.getTime() - r.expectedAt.getTime())}`
+  );
+  return (
+    `:rotating_light: *MISSING DAILY REPORT${reports.length > 1 ? 'S' : ''}*\n` +
+    `${lines.join('\n')}\n` +
+    `_Check the Vercel cron logs; if the run never happened, post it manually with \`run-*-report.ts\`._`
+  );
+}
+
+// On-chain values in the same units as the morning ON-CHAIN BRIEF.
+function formatRegimeValue(metric: OnChainRegimeMetric, value: number): string {
+  switch (metric) {
+    case 'fearGreed':
+      return String(value);
+    case 'mvrv':
+      return value.toFixed(2);
+    case 'nupl':
+      return `${value}%`;
+    case 'fundingRate':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(4)}%`;
+  }
+}
+
+export function buildOnChainRegimeAlertText(changes: OnChainRegimeChange[], now: Date = new Date()): string {
+  const lines = changes.map((c) => {
+    const transition = c.from === c.to
+      ? `flipped ${c.value < 0 ? 'negative' : 'positive'} _(still ${c.to})_`
+      : `${c.from} → *${c.to}*`;
+    return (
+      `• *${c.label}:* ${transition} — ${formatRegimeValue(c.metric, c.previousValue)} → ` +
+      `${formatRegimeValue(c.metric, c.value)} · prior regime lasted ${formatDuration(c.priorDurationMs)}`
+    );
+  });
+  return `:satellite_antenna: *On-chain regime change${changes.length > 1 ? 's' : ''} as of ${formatTimeCT(now)} CT*\n${lines.join('\n')}`;
+}
+
+// DM sent when one of a user's alert rules fires.
+export function buildUserAlertFiredText({ rule, value }: AlertEvaluation, now: Date = new Date()): string {
+  return (
+    `:bell: *Alert #${rule.id}:* ${describeAlertSubject(rule)} is ${formatAlertValue(rule.metric, value)} ` +
+    `— now ${rule.operator} your ${formatAlertValue(rule.metric, rule.threshold)} threshold ` +
+    `(as of ${formatTimeCT(now)} CT)\n` +
+    `_This alert stays on and fires again the next time it crosses. Say "delete alert ${rule.id}" to remove it._`
+  );
+}
+
+export function buildUserAlertListText(rules: UserAlertRule[]): string {
+  if (rules.length === 0) {
+    return 'You have no alerts set up. Try "alert me if MSTR diluted mNAV drops below 1.2".';
+  }
+  const lines = rules.map((r) => {
+    const fired = r.triggerCount > 0 ? ` · fired ${r.triggerCount}×` : '';
+    return `• *#${r.id}* ${describeAlertRule(r)}${fired}`;
+  });
+  return (
+    `*Your alerts (${rules.length}/${MAX_ALERTS_PER_USER})*\n` +
+    lines.join('\n') +
+    '\n_Say "delete alert <number>" to remove one._'
+  );
+}
+
+function morningTemplateData(brief: MorningBrief, onChainMetrics: OnChainMetrics | null, now: Date): TemplateData {
+  const fields: Record<MorningField, string | null> = {
+    btcPrice: fmtUsd(brief.btc.priceUsd),
+    aum: fmtUsd(brief.fund.aumUsd),
+    fundMtd: fmtPct(brief.fund.mtdPct),
+    fundYtd: fmtPct(brief.fund.ytdPct),
+    btcMtd: fmtPct(brief.btcMtdPct),
+    btcYtd: fmtPct(brief.btcYtdPct),
+    cash: fmtUsd(brief.fund.cashUsd),
+  };
+  return { fields, btcPriceUsd: brief.btc.priceUsd, onChainMetrics, now };
+}
+
+export function buildMorningReportBlocks(
+  brief: MorningBrief,
+  onChainMetrics: OnChainMetrics | null,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATES.morning,
+  now: Date = new Date()
+) {
+  return renderSections(template.post, morningTemplateData(brief, onChainMetrics, now));
+}
+
+/** Threaded replies under the morning post; none in the default template. */
+export function buildMorningReportReplies(
+  brief: MorningBrief,
+  onChainMetrics: OnChainMetrics | null,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATES.morning,
+  now: Date = new Date()
+): ThreadReply[] {
+  return renderThread(template, morningTemplateData(brief, onChainMetrics, now));
+}
 
-    // BTC PRICE
-    createSectionBlock(`*BTC:* ${fmtUsd(brief.btc.priceUsd)}`),
+// Optional risk/return section shared by the weekly and monthly reports.
+function createRiskSection(stats: PerformanceStats) {
+  return createSectionBlock(
+    `*RISK VS BTC*\n\n` +
+    `Volatility (ann.): ${fmtRatio(stats.volatility)}% _(BTC ${fmtRatio(stats.btcVolatility)}%)_\n` +
+    `Sharpe: ${fmtRatio(stats.sharpeRatio)} | Sortino: ${fmtRatio(stats.sortinoRatio)}\n` +
+    `Beta vs BTC: ${fmtRatio(stats.beta)} | Correlation: ${fmtRatio(stats.correlation)}\n` +
+    `Alpha vs BTC (ann.): ${fmtPct(stats.alpha)}\n` +
+    `_${stats.observations} daily returns, ${stats.from} – ${stats.to}, risk-free ${stats.riskFreeRatePct}%_`
+  );
+}
+
+export function buildWeeklyReportBlocks(
+  summary: WeeklySummary,
+  performance: PerformanceStats | null = null,
+  now: Date = new Date()
+) {
+  const timeStr = formatTimeCT(now);
+  const range = `${shortDayLabel(summary.weekStart)} – ${shortDayLabel(summary.weekEnd)}`;
+
+  const dayLine = (label: string, d: WeeklySummary['bestDay']) =>
+    d ? `${label}: ${shortDayLabel(d.date)}  ${fmtPct(d.fund1dPct)}\n` : '';
+
+  const blocks: KnownBlock[] = [
+    createHeaderBlock('WEEKLY REPORT'),
+    createSectionBlock(`*${range}* | ${timeStr} CT`),
     createDividerBlock(),
 
-    // 210K BRIEF
+    // WEEK TO DATE
     createSectionBlock(
-      `*210K BRIEF*\n\n` +
-      `AUM: ${fmtUsd(brief.fund.aumUsd)}\n` +
-      `Fund 1D: ${fmtPct(brief.fund.change1dPct)}\n` +
-      `Fund YTD: ${fmtPct(brief.fund.ytdPct)}\n` +
-      `BTC 1D: ${fmtPct(brief.btc.change1dPct)}\n` +
-      `BTC YTD: ${fmtPct(brief.btcYtdPct)}\n\n` +
-      `*Top Holdings (1D):*\n${holdings}${footnote}`
+      `*WEEK TO DATE*\n\n` +
+      `AUM: ${fmtUsd(summary.aumEndUsd)} _(${shortDayLabel(summary.weekStart)} close ${fmtUsd(summary.aumStartUsd)})_\n` +
+      `Fund WTD: ${fmtPct(summary.fundWtdPct)}\n` +
+      `BTC WTD: ${fmtPct(summary.btcWtdPct)}\n` +
+      `Alpha: ${fmtPct(summary.alphaPct)}\n` +
+      dayLine('Best day', summary.bestDay) +
+      dayLine('Worst day', summary.worstDay)
     ),
     createDividerBlock(),
   ];
 
-  // ON-CHAIN BRIEF (skip cleanly if upstream API failed)
-  if (onChainMetrics && brief.btc.priceUsd !== null) {
-    blocks.push(
-      createSectionBlock(
-        `*ON-CHAIN BRIEF*\n\n${formatOnChainBrief(onChainMetrics, brief.btc.priceUsd)}`
-      ),
-      createDividerBlock()
-    );
+  // HOLDING MOVERS
+  const movers = summary.holdingMovers.length > 0
+    ? summary.holdingMovers
+        .map((m, i) => `${i + 1}. ${holdingDisplayName(m)}  ${fmtPct(m.wtdPct)}`)
+        .join('\n')
+    : '_No holdings data_';
+  blocks.push(createSectionBlock(`*BIGGEST HOLDING MOVERS (WTD)*\n\n${movers}`), createDividerBlock());
+
+  // ON-CHAIN REGIME (skip if no stored on-chain data this week)
+  if (summary.regimeChanges.length > 0) {
+    const lines = summary.regimeChanges.map((r) => {
+      if (!r.from || !r.to) {
+        return `${r.label}: ${r.to?.regime ?? r.from?.regime ?? 'N/A'}  _(only one reading this week)_`;
+      }
+      return r.changed
+        ? `${r.label}: ${r.from.regime} → *${r.to.regime}*`
+        : `${r.label}: ${r.to.regime}  _(unchanged)_`;
+    });
+    blocks.push(createSectionBlock(`*ON-CHAIN REGIME (since ${shortDayLabel(summary.weekStart)})*\n\n${lines.join('\n')}`), createDividerBlock());
+  }
+
+  // RISK (skip if there isn't enough stored history yet)
+  if (performance) {
+    blocks.push(createRiskSection(performance), createDividerBlock());
   }
 
-  blocks.push(createSectionBlock('_See you tomorrow_'));
+  blocks.push(
+    createContextBlock([
+      `Compounded from ${summary.daysStored} stored EOD snapshot${summary.daysStored === 1 ? '' : 's'} this week`,
+    ])
+  );
 
   return blocks;
 }
 
-export function buildMorningReportBlocks(
-  brief: MorningBrief,
-  onChainMetrics: OnChainMetrics | null,
+// 'YYYY-MM' → 'Jan 2026'
+function monthLabel(monthKey: string, formatStr: string = 'MMM yyyy'): string {
+  return formatDateCT(new Date(`${monthKey}-15T12:00:00Z`), formatStr);
+}
+
+export function buildMonthlyReportBlocks(
+  summary: MonthlySummary,
+  performance: PerformanceStats | null = null,
   now: Date = new Date()
 ) {
   const dateStr = formatDateCT(now);
-  const timeStr = formatTimeCT(now);
+  const year = summary.month.slice(0, 4);
+  const closed = summary.closed;
+
+  const closedText = closed
+    ? `Fund: ${fmtPct(closed.fundReturn)}\n` +
+      `BTC: ${fmtPct(closed.btcReturn)}\n` +
+      `Alpha: ${fmtPct(closed.alpha)}`
+    : '_No stored morning brief for this month_';
 
-  const blocks: any[] = [
-    createHeaderBlock('GOOD MORNING'),
-    createSectionBlock(`*${dateStr}* | ${timeStr} CT`),
+  // Code block keeps the table columns aligned in Slack.
+  const table = summary.trailing.length > 0
+    ? '```\n' +
+      `${'Month'.padEnd(10)}${'Fund'.padStart(10)}${'BTC'.padStart(10)}${'Alpha'.padStart(10)}\n` +
+      summary.trailing
+        .map((r) =>
+          `${monthLabel(r.month).padEnd(10)}${fmtPct(r.fundReturn).padStart(10)}` +
+          `${fmtPct(r.btcReturn).padStart(10)}${fmtPct(r.alpha).padStart(10)}`
+        )
+        .join('\n') +
+      '\n```'
+    : '_No stored months_';
+
+  const blocks: KnownBlock[] = [
+    createHeaderBlock('MONTH-END REPORT'),
+    createSectionBlock(`*${monthLabel(summary.month, 'MMMM yyyy')}* | ${dateStr}`),
+    createDividerBlock(),
+
+    // CLOSED MONTH
+    createSectionBlock(`*${monthLabel(summary.month, 'MMMM').toUpperCase()} RETURN*\n\n${closedText}`),
     createDividerBlock(),
 
-    // BTC PRICE
-    createSectionBlock(`*BTC:* ${fmtUsd(brief.btc.priceUsd)}`),
+    // YTD
+    createSectionBlock(
+      `*${year} YTD*\n\n` +
+      `Fund YTD: ${fmtPct(summary.ytdFundPct)}\n` +
+      `BTC YTD: ${fmtPct(summary.ytdBtcPct)}\n` +
+      `Alpha: ${fmtPct(summary.ytdAlphaPct)}`
+    ),
     createDividerBlock(),
+
+    // TRAILING 12 MONTHS
+    createSectionBlock(`*TRAILING 12 MONTHS*\n\n${table}`),
   ];
 
-  // ON-CHAIN BRIEF (skip cleanly if upstream API failed)
-  if (onChainMetrics && brief.btc.priceUsd !== null) {
-    blocks.push(
-      createSectionBlock(
-        `*ON-CHAIN BRIEF*\n\n${formatOnChainBrief(onChainMetrics, brief.btc.priceUsd)}`
-      ),
-      createDividerBlock()
-    );
+  // RISK (skip if there isn't enough stored history yet)
+  if (performance) {
+    blocks.push(createDividerBlock(), createRiskSection(performance));
   }
 
-  // FUND BRIEF
   blocks.push(
-    createSectionBlock(
-      `*FUND BRIEF*\n\n` +
-      `AUM: ${fmtUsd(brief.fund.aumUsd)}\n` +
-      `Fund MTD: ${fmtPct(brief.fund.mtdPct)}\n` +
-      `Fund YTD: ${fmtPct(brief.fund.ytdPct)}\n` +
-      `BTC MTD: ${fmtPct(brief.btcMtdPct)}\n` +
-      `BTC YTD: ${fmtPct(brief.btcYtdPct)}\n` +
-      `Cash: ${fmtUsd(brief.fund.cashUsd)}`
-    )
+    createContextBlock([
+      `Month returns from stored morning-brief MTD, closed out with stored EOD 1D returns. ` +
+      `YTD compounded from ${summary.ytdMonths} stored month${summary.ytdMonths === 1 ? '' : 's'}.`,
+    ])
   );
 
   return blocks;
 }
 
-export function createHeaderBlock(text: string) {
+export function createHeaderBlock(text: string): HeaderBlock {
   return {
     type: 'header',
     text: {
@@ -147,7 +636,7 @@ export function createHeaderBlock(text: string) {
   };
 }
 
-export function createSectionBlock(text: string) {
+export function createSectionBlock(text: string): SectionBlock {
   return {
     type: 'section',
     text: {
@@ -157,13 +646,13 @@ export function createSectionBlock(text: string) {
   };
 }
 
-export function createDividerBlock() {
+export function createDividerBlock(): DividerBlock {
   return {
     type: 'divider',
   };
 }
 
-export function createContextBlock(elements: string[]) {
+export function createContextBlock(elements: string[]): ContextBlock {
   return {
     type: 'context',
     elements: elements.map((text) => ({
@@ -20,16 +20,22 @@ export async function postMessage(
   options?: {
     blocks?: (Block | KnownBlock)[];
     thread_ts?: string;
+    reply_broadcast?: boolean; // also show a thread reply in the channel
   }
 ) {
   const client = getSlackClient();
 
+  // reply_broadcast is only valid alongside thread_ts.
+  const thread = options?.thread_ts
+    ? { thread_ts: options.thread_ts, reply_broadcast: options.reply_broadcast ?? false }
+    : {};
+
   try {
     const result = await client.chat.postMessage({
       channel,
       text,
       blocks: options?.blocks,
-      thread_ts: options?.thread_ts,
+      ...thread,
     });
 
     return result;
@@ -39,6 +45,32 @@ export async function postMessage(
   }
 }
 
+/** Replace a message the bot posted (chat.update). */
+export async function updateMessage(
+  channel: string,
+  ts: string,
+  text: string,
+  options?: {
+    blocks?: (Block | KnownBlock)[];
+  }
+) {
+  const client = getSlackClient();
+
+  try {
+    const result = await client.chat.update({
+      channel,
+      ts,
+      text,
+      blocks: options?.blocks,
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error updating Slack message:', error);
+    throw error;
+  }
+}
+
 export async function postEphemeral(
   channel: string,
   user: string,
@@ -0,0 +1,122 @@
+// Idempotent posting for the morning and EOD reports. The first run of the day
+// posts and records the message (lib/supabase/report-posts.ts); a re-run — a
+// retried cron or a manual run after a data correction — updates that message
+// in place with an "Updated" line and threads a note naming the figures that
+// changed, instead of posting a second report.
+//
+// A report can carry threaded detail replies (the EOD holdings, on-chain brief
+// and BTCTC movers). Their ts is recorded by section key, so a re-run edits the
+// same replies; a section that wasn't there the first time is threaded then.
+// Replies are best-effort: the headline post stands on its own.
+//
+// The post log is best-effort: if it can't be read, the report posts fresh
+// rather than not at all. An update that Slack rejects (e.g. the message was
+// deleted) also falls back to a fresh post.
+
+import type { Block, KnownBlock } from '@slack/web-api';
+import { postMessage, updateMessage } from './client';
+import { buildReportUpdateNoteText, createReportUpdatedBlock, type ThreadReply } from './blocks';
+import { diffReportFigures, type FigureChange, type ReportFigures } from '../analytics/report-figures';
+import type { ReportType } from '../analytics/report-watchdog';
+import { getReportPost, recordReportPost, recordReportUpdate } from '../supabase/report-posts';
+
+export interface DailyReportPublish {
+  ts: string | null;
+  updated: boolean; // an earlier post was updated in place
+  repost: boolean; // the post log already had the day's report, whether or not the update went through
+  changes: FigureChange[];
+}
+
+const warn = (what: string) => (err: unknown) => {
+  console.warn(`[Reports] Failed to ${what}:`, err instanceof Error ? err.message : err);
+};
+
+/**
+ * Thread `replies` under the post at `ts`, editing the ones already posted
+ * (`existing`, by key). Returns the ts of every reply that went out.
+ */
+async function threadReplies(
+  channel: string,
+  ts: string,
+  replies: ThreadReply[],
+  existing: Record<string, string> = {}
+): Promise<Record<string, string>> {
+  const replyTs: Record<string, string> = {};
+  for (const reply of replies) {
+    const earlier = existing[reply.key];
+    if (earlier) {
+      const edited = await updateMessage(channel, earlier, reply.text, { blocks: reply.blocks })
+        .then(() => true)
+        .catch((err) => {
+          warn(`update the ${reply.key} reply, threading it again`)(err);
+          return false;
+        });
+      if (edited) {
+        replyTs[reply.key] = earlier;
+        continue;
+      }
+    }
+
+    const posted = await postMessage(channel, reply.text, { blocks: reply.blocks, thread_ts: ts })
+      .catch(warn(`thread the ${reply.key} reply`));
+    if (posted?.ts) replyTs[reply.key] = posted.ts;
+  }
+  return replyTs;
+}
+
+/** Post a report and thread its replies, without the post log (test channel, dry runs). */
+export async function postReportThread(
+  channel: string,
+  text: string,
+  blocks: (Block | KnownBlock)[],
+  replies: ThreadReply[] = []
+): Promise<string | null> {
+  const posted = await postMessage(channel, text, { blocks });
+  if (posted.ts) await threadReplies(channel, posted.ts, replies);
+  return posted.ts ?? null;
+}
+
+export async function publishDailyReport(
+  type: ReportType,
+  date: string,
+  channel: string,
+  text: string,
+  blocks: (Block | KnownBlock)[],
+  figures: ReportFigures,
+  replies: ThreadReply[] = [],
+  now: Date = new Date()
+): Promise<DailyReportPublish> {
+  const existing = await getReportPost(type, date).catch((err) => {
+    warn('read the report post log')(err);
+    return null;
+  });
+
+  if (existing?.messageTs && existing.channel === channel) {
+    const ts = existing.messageTs;
+    const updated = await updateMessage(channel, ts, text, { blocks: [...blocks, createReportUpdatedBlock(now)] })
+      .then(() => true)
+      .catch((err) => {
+        warn(`update the ${type} report, posting it fresh`)(err);
+        return false;
+      });
+
+    if (updated) {
+      // A section missing this time keeps its earlier reply rather than losing its ts.
+      const replyTs = { ...existing.replyTs, ...(await threadReplies(channel, ts, replies, existing.replyTs)) };
+      const changes = existing.figures ? diffReportFigures(existing.figures, figures) : [];
+      if (changes.length > 0) {
+        await postMessage(channel, buildReportUpdateNoteText(changes, now), { thread_ts: ts })
+          .catch(warn('thread the update note'));
+      }
+      await recordReportUpdate(type, date, existing, figures, replyTs).catch(warn('record the report update'));
+      console.log(`[Reports] Updated the ${type} report for ${date} in place (${changes.length} figure(s) changed)`);
+      return { ts, updated: true, repost: true, changes };
+    }
+  }
+
+  const posted = await postMessage(channel, text, { blocks });
+  const ts = posted.ts ?? null;
+  const replyTs = ts ? await threadReplies(channel, ts, replies) : {};
+  await recordReportPost(type, date, channel, ts, figures, replyTs).catch(warn('record the report post'));
+  return { ts, updated: false, repost: !!existing, changes: [] };
+}
@@ -0,0 +1,68 @@
+// Units-guard incident reporting. Entry points that fetch terminal data (the
+// report crons, the Slack handler) pass their run's UnitsGuardOutcomes to the
+// fetchers and then to reportUnitsGuardIncidents(): it drains them, opens an
+// incident in the ops channel for a new trip, threads a reminder onto an open
+// one after the repeat window, and posts the recovery when the endpoint passes
+// again. Best-effort throughout — reporting must never fail the caller.
+
+import { config } from '../config';
+import { postMessage } from './client';
+import { buildUnitsIncidentRecoveryText, buildUnitsIncidentRepeatText, buildUnitsIncidentText } from './blocks';
+import type { UnitsGuardOutcomes } from '../terminal/client';
+import { getUnitsIncidentRepeatMs, planUnitsIncidents } from '../terminal/units-incidents';
+import { isSupabaseConfigured } from '../supabase/client';
+import {
+  getOpenUnitsIncidents,
+  openUnitsIncident,
+  recordUnitsIncidentRepeat,
+  resolveUnitsIncident,
+} from '../supabase/units-incidents';
+
+export async function reportUnitsGuardIncidents(guard: UnitsGuardOutcomes): Promise<void> {
+  const outcomes = guard.drain();
+  if (outcomes.length === 0 || !isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const now = new Date();
+    const open = await getOpenUnitsIncidents(outcomes.map((o) => o.endpoint));
+    const actions = planUnitsIncidents(outcomes, open, now, getUnitsIncidentRepeatMs());
+
+    for (const action of actions) {
+      switch (action.kind) {
+        case 'open': {
+          const channel = config.channels.opsAlertsId;
+          const posted = await postMessage(channel, buildUnitsIncidentText(action.endpoint, action.error, now));
+          await openUnitsIncident(action.endpoint, action.error, { channel, messageTs: posted.ts ?? null });
+          console.log(`[Incidents] Opened units incident for ${action.endpoint}`);
+          break;
+        }
+        case 'repeat': {
+          const { incident } = action;
+          if (action.post && incident.channel) {
+            await postMessage(incident.channel, buildUnitsIncidentRepeatText(incident, action.error, now), {
+              ...(incident.messageTs ? { thread_ts: incident.messageTs } : {}),
+            });
+          }
+          await recordUnitsIncidentRepeat(incident, action.error, action.post);
+          break;
+        }
+        case 'resolve': {
+          const { incident } = action;
+          if (incident.channel) {
+            await postMessage(incident.channel, buildUnitsIncidentRecoveryText(incident, now), {
+              ...(incident.messageTs ? { thread_ts: incident.messageTs } : {}),
+              reply_broadcast: true,
+            });
+          }
+          await resolveUnitsIncident(incident);
+          console.log(`[Incidents] Resolved units incident for ${incident.endpoint}`);
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('[Incidents] Failed to report units guard incidents:', error);
+  }
+}
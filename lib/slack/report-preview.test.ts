@@ -0,0 +1,62 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  SAMPLE_BRIEF,
+  SAMPLE_BTCTC_MOVERS,
+  buildReportPreview,
+  getDryRunOptions,
+  renderBlocksAsText,
+} from './report-preview';
+import {
+  buildEodReportBlocks,
+  buildEodReportReplies,
+  createContextBlock,
+  createDividerBlock,
+  createHeaderBlock,
+  createSectionBlock,
+} from './blocks';
+
+describe('getDryRunOptions', () => {
+  test('reads dryRun, fixture and post=test', () => {
+    expect(getDryRunOptions({ dryRun: '1', fixture: 'true', post: 'test' })).toEqual({
+      enabled: true,
+      fixture: true,
+      postToTest: true,
+    });
+  });
+
+  test('fixture and post are ignored without dryRun', () => {
+    expect(getDryRunOptions({ fixture: '1', post: 'test' })).toEqual({ enabled: false, fixture: false, postToTest: false });
+  });
+});
+
+describe('renderBlocksAsText', () => {
+  test('renders headers, sections, dividers and context lines in order', () => {
+    const text = renderBlocksAsText([
+      createHeaderBlock('210K BRIEF'),
+      createSectionBlock('*AUM:* $96,000,000'),
+      createDividerBlock(),
+      createContextBlock(['Source: terminal', 'as of 7:00 PM CT']),
+    ]);
+    expect(text).toBe('=== 210K BRIEF ===\n\n*AUM:* $96,000,000\n\n---\n\nSource: terminal · as of 7:00 PM CT');
+  });
+});
+
+describe('buildReportPreview', () => {
+  test('the fixture EOD preview renders every holding marker', () => {
+    const blocks = buildEodReportBlocks(SAMPLE_BRIEF);
+    const replies = buildEodReportReplies(SAMPLE_BRIEF, null, null, new Map(), null, SAMPLE_BTCTC_MOVERS);
+    const options = { enabled: true, fixture: true, postToTest: false };
+    const preview = buildReportPreview('eod', options, 'fallback', blocks, null, replies);
+    expect(preview).toMatchObject({ report: 'eod', source: 'fixture', postedTo: null, blocks, replies });
+    expect(preview.rendered).toContain('3. Moon Inc  +0.00%*');
+    expect(preview.rendered).toContain('no recent quote†');
+  });
+
+  test('renders threaded replies after the post, each under its key', () => {
+    const replies = buildEodReportReplies(SAMPLE_BRIEF, null, null, new Map(), null, SAMPLE_BTCTC_MOVERS);
+    const options = { enabled: true, fixture: true, postToTest: false };
+    const { rendered } = buildReportPreview('eod', options, 'fallback', buildEodReportBlocks(SAMPLE_BRIEF), null, replies);
+    expect(rendered.indexOf('See you tomorrow')).toBeLessThan(rendered.indexOf('>>> thread: brief'));
+    expect(rendered.indexOf('>>> thread: brief')).toBeLessThan(rendered.indexOf('>>> thread: btctc-movers'));
+  });
+});
@@ -0,0 +1,140 @@
+// Dry-run support for the daily reports: render a report without posting it.
+//
+// The morning and EOD cron handlers accept `?dryRun=1` and the run-*-report.ts
+// scripts `--dry-run`: the report is built as usual, from live terminal data or
+// the fixtures below (`fixture=1` / `--fixture`), and returned as Block Kit JSON
+// plus a plain-text rendering, threaded replies included. `post=test` /
+// `--test` also posts it to the test channel. Nothing is persisted and no
+// alerts fire.
+
+import type { Brief } from '../terminal/brief';
+import type { MorningBrief } from '../terminal/morning-brief';
+import type { OnChainMetrics } from '../external/bitcoin-magazine-pro';
+import type { DailySnapshot } from '../supabase/client';
+import type { ThreadReply } from './blocks';
+import type { BtctcMovers } from '../analytics/btctc-movers';
+
+export interface DryRunOptions {
+  enabled: boolean;
+  fixture: boolean; // render the sample data below instead of fetching
+  postToTest: boolean;
+}
+
+export interface ReportPreview {
+  report: 'morning' | 'eod';
+  source: 'live' | 'fixture';
+  text: string; // the notification fallback text
+  rendered: string;
+  blocks: unknown[];
+  replies: ThreadReply[];
+  postedTo: string | null;
+}
+
+// Representative payloads covering every marker the reports render: a flat
+// holding (*), a holding with no quote, and a triple-digit YTD.
+export const SAMPLE_MORNING_BRIEF: MorningBrief = {
+  asOf: '2026-06-22T14:00:00.000Z',
+  btc: { priceUsd: 64414.64 },
+  fund: { aumUsd: 94638882.15, mtdPct: -4.2, ytdPct: -16.18, cashUsd: 4366855 },
+  btcMtdPct: -12.54,
+  btcYtdPct: 137.02,
+};
+
+export const SAMPLE_BRIEF: Brief = {
+  asOf: '2026-06-22T20:00:00.000Z',
+  btc: { priceUsd: 64414.64, change1dPct: 1.86 },
+  fund: { aumUsd: 96000000, change1dPct: -0.1, ytdPct: -16.18, asOfDate: '2026-06-22' },
+  topHoldings: [
+    { name: 'Astra Enterprise Public Company Limited', ticker: 'ASTR', weightPercent: 28.78, change1dPct: -1.64 },
+    { name: 'The Smarter Web Company PLC', ticker: 'SWC', weightPercent: 15.95, change1dPct: -4.88 },
+    { name: 'Moon Inc', ticker: '1723', weightPercent: 15.15, change1dPct: 0 },
+    { name: 'DV8 Public Company Limited', ticker: 'DV8', weightPercent: 4.1, change1dPct: null },
+  ],
+  btcYtdPct: 137.02,
+};
+
+// The morning snapshot behind the EOD "since this morning" line.
+export const SAMPLE_MORNING_SNAPSHOT: DailySnapshot = {
+  date: '2026-06-22',
+  morning_aum: 94638882.15,
+  morning_btc_price: 63218.4,
+};
+
+export const SAMPLE_BTCTC_MOVERS: BtctcMovers = {
+  gainers: [
+    { company: 'Strategy', ticker: 'MSTR', changePercent: 4.12, price: 318.5, mNAV: 1.42 },
+    { company: 'Metaplanet', ticker: 'MTPLF', changePercent: 2.87, price: 6.1, mNAV: null },
+  ],
+  losers: [
+    { company: 'Semler Scientific', ticker: 'SMLR', changePercent: -3.35, price: 27.4, mNAV: 0.91 },
+  ],
+};
+
+export const SAMPLE_ON_CHAIN_METRICS: OnChainMetrics = {
+  fearGreed: { value: 38, classification: 'Fear' },
+  mvrv: { value: 1.84, classification: 'Neutral' },
+  nupl: { value: 42, classification: 'Belief' },
+  fundingRate: { value: -0.0042, sentiment: 'Bearish' },
+  movingAverage1Y: { price: 71250 },
+  movingAverage200W: { price: 48900 },
+};
+
+function flag(value: string | string[] | undefined): boolean {
+  const v = Array.isArray(value) ? value[0] : value;
+  return v === '1' || v === 'true';
+}
+
+/** Dry-run options from a cron request's query string. */
+export function getDryRunOptions(query: Record<string, string | string[] | undefined>): DryRunOptions {
+  // fixture/post only apply to a dry run: neither may reach a real post.
+  const enabled = flag(query.dryRun);
+  const post = Array.isArray(query.post) ? query.post[0] : query.post;
+  return { enabled, fixture: enabled && flag(query.fixture), postToTest: enabled && post === 'test' };
+}
+
+export function buildReportPreview(
+  report: ReportPreview['report'],
+  options: DryRunOptions,
+  text: string,
+  blocks: unknown[],
+  postedTo: string | null,
+  replies: ThreadReply[] = []
+): ReportPreview {
+  return {
+    report,
+    source: options.fixture ? 'fixture' : 'live',
+    text,
+    rendered: [
+      renderBlocksAsText(blocks),
+      ...replies.map((r) => `>>> thread: ${r.key}\n\n${renderBlocksAsText(r.blocks)}`),
+    ].join('\n\n'),
+    blocks,
+    replies,
+    postedTo,
+  };
+}
+
+interface PreviewBlock {
+  type: string;
+  text?: { text: string };
+  fields?: Array<{ text: string }>;
+  elements?: Array<{ text: string }>;
+}
+
+/** Plain-text rendering of report blocks; mrkdwn is kept as-is. */
+export function renderBlocksAsText(blocks: unknown[]): string {
+  return (blocks as PreviewBlock[])
+    .map((block) => {
+      switch (block.type) {
+        case 'header':
+          return `=== ${block.text?.text ?? ''} ===`;
+        case 'divider':
+          return '---';
+        case 'context':
+          return (block.elements ?? []).map((e) => e.text).join(' · ');
+        default:
+          return [block.text?.text, ...(block.fields ?? []).map((f) => f.text)].filter(Boolean).join('\n');
+      }
+    })
+    .join('\n\n');
+}
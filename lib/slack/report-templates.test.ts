@@ -0,0 +1,97 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_REPORT_TEMPLATES,
+  loadReportTemplates,
+  validateReportTemplates,
+} from './report-templates';
+
+const minimal = (sections: unknown[]) => ({ post: sections, thread: [] });
+
+describe('validateReportTemplates', () => {
+  test('the shipped templates are valid', () => {
+    expect(DEFAULT_REPORT_TEMPLATES.morning.post[0]).toEqual({ type: 'header', text: 'GOOD MORNING' });
+    expect(DEFAULT_REPORT_TEMPLATES.eod.thread.map((r) => r.key)).toEqual(['brief', 'on-chain', 'btctc-movers']);
+  });
+
+  test('lists every problem with its path', () => {
+    const raw = {
+      morning: minimal([{ type: 'headline', field: 'fund1d', label: 'Day' }, { type: 'banner' }]),
+      eod: {
+        post: [{ type: 'header', text: '' }],
+        thread: [
+          { key: 'brief', text: 'A', sections: [{ type: 'divider' }] },
+          { key: 'brief', text: 'B', sections: [{ type: 'divider' }] },
+        ],
+      },
+    };
+    expect(() => validateReportTemplates(raw, 'test.json')).toThrow(
+      'Invalid report templates in test.json:\n' +
+      '- morning.post[0].field: unknown morning field "fund1d" (one of btcPrice, aum, fundMtd, fundYtd, btcMtd, btcYtd, cash)\n' +
+      '- morning.post[1].type: unknown section type "banner"\n' +
+      '- eod.post[0].text: expected a non-empty string\n' +
+      '- eod.thread[1].key: duplicate reply key "brief"'
+    );
+  });
+
+  test('EOD-only sections are rejected in the morning report', () => {
+    const raw = { morning: minimal([{ type: 'drawdown', title: 'DRAWDOWN' }]) };
+    expect(() => validateReportTemplates(raw, 'test.json', DEFAULT_REPORT_TEMPLATES)).toThrow(
+      'morning.post[0]: "drawdown" is only available in the EOD report'
+    );
+  });
+
+  test('checks the holdings markers and flat threshold', () => {
+    const holdings = { title: 'H', flat: { marker: '*', note: 'flat', maxAbsPct: -1 }, stale: { marker: '†' }, closed: {} };
+    const raw = { eod: minimal([{ type: 'fields', title: 'F', fields: [{ field: 'aum', label: 'AUM' }], holdings }]) };
+    expect(() => validateReportTemplates(raw, 'test.json', DEFAULT_REPORT_TEMPLATES)).toThrow(
+      '- eod.post[0].holdings.flat.maxAbsPct: expected a number ≥ 0\n' +
+      '- eod.post[0].holdings.stale.note: expected a non-empty string\n' +
+      '- eod.post[0].holdings.closed.marker: expected a non-empty string'
+    );
+  });
+
+  test('a report left out keeps the fallback; without one it is an error', () => {
+    const eod = minimal([{ type: 'header', text: 'EVENING' }]);
+    const templates = validateReportTemplates({ eod }, 'test.json', DEFAULT_REPORT_TEMPLATES);
+    expect(templates.eod).toEqual(eod);
+    expect(templates.morning).toBe(DEFAULT_REPORT_TEMPLATES.morning);
+    expect(() => validateReportTemplates({ eod }, 'test.json')).toThrow('morning: expected an object with post and thread');
+  });
+
+  test('unknown report names are rejected', () => {
+    expect(() => validateReportTemplates({ weekly: minimal([]) }, 'test.json', DEFAULT_REPORT_TEMPLATES)).toThrow(
+      'weekly: unknown report (expected "morning" or "eod")'
+    );
+  });
+});
+
+describe('loadReportTemplates', () => {
+  afterEach(() => {
+    delete process.env.REPORT_TEMPLATES_PATH;
+  });
+
+  const writeTemplates = (contents: string): string => {
+    const path = join(mkdtempSync(join(tmpdir(), 'report-templates-')), 'templates.json');
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  test('defaults to the shipped templates', () => {
+    expect(loadReportTemplates()).toBe(DEFAULT_REPORT_TEMPLATES);
+  });
+
+  test('reads overrides from REPORT_TEMPLATES_PATH', () => {
+    process.env.REPORT_TEMPLATES_PATH = writeTemplates(JSON.stringify({ morning: minimal([{ type: 'header', text: 'GM' }]) }));
+    const templates = loadReportTemplates();
+    expect(templates.morning.post).toEqual([{ type: 'header', text: 'GM' }]);
+    expect(templates.eod).toBe(DEFAULT_REPORT_TEMPLATES.eod);
+  });
+
+  test('an unreadable file fails loudly', () => {
+    process.env.REPORT_TEMPLATES_PATH = writeTemplates('{ not json');
+    expect(() => loadReportTemplates()).toThrow('could not be read as JSON');
+  });
+});
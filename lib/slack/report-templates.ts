@@ -0,0 +1,248 @@
+// Declarative layouts for the morning and EOD reports.
+//
+// A template lists the sections of the channel post and of each threaded reply,
+// in order: which figures appear, their labels, and the holdings footnote
+// markers with their thresholds. lib/slack/blocks.ts renders a template against
+// the day's data; a section whose data is unavailable (BM Pro down, no stored
+// drawdown) is left out, along with the divider it would leave dangling.
+//
+// The shipped layouts are config/report-templates.json. REPORT_TEMPLATES_PATH
+// points at a JSON file that replaces them per report ("morning" / "eod"; a
+// report it leaves out keeps the default). Templates are validated when config
+// loads, so a bad layout fails at startup rather than mid-report.
+
+import { readFileSync } from 'fs';
+import defaultTemplatesJson from '../../config/report-templates.json';
+
+export type ReportTemplateId = 'morning' | 'eod';
+
+// The figures each report can show, by field key.
+export const REPORT_FIELDS = {
+  morning: ['btcPrice', 'aum', 'fundMtd', 'fundYtd', 'btcMtd', 'btcYtd', 'cash'],
+  eod: ['btcPrice', 'aum', 'fund1d', 'fundYtd', 'btc1d', 'btcYtd', 'sinceMorning'],
+} as const;
+
+export type MorningField = (typeof REPORT_FIELDS.morning)[number];
+export type EodField = (typeof REPORT_FIELDS.eod)[number];
+
+// Sections that need EOD-only data (holdings, stored history, BTCTC).
+const EOD_ONLY_SECTIONS = new Set(['drawdown', 'btctc-movers']);
+
+export interface FieldSpec {
+  field: string;
+  label: string;
+}
+
+export interface MarkerSpec {
+  marker: string;
+  note: string;
+}
+
+export interface HoldingsSpec {
+  title: string;
+  flat: MarkerSpec & { maxAbsPct: number }; // |1D| at or under this reads as no movement
+  stale: MarkerSpec; // no quote at all
+  closed: MarkerSpec; // `{markets}` in the note lists the closed markets
+}
+
+export type SectionSpec =
+  | { type: 'header'; text: string }
+  | { type: 'dateline' }
+  | { type: 'divider' }
+  | { type: 'text'; text: string }
+  | { type: 'context'; text: string }
+  | { type: 'headline'; field: string; label: string }
+  | { type: 'fields'; title: string; fields: FieldSpec[]; holdings?: HoldingsSpec }
+  | { type: 'on-chain'; title: string }
+  | { type: 'drawdown'; title: string }
+  | { type: 'btctc-movers'; title: string };
+
+export interface ThreadReplySpec {
+  key: string; // stable across re-runs; the post log edits replies by key
+  text: string; // notification fallback
+  sections: SectionSpec[];
+}
+
+export interface ReportTemplate {
+  post: SectionSpec[];
+  thread: ThreadReplySpec[];
+}
+
+export type ReportTemplates = Record<ReportTemplateId, ReportTemplate>;
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+
+function checkMarker(v: unknown, path: string, problems: string[], threshold = false): void {
+  if (!isObject(v)) {
+    problems.push(`${path}: expected an object with marker and note`);
+    return;
+  }
+  if (!isText(v.marker)) problems.push(`${path}.marker: expected a non-empty string`);
+  if (!isText(v.note)) problems.push(`${path}.note: expected a non-empty string`);
+  if (threshold && !(typeof v.maxAbsPct === 'number' && v.maxAbsPct >= 0)) {
+    problems.push(`${path}.maxAbsPct: expected a number ≥ 0`);
+  }
+}
+
+function checkSection(report: ReportTemplateId, v: unknown, path: string, problems: string[]): void {
+  if (!isObject(v)) {
+    problems.push(`${path}: expected an object`);
+    return;
+  }
+  const fields: readonly string[] = REPORT_FIELDS[report];
+  const checkField = (field: unknown, at: string) => {
+    if (typeof field !== 'string' || !fields.includes(field)) {
+      problems.push(`${at}: unknown ${report} field "${String(field)}" (one of ${fields.join(', ')})`);
+    }
+  };
+
+  if (report === 'morning' && EOD_ONLY_SECTIONS.has(String(v.type))) {
+    problems.push(`${path}: "${v.type}" is only available in the EOD report`);
+    return;
+  }
+
+  switch (v.type) {
+    case 'dateline':
+    case 'divider':
+      return;
+    case 'header':
+    case 'text':
+    case 'context':
+      if (!isText(v.text)) problems.push(`${path}.text: expected a non-empty string`);
+      return;
+    case 'headline':
+      checkField(v.field, `${path}.field`);
+      if (!isText(v.label)) problems.push(`${path}.label: expected a non-empty string`);
+      return;
+    case 'on-chain':
+    case 'drawdown':
+    case 'btctc-movers':
+      if (!isText(v.title)) problems.push(`${path}.title: expected a non-empty string`);
+      return;
+    case 'fields':
+      if (!isText(v.title)) problems.push(`${path}.title: expected a non-empty string`);
+      if (!Array.isArray(v.fields) || v.fields.length === 0) {
+        problems.push(`${path}.fields: expected a non-empty array`);
+      } else {
+        v.fields.forEach((f, i) => {
+          if (!isObject(f)) {
+            problems.push(`${path}.fields[${i}]: expected an object with field and label`);
+            return;
+          }
+          checkField(f.field, `${path}.fields[${i}].field`);
+          if (!isText(f.label)) problems.push(`${path}.fields[${i}].label: expected a non-empty string`);
+        });
+      }
+      if (v.holdings !== undefined) {
+        const h = v.holdings;
+        if (report === 'morning') {
+          problems.push(`${path}.holdings: holdings are only available in the EOD report`);
+        } else if (!isObject(h)) {
+          problems.push(`${path}.holdings: expected an object`);
+        } else {
+          if (!isText(h.title)) problems.push(`${path}.holdings.title: expected a non-empty string`);
+          checkMarker(h.flat, `${path}.holdings.flat`, problems, true);
+          checkMarker(h.stale, `${path}.holdings.stale`, problems);
+          checkMarker(h.closed, `${path}.holdings.closed`, problems);
+        }
+      }
+      return;
+    default:
+      problems.push(`${path}.type: unknown section type "${String(v.type)}"`);
+  }
+}
+
+function checkTemplate(report: ReportTemplateId, v: unknown, problems: string[]): void {
+  if (!isObject(v)) {
+    problems.push(`${report}: expected an object with post and thread`);
+    return;
+  }
+  if (!Array.isArray(v.post) || v.post.length === 0) {
+    problems.push(`${report}.post: expected a non-empty array of sections`);
+  } else {
+    v.post.forEach((s, i) => checkSection(report, s, `${report}.post[${i}]`, problems));
+  }
+
+  if (!Array.isArray(v.thread)) {
+    problems.push(`${report}.thread: expected an array of replies`);
+    return;
+  }
+  const keys = new Set<string>();
+  v.thread.forEach((r, i) => {
+    const path = `${report}.thread[${i}]`;
+    if (!isObject(r)) {
+      problems.push(`${path}: expected an object with key, text and sections`);
+      return;
+    }
+    if (!isText(r.key)) {
+      problems.push(`${path}.key: expected a non-empty string`);
+    } else if (keys.has(r.key)) {
+      problems.push(`${path}.key: duplicate reply key "${r.key}"`);
+    } else {
+      keys.add(r.key);
+    }
+    if (!isText(r.text)) problems.push(`${path}.text: expected a non-empty string`);
+    if (!Array.isArray(r.sections) || r.sections.length === 0) {
+      problems.push(`${path}.sections: expected a non-empty array of sections`);
+    } else {
+      r.sections.forEach((s, j) => checkSection(report, s, `${path}.sections[${j}]`, problems));
+    }
+  });
+}
+
+/**
+ * Validate templates parsed from `source`. A report missing from `raw` takes
+ * the one in `fallback`; every problem found is listed in the thrown error.
+ */
+export function validateReportTemplates(
+  raw: unknown,
+  source: string,
+  fallback?: ReportTemplates
+): ReportTemplates {
+  const problems: string[] = [];
+  if (!isObject(raw)) {
+    problems.push('expected an object keyed by report ("morning", "eod")');
+  } else {
+    for (const key of Object.keys(raw)) {
+      if (!(key in REPORT_FIELDS)) problems.push(`${key}: unknown report (expected "morning" or "eod")`);
+    }
+    for (const report of Object.keys(REPORT_FIELDS) as ReportTemplateId[]) {
+      if (raw[report] === undefined && fallback) continue;
+      checkTemplate(report, raw[report], problems);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid report templates in ${source}:\n- ${problems.join('\n- ')}`);
+  }
+
+  const templates = raw as Partial<ReportTemplates>;
+  return {
+    morning: templates.morning ?? fallback!.morning,
+    eod: templates.eod ?? fallback!.eod,
+  };
+}
+
+export const DEFAULT_REPORT_TEMPLATES: ReportTemplates = validateReportTemplates(
+  defaultTemplatesJson,
+  'config/report-templates.json'
+);
+
+/** The shipped templates, with any REPORT_TEMPLATES_PATH overrides. Throws if invalid. */
+export function loadReportTemplates(): ReportTemplates {
+  const path = process.env.REPORT_TEMPLATES_PATH?.trim();
+  if (!path) return DEFAULT_REPORT_TEMPLATES;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `REPORT_TEMPLATES_PATH "${path}" could not be read as JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return validateReportTemplates(raw, path, DEFAULT_REPORT_TEMPLATES);
+}
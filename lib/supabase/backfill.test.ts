@@ -0,0 +1,113 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  parseCsv,
+  parseJsonRecords,
+  validateBackfillRecords,
+  toEodBackfillRow,
+  toMorningBackfillRow,
+  BACKFILL_SCHEMA_VERSION,
+} from './backfill';
+
+describe('parseCsv', () => {
+  test('reads a header, quoted fields with commas/escapes, CRLF and blank lines', () => {
+    const csv =
+      'Date,AUM_USD,Note\r\n' +
+      '2025-01-02,"$1,234,567.89","said ""hi"""\r\n' +
+      '\r\n' +
+      '2025-01-03,1000,\n';
+    const rows = parseCsv(csv);
+    expect(rows).toEqual([
+      { line: 2, fields: { date: '2025-01-02', aum_usd: '$1,234,567.89', note: 'said "hi"' } },
+      { line: 4, fields: { date: '2025-01-03', aum_usd: '1000', note: '' } },
+    ]);
+  });
+
+  test('an empty file has no records', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('parseJsonRecords', () => {
+  test('numbers as index + 1 and lower-cases keys', () => {
+    expect(parseJsonRecords('[{"Date":"2025-01-02","aum_usd":5}]')).toEqual([
+      { line: 1, fields: { date: '2025-01-02', aum_usd: 5 } },
+    ]);
+  });
+
+  test('a non-array document is an error', () => {
+    expect(() => parseJsonRecords('{"date":"2025-01-02"}')).toThrow('array');
+  });
+});
+
+describe('validateBackfillRecords', () => {
+  const records = parseCsv(
+    [
+      'date,aum_usd,fund_1d_pct,fund_ytd_pct,btc_price_usd,btc_1d_pct',
+      '2025-01-02,"$100,000,000",1.5%,137.02,95000,-2.1', // ok (cumulative bound for YTD)
+      '2025-01-03,101000000,-420,,,', // ×100 regression on a 1d field
+      '2025-01-06,101000000,0.5,-1618,,', // ×100 regression on YTD
+      '2025-02-30,1,1,,,', // impossible date
+      '2025-01-02,1,1,,,', // duplicate date
+      '2025-01-07,abc,1,,,', // not a number
+      '2025-01-08,-5,1,,,', // negative level
+      '2025-01-09,,,,,', // nothing to import
+    ].join('\n')
+  );
+  const { valid, rejected } = validateBackfillRecords('eod', records);
+
+  test('keeps good rows with spreadsheet formatting stripped', () => {
+    expect(valid).toHaveLength(1);
+    expect(valid[0].values).toMatchObject({
+      aum_usd: 100000000,
+      fund_1d_pct: 1.5,
+      fund_ytd_pct: 137.02,
+      btc_1d_pct: -2.1,
+      btc_ytd_pct: null,
+    });
+  });
+
+  test('rejects each bad row with a reason and its source line', () => {
+    const byLine = Object.fromEntries(rejected.map((r) => [r.line, r.reason]));
+    expect(byLine[3]).toContain('units check failed: fund_1d_pct=-420');
+    expect(byLine[4]).toContain('fund_ytd_pct=-1618 exceeds ±1000%');
+    expect(byLine[5]).toContain('invalid date');
+    expect(byLine[6]).toContain('duplicate date 2025-01-02');
+    expect(byLine[7]).toContain('aum_usd="abc" is not a number');
+    expect(byLine[8]).toContain('negative aum_usd');
+    expect(byLine[9]).toContain('no data columns');
+  });
+
+  test('morning rows validate MTD against the short-window bound', () => {
+    const r = validateBackfillRecords('morning', [
+      { line: 1, fields: { date: '2025-01-31', fund_mtd_pct: 250, btc_mtd_pct: 5 } },
+    ]);
+    expect(r.rejected[0].reason).toContain('fund_mtd_pct=250 exceeds ±100%');
+  });
+});
+
+describe('backfill row mappers', () => {
+  const row = {
+    line: 2,
+    date: '2025-01-02',
+    values: {
+      aum_usd: 100000000, fund_1d_pct: 1.5, fund_ytd_pct: null, btc_price_usd: 95000,
+      btc_1d_pct: -2.1, btc_ytd_pct: null, fund_mtd_pct: 3, cash_usd: 5000000, btc_mtd_pct: 1,
+    },
+  };
+
+  test('EOD rows are tagged as backfill and carry no on-chain data', () => {
+    const r = toEodBackfillRow(row, 'export.csv');
+    expect(r.schema_version).toBe(BACKFILL_SCHEMA_VERSION);
+    expect(r.snapshot_date).toBe('2025-01-02');
+    expect(r.fund_1d_pct).toBe(1.5);
+    expect(r.on_chain).toBeNull();
+    expect(r.payload).toMatchObject({ source: 'backfill', file: 'export.csv', line: 2 });
+  });
+
+  test('morning rows map the MTD columns', () => {
+    const r = toMorningBackfillRow(row, 'export.csv');
+    expect(r.fund_mtd_pct).toBe(3);
+    expect(r.cash_usd).toBe(5000000);
+    expect(r.schema_version).toBe(BACKFILL_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,276 @@
+// Parsing + validation for the historical backfill CLI (scripts/backfill-history.ts).
+//
+// Pre-go-live history comes from spreadsheet exports, not terminal payloads, so
+// every row is checked against the same units contract as the live clients
+// (assertPercentUnits) before it can reach the history tables. Rejections are
+// collected with a reason rather than thrown, so one bad row doesn't hide the
+// rest of the file's problems.
+
+import { assertPercentUnits, CUMULATIVE_MAX_ABS_PCT, DEFAULT_MAX_ABS_PCT } from '../terminal/client';
+import type { EodBriefRow, MorningBriefRow } from './history';
+
+// schema_version for backfilled rows: there is no terminal payload to branch on,
+// and readers can tell imported history from rows the crons wrote.
+export const BACKFILL_SCHEMA_VERSION = 0;
+
+export type BackfillTable = 'eod' | 'morning';
+
+// Numeric columns accepted per table (snake_case, as in the SQL), with the
+// percent bound each one is checked against (undefined = a level, not a percent).
+const COLUMNS: Record<BackfillTable, Record<string, number | undefined>> = {
+  eod: {
+    aum_usd: undefined,
+    fund_1d_pct: DEFAULT_MAX_ABS_PCT,
+    fund_ytd_pct: CUMULATIVE_MAX_ABS_PCT,
+    btc_price_usd: undefined,
+    btc_1d_pct: DEFAULT_MAX_ABS_PCT,
+    btc_ytd_pct: CUMULATIVE_MAX_ABS_PCT,
+  },
+  morning: {
+    aum_usd: undefined,
+    fund_mtd_pct: DEFAULT_MAX_ABS_PCT,
+    fund_ytd_pct: CUMULATIVE_MAX_ABS_PCT,
+    cash_usd: undefined,
+    btc_price_usd: undefined,
+    btc_mtd_pct: DEFAULT_MAX_ABS_PCT,
+    btc_ytd_pct: CUMULATIVE_MAX_ABS_PCT,
+  },
+};
+
+export interface BackfillRecord {
+  line: number; // 1-based source line (CSV) or array index + 1 (JSON), for error reports
+  fields: Record<string, string | number | null>;
+}
+
+export interface BackfillRejection {
+  line: number;
+  date: string | null;
+  reason: string;
+}
+
+export interface BackfillValidRow {
+  line: number;
+  date: string;
+  values: Record<string, number | null>;
+}
+
+export interface BackfillResult {
+  valid: BackfillValidRow[];
+  rejected: BackfillRejection[];
+}
+
+/**
+ * Minimal RFC 4180 CSV reader: a header row, comma separators, double-quoted
+ * fields with "" escapes. Blank lines are skipped. Header names are trimmed and
+ * lower-cased.
+ */
+export function parseCsv(text: string): BackfillRecord[] {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const names = header.cells.map((h) => h.trim().toLowerCase());
+
+  return body.map(({ line: l, cells: c }) => ({
+    line: l,
+    fields: Object.fromEntries(names.map((n, i) => [n, c[i]?.trim() ?? ''])),
+  }));
+}
+
+/** A JSON export: an array of flat objects keyed like the CSV header. */
+export function parseJsonRecords(text: string): BackfillRecord[] {
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error('JSON backfill input must be an array of row objects');
+  }
+  return data.map((row, i) => ({
+    line: i + 1,
+    fields: Object.fromEntries(
+      Object.entries((row ?? {}) as Record<string, unknown>).map(([k, v]) => [
+        k.trim().toLowerCase(),
+        typeof v === 'number' || typeof v === 'string' ? v : null,
+      ])
+    ),
+  }));
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function readDate(fields: BackfillRecord['fields']): string | null {
+  const raw = fields.snapshot_date ?? fields.date;
+  if (raw == null) return null;
+  const d = String(raw).trim();
+  if (!ISO_DATE.test(d)) return null;
+  // Reject shape-valid but impossible dates (2026-02-30).
+  return new Date(`${d}T00:00:00Z`).toISOString().startsWith(d) ? d : null;
+}
+
+// '' / null → null (missing); strips $ , and % so spreadsheet formatting survives.
+function readNumber(raw: string | number | null | undefined): number | null | 'invalid' {
+  if (raw == null) return null;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : 'invalid';
+  const cleaned = raw.replace(/[$,%\s]/g, '');
+  if (cleaned === '') return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : 'invalid';
+}
+
+/**
+ * Validate records for one table. A row is rejected for a bad/missing date, a
+ * duplicate date (the later occurrence), an unparseable or negative level, a
+ * percent outside the units contract, or no data columns at all. Unknown
+ * columns are ignored.
+ */
+export function validateBackfillRecords(
+  table: BackfillTable,
+  records: BackfillRecord[]
+): BackfillResult {
+  const columns = COLUMNS[table];
+  const valid: BackfillValidRow[] = [];
+  const rejected: BackfillRejection[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, fields } of records) {
+    const date = readDate(fields);
+    const reject = (reason: string) => rejected.push({ line, date, reason });
+
+    if (!date) {
+      reject(`missing or invalid date "${fields.snapshot_date ?? fields.date ?? ''}" (expected YYYY-MM-DD)`);
+      continue;
+    }
+    if (seen.has(date)) {
+      reject(`duplicate date ${date} in input`);
+      continue;
+    }
+    seen.add(date);
+
+    const values: Record<string, number | null> = {};
+    const problems: string[] = [];
+    for (const column of Object.keys(columns)) {
+      const n = readNumber(fields[column]);
+      if (n === 'invalid') {
+        problems.push(`${column}="${fields[column]}" is not a number`);
+      } else {
+        values[column] = n;
+      }
+    }
+    if (problems.length > 0) {
+      reject(problems.join('; '));
+      continue;
+    }
+
+    const negative = Object.keys(columns).filter(
+      (c) => columns[c] === undefined && values[c] != null && values[c]! < 0
+    );
+    if (negative.length > 0) {
+      reject(`negative ${negative.join(', ')}`);
+      continue;
+    }
+
+    try {
+      assertPercentUnits(
+        `backfill ${date}`,
+        Object.entries(columns)
+          .filter(([, bound]) => bound !== undefined)
+          .map(([c, bound]): [string, number | null, number] => [c, values[c], bound!])
+      );
+    } catch (err) {
+      reject(err instanceof Error ? err.message : String(err));
+      continue;
+    }
+
+    if (Object.values(values).every((v) => v == null)) {
+      reject(`no data columns (expected some of: ${Object.keys(columns).join(', ')})`);
+      continue;
+    }
+
+    valid.push({ line, date, values });
+  }
+
+  return { valid, rejected };
+}
+
+// Nominal as_of for imported rows — the exports carry a date, not a timestamp.
+function nominalAsOf(date: string, table: BackfillTable): string {
+  return table === 'eod' ? `${date}T23:00:00.000Z` : `${date}T14:00:00.000Z`;
+}
+
+function backfillPayload(row: BackfillValidRow, source: string) {
+  return { source: 'backfill', file: source, line: row.line, values: row.values };
+}
+
+export function toEodBackfillRow(row: BackfillValidRow, source: string): EodBriefRow {
+  const v = row.values;
+  return {
+    snapshot_date: row.date,
+    as_of: nominalAsOf(row.date, 'eod'),
+    schema_version: BACKFILL_SCHEMA_VERSION,
+    fund_as_of_date: row.date,
+    aum_usd: v.aum_usd,
+    fund_1d_pct: v.fund_1d_pct,
+    fund_ytd_pct: v.fund_ytd_pct,
+    btc_price_usd: v.btc_price_usd,
+    btc_1d_pct: v.btc_1d_pct,
+    btc_ytd_pct: v.btc_ytd_pct,
+    // Not a terminal Brief — schema_version 0 tells readers not to treat it as one.
+    payload: backfillPayload(row, source) as unknown as EodBriefRow['payload'],
+    on_chain: null,
+  };
+}
+
+export function toMorningBackfillRow(row: BackfillValidRow, source: string): MorningBriefRow {
+  const v = row.values;
+  return {
+    snapshot_date: row.date,
+    as_of: nominalAsOf(row.date, 'morning'),
+    schema_version: BACKFILL_SCHEMA_VERSION,
+    aum_usd: v.aum_usd,
+    fund_mtd_pct: v.fund_mtd_pct,
+    fund_ytd_pct: v.fund_ytd_pct,
+    cash_usd: v.cash_usd,
+    btc_price_usd: v.btc_price_usd,
+    btc_mtd_pct: v.btc_mtd_pct,
+    btc_ytd_pct: v.btc_ytd_pct,
+    payload: backfillPayload(row, source) as unknown as MorningBriefRow['payload'],
+  };
+}
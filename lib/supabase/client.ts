@@ -1,6 +1,6 @@
 // Supabase client for daily snapshots
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { formatInTimeZone } from 'date-fns-tz';
 
 const CT_TIMEZONE = 'America/Chicago';
@@ -12,17 +12,38 @@ function getTodayDateCT(): string {
   return formatInTimeZone(new Date(), CT_TIMEZONE, 'yyyy-MM-dd');
 }
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+let supabaseClient: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseServiceKey) {
-  console.warn('[Supabase] Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+/**
+ * Whether Supabase credentials are present. Callers with a per-instance
+ * fallback (thread memory, the usage ledger) check this instead of catching
+ * getSupabaseClient's throw on every call.
+ */
+export function isSupabaseConfigured(): boolean {
+  return !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
 }
 
-export const supabase = createClient(
-  supabaseUrl || '',
-  supabaseServiceKey || ''
-);
+/**
+ * Lazily create the service-role client. Deferred to first use (rather than at
+ * import) so modules that only need the row types/mappers — and their tests —
+ * don't require Supabase credentials, and a missing key fails the write that
+ * needed it instead of every cold start.
+ */
+export function getSupabaseClient(): SupabaseClient {
+  if (supabaseClient) {
+    return supabaseClient;
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('[Supabase] Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+  return supabaseClient;
+}
 
 export interface DailySnapshot {
   date: string; // YYYY-MM-DD format
@@ -37,7 +58,7 @@ export interface DailySnapshot {
 export async function saveMorningSnapshot(aum: number, btcPrice: number): Promise<void> {
   const today = getTodayDateCT();
 
-  const { error } = await supabase
+  const { error } = await getSupabaseClient()
     .from('daily_snapshots')
     .upsert({
       date: today,
@@ -61,7 +82,7 @@ export async function saveMorningSnapshot(aum: number, btcPrice: number): Promis
 export async function getTodaySnapshot(): Promise<DailySnapshot | null> {
   const today = getTodayDateCT();
 
-  const { data, error } = await supabase
+  const { data, error } = await getSupabaseClient()
     .from('daily_snapshots')
     .select('*')
     .eq('date', today)
@@ -0,0 +1,126 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  HISTORY_SCHEMA_VERSION,
+  snapshotDateCT,
+  morningBriefToRow,
+  eodBriefToRow,
+  eodHoldingsToRows,
+  rowToMorningSnapshot,
+  rowToEodSnapshot,
+} from './history';
+import type { Brief } from '../terminal/brief';
+import type { MorningBrief } from '../terminal/morning-brief';
+
+const morning: MorningBrief = {
+  asOf: '2026-06-22T13:00:00.000Z',
+  btc: { priceUsd: 64414.64 },
+  fund: { aumUsd: 94638882.15, mtdPct: -4.2, ytdPct: -16.18, cashUsd: 4366855 },
+  btcMtdPct: -12.54,
+  btcYtdPct: 137.02,
+};
+
+const eod: Brief = {
+  asOf: '2026-06-22T22:00:00.000Z',
+  btc: { priceUsd: 64414, change1dPct: 1.86 },
+  fund: { aumUsd: 96000000, change1dPct: -0.1, ytdPct: -16.18, asOfDate: '2026-06-22' },
+  topHoldings: [
+    { name: 'Astra Enterprise', ticker: 'ASTR', weightPercent: 28.78, change1dPct: -1.64 },
+    { name: 'No Ticker Co', ticker: '', weightPercent: 1, change1dPct: 0 },
+    { name: 'Dead Co', ticker: 'DV8', weightPercent: 5, change1dPct: null },
+  ],
+  btcYtdPct: 137.02,
+};
+
+describe('snapshotDateCT', () => {
+  test('keys the 00:00 UTC EOD run to the CT day it reports on', () => {
+    // 00:00 UTC on the 23rd is 7 PM CDT on the 22nd.
+    expect(snapshotDateCT(new Date('2026-06-23T00:00:00.000Z'))).toBe('2026-06-22');
+  });
+});
+
+describe('morningBriefToRow', () => {
+  test('flattens the payload, keeps percents verbatim and stamps the schema version', () => {
+    const row = morningBriefToRow(morning, '2026-06-22');
+    expect(row.snapshot_date).toBe('2026-06-22');
+    expect(row.schema_version).toBe(HISTORY_SCHEMA_VERSION);
+    expect(row.aum_usd).toBe(94638882.15);
+    expect(row.fund_mtd_pct).toBe(-4.2);
+    expect(row.btc_ytd_pct).toBe(137.02);
+    expect(row.payload).toBe(morning);
+  });
+
+  test('missing fields stay null, never 0', () => {
+    const row = morningBriefToRow({ ...morning, btcMtdPct: null, fund: { ...morning.fund, cashUsd: null } }, 'd');
+    expect(row.btc_mtd_pct).toBeNull();
+    expect(row.cash_usd).toBeNull();
+  });
+});
+
+describe('eodBriefToRow / eodHoldingsToRows', () => {
+  test('flattens the EOD payload', () => {
+    const row = eodBriefToRow(eod, '2026-06-22');
+    expect(row.fund_1d_pct).toBe(-0.1);
+    expect(row.btc_1d_pct).toBe(1.86);
+    expect(row.fund_as_of_date).toBe('2026-06-22');
+  });
+
+  test('one row per holding, rank preserved, ticker-less holdings skipped, null change kept', () => {
+    const rows = eodHoldingsToRows(eod, '2026-06-22');
+    expect(rows.map((r) => [r.ticker, r.rank])).toEqual([['ASTR', 1], ['DV8', 3]]);
+    expect(rows[1].change_1d_pct).toBeNull();
+  });
+
+  test('a ticker listed twice becomes one row with the weights summed', () => {
+    const topHoldings = [
+      ...(eod.topHoldings ?? []),
+      { name: 'Astra Enterprise Class B', ticker: 'ASTR', weightPercent: 2.22, change1dPct: -1.64 },
+    ];
+    const rows = eodHoldingsToRows({ ...eod, topHoldings }, '2026-06-22');
+    expect(rows.map((r) => [r.ticker, r.rank, r.name, r.weight_pct])).toEqual([
+      ['ASTR', 1, 'Astra Enterprise', 31],
+      ['DV8', 3, 'Dead Co', 5],
+    ]);
+  });
+});
+
+describe('row → snapshot', () => {
+  test('coerces DECIMAL strings to numbers and keeps null', () => {
+    const s = rowToMorningSnapshot({
+      snapshot_date: '2026-06-22',
+      as_of: morning.asOf,
+      aum_usd: '94638882.15',
+      fund_mtd_pct: '-4.2000',
+      fund_ytd_pct: null,
+      cash_usd: 4366855,
+      btc_price_usd: '64414.64',
+      btc_mtd_pct: null,
+      btc_ytd_pct: '137.02',
+    });
+    expect(s.aumUsd).toBe(94638882.15);
+    expect(s.fundMtdPct).toBe(-4.2);
+    expect(s.fundYtdPct).toBeNull();
+    expect(s.btcMtdPct).toBeNull();
+  });
+
+  test('EOD snapshot sorts embedded holdings by rank', () => {
+    const s = rowToEodSnapshot({
+      snapshot_date: '2026-06-22',
+      as_of: eod.asOf,
+      fund_as_of_date: null,
+      aum_usd: 96000000,
+      fund_1d_pct: -0.1,
+      fund_ytd_pct: -16.18,
+      btc_price_usd: 64414,
+      btc_1d_pct: 1.86,
+      btc_ytd_pct: 137.02,
+      eod_brief_holdings: [
+        { ticker: 'DV8', rank: 3, name: 'Dead Co', weight_pct: 5, change_1d_pct: null },
+        { ticker: 'ASTR', rank: 1, name: 'Astra', weight_pct: '28.78', change_1d_pct: '-1.64' },
+      ],
+    });
+    expect(s.fundAsOfDate).toBeNull();
+    expect(s.holdings.map((h) => h.ticker)).toEqual(['ASTR', 'DV8']);
+    expect(s.holdings[0].change1dPct).toBe(-1.64);
+    expect(s.holdings[1].change1dPct).toBeNull();
+  });
+});
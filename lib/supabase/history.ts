@@ -0,0 +1,372 @@
+// Typed data-access layer for the brief history tables
+// (supabase/migrations/20261019000000_create_brief_history.sql).
+//
+// The daily report crons persist every terminal payload they post here, so
+// downstream analysis (history tool, weekly/monthly reports, analytics) has a
+// real time series instead of whatever the terminal says right now. Rows are
+// keyed by the CT calendar day of the run; a retried cron upserts over the
+// earlier row rather than duplicating it.
+
+import { getSupabaseClient } from './client';
+import type { Brief, BriefHolding } from '../terminal/brief';
+import type { MorningBrief } from '../terminal/morning-brief';
+import type { OnChainMetrics } from '../external/bitcoin-magazine-pro';
+import { isoDateCT } from '../utils/dates';
+
+// Bump when the terminal payload shape changes in a way readers must branch on.
+export const HISTORY_SCHEMA_VERSION = 1;
+
+// ---------------------------------------------------------------------------
+// Row shapes (mirror the SQL columns)
+// ---------------------------------------------------------------------------
+
+export interface MorningBriefRow {
+  snapshot_date: string; // YYYY-MM-DD (CT)
+  as_of: string;
+  schema_version: number;
+  aum_usd: number | null;
+  fund_mtd_pct: number | null;
+  fund_ytd_pct: number | null;
+  cash_usd: number | null;
+  btc_price_usd: number | null;
+  btc_mtd_pct: number | null;
+  btc_ytd_pct: number | null;
+  payload: MorningBrief;
+}
+
+export interface EodBriefRow {
+  snapshot_date: string; // YYYY-MM-DD (CT)
+  as_of: string;
+  schema_version: number;
+  fund_as_of_date: string | null;
+  aum_usd: number | null;
+  fund_1d_pct: number | null;
+  fund_ytd_pct: number | null;
+  btc_price_usd: number | null;
+  btc_1d_pct: number | null;
+  btc_ytd_pct: number | null;
+  payload: Brief;
+  on_chain: OnChainMetrics | null;
+}
+
+export interface EodHoldingRow {
+  snapshot_date: string;
+  ticker: string;
+  rank: number;
+  name: string;
+  weight_pct: number | null;
+  change_1d_pct: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Domain shapes returned to callers (camelCase, percents ×100-scaled verbatim)
+// ---------------------------------------------------------------------------
+
+export interface MorningBriefSnapshot {
+  date: string;
+  asOf: string;
+  aumUsd: number | null;
+  fundMtdPct: number | null;
+  fundYtdPct: number | null;
+  cashUsd: number | null;
+  btcPriceUsd: number | null;
+  btcMtdPct: number | null;
+  btcYtdPct: number | null;
+}
+
+export interface EodBriefSnapshot {
+  date: string;
+  asOf: string;
+  fundAsOfDate: string | null;
+  aumUsd: number | null;
+  fund1dPct: number | null;
+  fundYtdPct: number | null;
+  btcPriceUsd: number | null;
+  btc1dPct: number | null;
+  btcYtdPct: number | null;
+  holdings: BriefHolding[];
+  // Bitcoin Magazine Pro metrics rendered in that day's EOD post (null if BM Pro
+  // was down or the row predates the column).
+  onChain: OnChainMetrics | null;
+}
+
+// Just the level series (for drawdown / high-water mark), without payloads.
+export interface EodValuePoint {
+  date: string;
+  aumUsd: number | null;
+  btcPriceUsd: number | null;
+}
+
+/** The CT calendar day a report run belongs to (YYYY-MM-DD). */
+export function snapshotDateCT(now: Date = new Date()): string {
+  return isoDateCT(now);
+}
+
+// PostgREST can hand back DECIMAL columns as strings for large values; normalise
+// to number while keeping null as null (never coerce missing data to 0).
+function toNum(v: unknown): number | null {
+  if (v == null) return null;
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function morningBriefToRow(brief: MorningBrief, date: string): MorningBriefRow {
+  return {
+    snapshot_date: date,
+    as_of: brief.asOf,
+    schema_version: HISTORY_SCHEMA_VERSION,
+    aum_usd: brief.fund?.aumUsd ?? null,
+    fund_mtd_pct: brief.fund?.mtdPct ?? null,
+    fund_ytd_pct: brief.fund?.ytdPct ?? null,
+    cash_usd: brief.fund?.cashUsd ?? null,
+    btc_price_usd: brief.btc?.priceUsd ?? null,
+    btc_mtd_pct: brief.btcMtdPct ?? null,
+    btc_ytd_pct: brief.btcYtdPct ?? null,
+    payload: brief,
+  };
+}
+
+export function eodBriefToRow(
+  brief: Brief,
+  date: string,
+  onChainMetrics: OnChainMetrics | null = null
+): EodBriefRow {
+  return {
+    snapshot_date: date,
+    as_of: brief.asOf,
+    schema_version: HISTORY_SCHEMA_VERSION,
+    fund_as_of_date: brief.fund?.asOfDate ?? null,
+    aum_usd: brief.fund?.aumUsd ?? null,
+    fund_1d_pct: brief.fund?.change1dPct ?? null,
+    fund_ytd_pct: brief.fund?.ytdPct ?? null,
+    btc_price_usd: brief.btc?.priceUsd ?? null,
+    btc_1d_pct: brief.btc?.change1dPct ?? null,
+    btc_ytd_pct: brief.btcYtdPct ?? null,
+    payload: brief,
+    on_chain: onChainMetrics,
+  };
+}
+
+/**
+ * One row per ticker. Holdings without a ticker can't be keyed, so they are
+ * skipped (they still survive in the EOD row's JSON payload). A ticker listed
+ * twice (e.g. two share classes mapped to one symbol) would break the
+ * (snapshot_date, ticker) key, so its weights are summed into the first
+ * listing, which keeps its rank, name and 1D — the same symbol has one price.
+ */
+export function eodHoldingsToRows(brief: Brief, date: string): EodHoldingRow[] {
+  const rows = new Map<string, EodHoldingRow>();
+  (brief.topHoldings ?? []).forEach((h, i) => {
+    if (!h.ticker) return;
+    const first = rows.get(h.ticker);
+    if (first) {
+      first.weight_pct = first.weight_pct == null ? h.weightPercent
+        : h.weightPercent == null ? first.weight_pct
+        : first.weight_pct + h.weightPercent;
+      return;
+    }
+    rows.set(h.ticker, {
+      snapshot_date: date,
+      ticker: h.ticker,
+      rank: i + 1,
+      name: h.name,
+      weight_pct: h.weightPercent,
+      change_1d_pct: h.change1dPct,
+    });
+  });
+  return [...rows.values()];
+}
+
+export function rowToMorningSnapshot(row: Record<string, unknown>): MorningBriefSnapshot {
+  return {
+    date: String(row.snapshot_date),
+    asOf: String(row.as_of),
+    aumUsd: toNum(row.aum_usd),
+    fundMtdPct: toNum(row.fund_mtd_pct),
+    fundYtdPct: toNum(row.fund_ytd_pct),
+    cashUsd: toNum(row.cash_usd),
+    btcPriceUsd: toNum(row.btc_price_usd),
+    btcMtdPct: toNum(row.btc_mtd_pct),
+    btcYtdPct: toNum(row.btc_ytd_pct),
+  };
+}
+
+export function rowToEodSnapshot(row: Record<string, unknown>): EodBriefSnapshot {
+  const holdingRows = (row.eod_brief_holdings as Array<Record<string, unknown>> | undefined) ?? [];
+  return {
+    date: String(row.snapshot_date),
+    asOf: String(row.as_of),
+    fundAsOfDate: row.fund_as_of_date == null ? null : String(row.fund_as_of_date),
+    aumUsd: toNum(row.aum_usd),
+    fund1dPct: toNum(row.fund_1d_pct),
+    fundYtdPct: toNum(row.fund_ytd_pct),
+    btcPriceUsd: toNum(row.btc_price_usd),
+    btc1dPct: toNum(row.btc_1d_pct),
+    btcYtdPct: toNum(row.btc_ytd_pct),
+    holdings: [...holdingRows]
+      .sort((a, b) => Number(a.rank) - Number(b.rank))
+      .map((h) => ({
+        name: String(h.name),
+        ticker: String(h.ticker),
+        weightPercent: toNum(h.weight_pct),
+        change1dPct: toNum(h.change_1d_pct),
+      })),
+    onChain: (row.on_chain as OnChainMetrics | null | undefined) ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/**
+ * Persist a morning brief for the CT day of `now`. Throws on a Supabase error;
+ * the cron treats persistence as best-effort and catches it.
+ */
+export async function saveMorningBriefSnapshot(
+  brief: MorningBrief,
+  now: Date = new Date()
+): Promise<void> {
+  const date = snapshotDateCT(now);
+
+  const { error } = await getSupabaseClient()
+    .from('morning_brief_history')
+    .upsert(morningBriefToRow(brief, date), { onConflict: 'snapshot_date' });
+
+  if (error) {
+    console.error('[Supabase] Error saving morning brief snapshot:', error);
+    throw error;
+  }
+
+  console.log(`[Supabase] Morning brief snapshot saved for ${date} (asOf=${brief.asOf})`);
+}
+
+/**
+ * Persist an EOD brief, its top holdings and the on-chain metrics posted with
+ * it for the CT day of `now`. The holdings for that day are replaced wholesale
+ * so a re-run with a different top-N doesn't leave stale tickers behind.
+ */
+export async function saveEodBriefSnapshot(
+  brief: Brief,
+  onChainMetrics: OnChainMetrics | null = null,
+  now: Date = new Date()
+): Promise<void> {
+  const date = snapshotDateCT(now);
+  const client = getSupabaseClient();
+
+  const { error } = await client
+    .from('eod_brief_history')
+    .upsert(eodBriefToRow(brief, date, onChainMetrics), { onConflict: 'snapshot_date' });
+
+  if (error) {
+    console.error('[Supabase] Error saving EOD brief snapshot:', error);
+    throw error;
+  }
+
+  const { error: deleteError } = await client
+    .from('eod_brief_holdings')
+    .delete()
+    .eq('snapshot_date', date);
+
+  if (deleteError) {
+    console.error('[Supabase] Error clearing EOD holdings:', deleteError);
+    throw deleteError;
+  }
+
+  const holdings = eodHoldingsToRows(brief, date);
+  if (holdings.length > 0) {
+    const { error: holdingsError } = await client
+      .from('eod_brief_holdings')
+      .insert(holdings);
+
+    if (holdingsError) {
+      console.error('[Supabase] Error saving EOD holdings:', holdingsError);
+      throw holdingsError;
+    }
+  }
+
+  console.log(`[Supabase] EOD brief snapshot saved for ${date} (asOf=${brief.asOf}, ${holdings.length} holdings)`);
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+/** Morning snapshots with `from <= date <= to` (YYYY-MM-DD), oldest first. */
+export async function getMorningBriefHistory(
+  from: string,
+  to: string
+): Promise<MorningBriefSnapshot[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('morning_brief_history')
+    .select('snapshot_date, as_of, aum_usd, fund_mtd_pct, fund_ytd_pct, cash_usd, btc_price_usd, btc_mtd_pct, btc_ytd_pct')
+    .gte('snapshot_date', from)
+    .lte('snapshot_date', to)
+    .order('snapshot_date', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Error fetching morning brief history:', error);
+    throw error;
+  }
+
+  return (data ?? []).map((row) => rowToMorningSnapshot(row));
+}
+
+/** EOD snapshots (with their holdings) with `from <= date <= to`, oldest first. */
+export async function getEodBriefHistory(
+  from: string,
+  to: string
+): Promise<EodBriefSnapshot[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('eod_brief_history')
+    .select(
+      'snapshot_date, as_of, fund_as_of_date, aum_usd, fund_1d_pct, fund_ytd_pct, btc_price_usd, btc_1d_pct, btc_ytd_pct, on_chain, ' +
+      'eod_brief_holdings(ticker, rank, name, weight_pct, change_1d_pct)'
+    )
+    .gte('snapshot_date', from)
+    .lte('snapshot_date', to)
+    .order('snapshot_date', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Error fetching EOD brief history:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map(rowToEodSnapshot);
+}
+
+// PostgREST caps a select at 1000 rows by default; page through longer reads.
+const PAGE_SIZE = 1000;
+
+/**
+ * Every stored EOD day on or before `to`, oldest first, with only the AUM and
+ * BTC price columns. Used for all-time high-water marks, so it pages through
+ * the whole table rather than stopping at the row cap.
+ */
+export async function getEodValueHistory(to: string): Promise<EodValuePoint[]> {
+  const points: EodValuePoint[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getSupabaseClient()
+      .from('eod_brief_history')
+      .select('snapshot_date, aum_usd, btc_price_usd')
+      .lte('snapshot_date', to)
+      .order('snapshot_date', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[Supabase] Error fetching EOD value history:', error);
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      points.push({
+        date: String(row.snapshot_date),
+        aumUsd: toNum(row.aum_usd),
+        btcPriceUsd: toNum(row.btc_price_usd),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) return points;
+  }
+}
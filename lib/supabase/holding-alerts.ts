@@ -0,0 +1,77 @@
+// Typed data-access layer for the intraday holdings move alert state
+// (supabase/migrations/20261019000600_create_holding_move_alerts.sql).
+
+import { getSupabaseClient } from './client';
+import type { HoldingAlertState } from '../analytics/holding-moves';
+
+export interface HoldingAlertDay {
+  threadTs: string | null; // the day's parent message, once posted
+  alerts: Map<string, HoldingAlertState>; // keyed by upper-case ticker
+}
+
+/** Today's parent thread and per-ticker alert state for `alertDate` (YYYY-MM-DD, CT). */
+export async function getHoldingAlertDay(alertDate: string): Promise<HoldingAlertDay> {
+  const client = getSupabaseClient();
+  const [threadResult, alertsResult] = await Promise.all([
+    client.from('holding_alert_threads').select('thread_ts').eq('alert_date', alertDate).maybeSingle(),
+    client
+      .from('holding_move_alerts')
+      .select('ticker, direction, alerted_pct, alert_count')
+      .eq('alert_date', alertDate),
+  ]);
+
+  if (threadResult.error) {
+    console.error('[Supabase] Error fetching holding alert thread:', threadResult.error);
+    throw threadResult.error;
+  }
+  if (alertsResult.error) {
+    console.error('[Supabase] Error fetching holding alert state:', alertsResult.error);
+    throw alertsResult.error;
+  }
+
+  const alerts = new Map<string, HoldingAlertState>();
+  for (const row of alertsResult.data ?? []) {
+    alerts.set(String(row.ticker), {
+      ticker: String(row.ticker),
+      direction: row.direction,
+      alertedPct: Number(row.alerted_pct),
+      alertCount: Number(row.alert_count),
+    });
+  }
+
+  return { threadTs: threadResult.data?.thread_ts ?? null, alerts };
+}
+
+export async function saveHoldingAlertThread(alertDate: string, channel: string, threadTs: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('holding_alert_threads')
+    .upsert({ alert_date: alertDate, channel, thread_ts: threadTs }, { onConflict: 'alert_date' });
+
+  if (error) {
+    console.error('[Supabase] Error saving holding alert thread:', error);
+    throw error;
+  }
+}
+
+export async function saveHoldingAlertStates(alertDate: string, states: HoldingAlertState[]): Promise<void> {
+  if (states.length === 0) return;
+
+  const { error } = await getSupabaseClient()
+    .from('holding_move_alerts')
+    .upsert(
+      states.map((s) => ({
+        alert_date: alertDate,
+        ticker: s.ticker,
+        direction: s.direction,
+        alerted_pct: s.alertedPct,
+        alert_count: s.alertCount,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'alert_date,ticker' }
+    );
+
+  if (error) {
+    console.error('[Supabase] Error saving holding alert state:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+// Typed data-access layer for the on-chain regime alert state
+// (supabase/migrations/20261019000800_create_onchain_regimes.sql).
+
+import { getSupabaseClient } from './client';
+import type { OnChainRegimeMetric } from '../external/bitcoin-magazine-pro';
+import type { OnChainRegimeState } from '../analytics/onchain-regimes';
+
+const TABLE = 'onchain_regimes';
+
+/** The stored regime per metric (empty before the first run). */
+export async function getOnChainRegimeStates(): Promise<Map<OnChainRegimeMetric, OnChainRegimeState>> {
+  const { data, error } = await getSupabaseClient().from(TABLE).select('metric, regime, value, since');
+
+  if (error) {
+    console.error('[Supabase] Error fetching on-chain regimes:', error);
+    throw error;
+  }
+
+  const states = new Map<OnChainRegimeMetric, OnChainRegimeState>();
+  for (const row of data ?? []) {
+    states.set(row.metric, {
+      metric: row.metric,
+      regime: String(row.regime),
+      value: Number(row.value),
+      since: String(row.since),
+    });
+  }
+  return states;
+}
+
+export async function saveOnChainRegimeStates(states: OnChainRegimeState[]): Promise<void> {
+  if (states.length === 0) return;
+
+  const { error } = await getSupabaseClient()
+    .from(TABLE)
+    .upsert(
+      states.map((s) => ({
+        metric: s.metric,
+        regime: s.regime,
+        value: s.value,
+        since: s.since,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'metric' }
+    );
+
+  if (error) {
+    console.error('[Supabase] Error saving on-chain regimes:', error);
+    throw error;
+  }
+}
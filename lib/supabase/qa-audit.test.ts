@@ -0,0 +1,34 @@
+import { test, expect } from 'bun:test';
+import { toQaAuditRow } from './qa-audit';
+
+test('toQaAuditRow maps an exchange to the SQL columns, tool calls verbatim', () => {
+  const toolCalls = [
+    { name: 'get_positions', input: { limit: 5 }, content: 'MSTR 18.5%', isError: false },
+  ];
+  const row = toQaAuditRow({
+    eventTs: '1750000000.000200',
+    threadTs: '1750000000.000100',
+    userId: 'U1',
+    channel: 'C1',
+    status: 'answered',
+    question: 'What is our MSTR weight?',
+    dataAsOf: '2026-06-22T20:00:00.000Z',
+    toolCalls,
+    response: 'MSTR is 18.5% of the book.',
+    inputTokens: 1200,
+    outputTokens: 80,
+    errorId: null,
+    errorType: null,
+    errorMessage: null,
+  });
+
+  expect(row).toMatchObject({
+    event_ts: '1750000000.000200',
+    thread_ts: '1750000000.000100',
+    status: 'answered',
+    data_as_of: '2026-06-22T20:00:00.000Z',
+    input_tokens: 1200,
+    error_id: null,
+  });
+  expect(row.tool_calls).toEqual(toolCalls);
+});
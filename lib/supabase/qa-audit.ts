@@ -0,0 +1,186 @@
+// Typed data-access layer for the Q&A audit log
+// (supabase/migrations/20261019000400_create_qa_audit_log.sql).
+//
+// api/slack/events.ts writes one row per handled question — including refusals
+// and failures — so a disputed answer can be traced to the exact tool results
+// and data asOf it was built from. Writes are best-effort at the call site: an
+// audit outage must never cost the user their answer.
+
+import { getSupabaseClient } from './client';
+import type { ToolCallRecord } from '../claude/client';
+
+const TABLE = 'qa_audit_log';
+
+export type QaAuditStatus = 'answered' | 'cached' | 'rejected' | 'rate_limited' | 'over_budget' | 'error';
+
+export interface QaAuditEntry {
+  eventTs: string;
+  threadTs: string;
+  userId: string | null;
+  channel: string | null;
+  status: QaAuditStatus;
+  question: string | null;
+  dataAsOf: string | null;
+  toolCalls: ToolCallRecord[];
+  response: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  errorId: string | null;
+  errorType: string | null; // events.ts classification: timeout, ai_service, terminal, …
+  errorMessage: string | null;
+}
+
+export interface QaAuditRow {
+  event_ts: string;
+  thread_ts: string;
+  user_id: string | null;
+  channel: string | null;
+  status: QaAuditStatus;
+  question: string | null;
+  data_as_of: string | null;
+  tool_calls: ToolCallRecord[];
+  response: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  error_id: string | null;
+  error_type: string | null;
+  error_message: string | null;
+}
+
+export interface StoredQaAuditEntry extends QaAuditEntry {
+  id: number;
+  createdAt: string;
+}
+
+// The columns usage reporting needs — tool names only, not their results.
+export interface QaAuditActivity {
+  userId: string | null;
+  channel: string | null;
+  status: QaAuditStatus;
+  toolNames: string[];
+  errorType: string | null;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 1000;
+
+export function toQaAuditRow(entry: QaAuditEntry): QaAuditRow {
+  return {
+    event_ts: entry.eventTs,
+    thread_ts: entry.threadTs,
+    user_id: entry.userId,
+    channel: entry.channel,
+    status: entry.status,
+    question: entry.question,
+    data_as_of: entry.dataAsOf,
+    tool_calls: entry.toolCalls,
+    response: entry.response,
+    input_tokens: entry.inputTokens,
+    output_tokens: entry.outputTokens,
+    error_id: entry.errorId,
+    error_type: entry.errorType,
+    error_message: entry.errorMessage,
+  };
+}
+
+function fromQaAuditRow(row: QaAuditRow & { id: number; created_at: string }): StoredQaAuditEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    eventTs: row.event_ts,
+    threadTs: row.thread_ts,
+    userId: row.user_id,
+    channel: row.channel,
+    status: row.status,
+    question: row.question,
+    dataAsOf: row.data_as_of,
+    toolCalls: Array.isArray(row.tool_calls) ? row.tool_calls : [],
+    response: row.response,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    errorId: row.error_id,
+    errorType: row.error_type ?? null,
+    errorMessage: row.error_message,
+  };
+}
+
+export async function recordQaAudit(entry: QaAuditEntry): Promise<void> {
+  const { error } = await getSupabaseClient().from(TABLE).insert(toQaAuditRow(entry));
+
+  if (error) {
+    console.error('[Supabase] Error writing Q&A audit entry:', error);
+    throw error;
+  }
+}
+
+/** Every audited exchange in a thread, oldest first. */
+export async function getQaAuditByThread(threadTs: string): Promise<StoredQaAuditEntry[]> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select('*')
+    .eq('thread_ts', threadTs)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Error reading Q&A audit thread:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(fromQaAuditRow);
+}
+
+/** The exchange that produced an `ERR-…` id shown to a user, if recorded. */
+export async function getQaAuditByErrorId(errorId: string): Promise<StoredQaAuditEntry | null> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select('*')
+    .eq('error_id', errorId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Supabase] Error reading Q&A audit entry:', error);
+    throw error;
+  }
+
+  return data ? fromQaAuditRow(data) : null;
+}
+
+/**
+ * Every audited exchange in [from, until), oldest first, reduced to what usage
+ * reporting needs. Pages past the row cap.
+ */
+export async function getQaAuditActivity(from: Date, until: Date): Promise<QaAuditActivity[]> {
+  const activity: QaAuditActivity[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getSupabaseClient()
+      .from(TABLE)
+      .select('user_id, channel, status, tool_calls, error_type, created_at')
+      .gte('created_at', from.toISOString())
+      .lt('created_at', until.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[Supabase] Error reading Q&A audit activity:', error);
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      activity.push({
+        userId: row.user_id,
+        channel: row.channel,
+        status: row.status,
+        toolNames: Array.isArray(row.tool_calls)
+          ? row.tool_calls.map((call: ToolCallRecord) => call.name)
+          : [],
+        errorType: row.error_type ?? null,
+        createdAt: row.created_at,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) return activity;
+  }
+}
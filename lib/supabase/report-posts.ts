@@ -0,0 +1,130 @@
+// Typed data-access layer for the daily report post log and watchdog pages
+// (supabase/migrations/20261019001000_create_report_posts.sql,
+// 20261019001100_add_report_post_figures.sql, 20261019001200_add_report_post_replies.sql).
+
+import { getSupabaseClient } from './client';
+import { reportKey, type ReportType } from '../analytics/report-watchdog';
+import type { ReportFigures } from '../analytics/report-figures';
+
+export interface ReportPost {
+  channel: string;
+  messageTs: string | null;
+  figures: ReportFigures | null; // as of the latest post or update
+  updateCount: number;
+  replyTs: Record<string, string>; // threaded detail replies, by section key
+}
+
+/** The day's post of `type`, or null if it hasn't gone out. */
+export async function getReportPost(type: ReportType, date: string): Promise<ReportPost | null> {
+  const { data, error } = await getSupabaseClient()
+    .from('report_posts')
+    .select('channel, message_ts, figures, update_count, reply_ts')
+    .eq('report_type', type)
+    .eq('report_date', date)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Supabase] Error fetching report post:', error);
+    throw error;
+  }
+  if (!data) return null;
+
+  return {
+    channel: String(data.channel),
+    messageTs: data.message_ts ?? null,
+    figures: (data.figures as ReportFigures | null) ?? null,
+    updateCount: Number(data.update_count ?? 0),
+    replyTs: (data.reply_ts as Record<string, string> | null) ?? {},
+  };
+}
+
+export async function recordReportPost(
+  type: ReportType,
+  date: string,
+  channel: string,
+  messageTs: string | null,
+  figures: ReportFigures | null = null,
+  replyTs: Record<string, string> = {}
+): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('report_posts')
+    .upsert(
+      {
+        report_type: type,
+        report_date: date,
+        channel,
+        message_ts: messageTs,
+        figures,
+        posted_at: new Date().toISOString(),
+        updated_at: null,
+        update_count: 0,
+        reply_ts: replyTs,
+      },
+      { onConflict: 'report_type,report_date' }
+    );
+
+  if (error) {
+    console.error('[Supabase] Error recording report post:', error);
+    throw error;
+  }
+}
+
+/** Note an in-place update of the day's post; `figures` become the new baseline. */
+export async function recordReportUpdate(
+  type: ReportType,
+  date: string,
+  post: ReportPost,
+  figures: ReportFigures,
+  replyTs: Record<string, string> = post.replyTs
+): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('report_posts')
+    .update({
+      figures,
+      reply_ts: replyTs,
+      updated_at: new Date().toISOString(),
+      update_count: post.updateCount + 1,
+    })
+    .eq('report_type', type)
+    .eq('report_date', date);
+
+  if (error) {
+    console.error('[Supabase] Error recording report update:', error);
+    throw error;
+  }
+}
+
+async function keysSince(table: string, fromDate: string): Promise<Set<string>> {
+  const { data, error } = await getSupabaseClient()
+    .from(table)
+    .select('report_type, report_date')
+    .gte('report_date', fromDate);
+
+  if (error) {
+    console.error(`[Supabase] Error fetching ${table}:`, error);
+    throw error;
+  }
+
+  return new Set((data ?? []).map((row) => reportKey(row.report_type as ReportType, String(row.report_date))));
+}
+
+/** `type:date` keys of the reports posted on or after `fromDate`. */
+export function getPostedReportKeys(fromDate: string): Promise<Set<string>> {
+  return keysSince('report_posts', fromDate);
+}
+
+/** `type:date` keys of the missing reports already paged on or after `fromDate`. */
+export function getPagedReportKeys(fromDate: string): Promise<Set<string>> {
+  return keysSince('report_watchdog_pages', fromDate);
+}
+
+export async function recordReportPage(type: ReportType, date: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('report_watchdog_pages')
+    .upsert({ report_type: type, report_date: date }, { onConflict: 'report_type,report_date' });
+
+  if (error) {
+    console.error('[Supabase] Error recording report watchdog page:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+// Typed data-access layer for units-guard incidents
+// (supabase/migrations/20261019000900_create_units_guard_incidents.sql).
+
+import { getSupabaseClient } from './client';
+import type { UnitsGuardError } from '../terminal/client';
+import type { UnitsIncident } from '../terminal/units-incidents';
+
+const TABLE = 'units_guard_incidents';
+const COLUMNS = 'id, endpoint, context, field, value, max_abs, occurrences, opened_at, last_posted_at, channel, message_ts';
+
+function rowToIncident(row: Record<string, unknown>): UnitsIncident {
+  return {
+    id: Number(row.id),
+    endpoint: String(row.endpoint),
+    context: String(row.context),
+    field: String(row.field),
+    value: Number(row.value),
+    maxAbs: Number(row.max_abs),
+    occurrences: Number(row.occurrences),
+    openedAt: String(row.opened_at),
+    lastPostedAt: String(row.last_posted_at),
+    channel: row.channel == null ? null : String(row.channel),
+    messageTs: row.message_ts == null ? null : String(row.message_ts),
+  };
+}
+
+/** Open incidents for `endpoints`, keyed by endpoint. */
+export async function getOpenUnitsIncidents(endpoints: string[]): Promise<Map<string, UnitsIncident>> {
+  const open = new Map<string, UnitsIncident>();
+  if (endpoints.length === 0) return open;
+
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select(COLUMNS)
+    .eq('status', 'open')
+    .in('endpoint', endpoints);
+
+  if (error) {
+    console.error('[Supabase] Error fetching open units incidents:', error);
+    throw error;
+  }
+
+  for (const row of (data ?? []) as Array<Record<string, unknown>>) {
+    const incident = rowToIncident(row);
+    open.set(incident.endpoint, incident);
+  }
+  return open;
+}
+
+export async function openUnitsIncident(
+  endpoint: string,
+  trip: UnitsGuardError,
+  post: { channel: string; messageTs: string | null }
+): Promise<void> {
+  const { error } = await getSupabaseClient().from(TABLE).insert({
+    endpoint,
+    context: trip.context,
+    field: trip.field,
+    value: trip.value,
+    max_abs: trip.maxAbs,
+    channel: post.channel,
+    message_ts: post.messageTs,
+  });
+
+  if (error) {
+    console.error('[Supabase] Error opening units incident:', error);
+    throw error;
+  }
+}
+
+/** Count another trip on an open incident; `posted` also resets the repeat window. */
+export async function recordUnitsIncidentRepeat(
+  incident: UnitsIncident,
+  trip: UnitsGuardError,
+  posted: boolean
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await getSupabaseClient()
+    .from(TABLE)
+    .update({
+      field: trip.field,
+      value: trip.value,
+      max_abs: trip.maxAbs,
+      occurrences: incident.occurrences + 1,
+      last_seen_at: now,
+      ...(posted ? { last_posted_at: now } : {}),
+    })
+    .eq('id', incident.id);
+
+  if (error) {
+    console.error('[Supabase] Error updating units incident:', error);
+    throw error;
+  }
+}
+
+export async function resolveUnitsIncident(incident: UnitsIncident): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from(TABLE)
+    .update({ status: 'resolved', resolved_at: new Date().toISOString() })
+    .eq('id', incident.id);
+
+  if (error) {
+    console.error('[Supabase] Error resolving units incident:', error);
+    throw error;
+  }
+}
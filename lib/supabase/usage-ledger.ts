@@ -0,0 +1,196 @@
+// Typed data-access layer for the Claude usage ledger
+// (supabase/migrations/20261019000300_create_usage_ledger.sql).
+//
+// Every answered question leaves one row (user, channel, model, tokens, cost).
+// Budget checks reserve a row atomically in the database, so the per-user
+// daily budget holds no matter which instance serves the request; the same
+// rows are the historical spend record.
+
+import { getSupabaseClient } from './client';
+
+const TABLE = 'usage_ledger';
+const PAGE_SIZE = 1000;
+
+export interface UsageLedgerRow {
+  id: number;
+  user_id: string;
+  channel: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  status: 'reserved' | 'settled';
+  created_at: string;
+}
+
+export interface UsageEntry {
+  userId: string;
+  channel: string | null;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  createdAt: string;
+}
+
+export interface UsageReservation {
+  allowed: boolean;
+  entryId: number | null; // null when refused
+  spentUsd: number; // in the window, before this request
+  oldestAt: string | null; // oldest row in the window (budget frees up 24h later)
+}
+
+export interface UsageAmounts {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Atomically check the user's spend since `since` against `budgetUsd` and, if
+ * `reserveUsd` more fits, hold it with a 'reserved' row (reserve_usage_budget).
+ */
+export async function reserveUsage(params: {
+  userId: string;
+  channel: string | null;
+  model: string | null;
+  reserveUsd: number;
+  budgetUsd: number;
+  since: Date;
+}): Promise<UsageReservation> {
+  const { data, error } = await getSupabaseClient().rpc('reserve_usage_budget', {
+    p_user_id: params.userId,
+    p_channel: params.channel,
+    p_model: params.model,
+    p_reserve_usd: params.reserveUsd,
+    p_budget_usd: params.budgetUsd,
+    p_since: params.since.toISOString(),
+  });
+
+  if (error) {
+    console.error('[Supabase] Error reserving usage budget:', error);
+    throw error;
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { allowed: boolean; entry_id: number | null; spent_usd: number | string; oldest_at: string | null }
+    | undefined;
+  if (!row) {
+    throw new Error('[Supabase] reserve_usage_budget returned no row');
+  }
+
+  return {
+    allowed: row.allowed,
+    entryId: row.entry_id == null ? null : Number(row.entry_id),
+    spentUsd: Number(row.spent_usd),
+    oldestAt: row.oldest_at,
+  };
+}
+
+/** Replace a reservation's hold with the request's actual tokens and cost. */
+export async function settleUsage(entryId: number, amounts: UsageAmounts): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from(TABLE)
+    .update({
+      input_tokens: amounts.inputTokens,
+      output_tokens: amounts.outputTokens,
+      cost_usd: amounts.costUsd,
+      status: 'settled',
+    })
+    .eq('id', entryId);
+
+  if (error) {
+    console.error(`[Supabase] Error settling usage entry ${entryId}:`, error);
+    throw error;
+  }
+}
+
+/** Drop a reservation whose request never reached Claude (or was served from cache). */
+export async function releaseUsage(entryId: number): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from(TABLE)
+    .delete()
+    .eq('id', entryId)
+    .eq('status', 'reserved');
+
+  if (error) {
+    console.error(`[Supabase] Error releasing usage entry ${entryId}:`, error);
+    throw error;
+  }
+}
+
+/** Record usage that had no reservation (the budget check fell back to in-process). */
+export async function recordUsage(entry: {
+  userId: string;
+  channel: string | null;
+  model: string | null;
+} & UsageAmounts): Promise<void> {
+  const { error } = await getSupabaseClient().from(TABLE).insert({
+    user_id: entry.userId,
+    channel: entry.channel,
+    model: entry.model,
+    input_tokens: entry.inputTokens,
+    output_tokens: entry.outputTokens,
+    cost_usd: entry.costUsd,
+    status: 'settled',
+  });
+
+  if (error) {
+    console.error('[Supabase] Error recording usage:', error);
+    throw error;
+  }
+}
+
+/** Total cost (reservations included) for one user since `since`. */
+export async function getUserSpendSince(userId: string, since: Date): Promise<number> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select('cost_usd')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    console.error('[Supabase] Error reading user spend:', error);
+    throw error;
+  }
+
+  return (data ?? []).reduce((sum, row) => sum + Number(row.cost_usd), 0);
+}
+
+/**
+ * Settled usage in [from, until), oldest first (in-flight reservations are
+ * holds, not spend). Pages past the row cap.
+ */
+export async function getUsageEntries(from: Date, until: Date): Promise<UsageEntry[]> {
+  const entries: UsageEntry[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getSupabaseClient()
+      .from(TABLE)
+      .select('user_id, channel, model, input_tokens, output_tokens, cost_usd, created_at')
+      .eq('status', 'settled')
+      .gte('created_at', from.toISOString())
+      .lt('created_at', until.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[Supabase] Error reading usage ledger:', error);
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      entries.push({
+        userId: row.user_id,
+        channel: row.channel,
+        model: row.model,
+        inputTokens: Number(row.input_tokens),
+        outputTokens: Number(row.output_tokens),
+        costUsd: Number(row.cost_usd),
+        createdAt: row.created_at,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) return entries;
+  }
+}
@@ -0,0 +1,153 @@
+// Typed data-access layer for Slack user alert rules
+// (supabase/migrations/20261019000700_create_user_alerts.sql).
+
+import { getSupabaseClient } from './client';
+import type {
+  AlertEvaluation,
+  AlertMetric,
+  AlertOperator,
+  AlertRuleSpec,
+  UserAlertRule,
+} from '../analytics/alert-rules';
+
+const TABLE = 'user_alerts';
+const COLUMNS = 'id, user_id, channel, metric, ticker, operator, threshold, last_condition, trigger_count, created_at';
+
+export interface UserAlertRow {
+  id: number;
+  user_id: string;
+  channel: string | null;
+  metric: AlertMetric;
+  ticker: string | null;
+  operator: AlertOperator;
+  threshold: number | string; // DECIMAL comes back as a string
+  last_condition: boolean | null;
+  trigger_count: number;
+  created_at: string;
+}
+
+export function fromUserAlertRow(row: UserAlertRow): UserAlertRule {
+  return {
+    id: Number(row.id),
+    userId: row.user_id,
+    channel: row.channel,
+    metric: row.metric,
+    ticker: row.ticker,
+    operator: row.operator,
+    threshold: Number(row.threshold),
+    lastCondition: row.last_condition,
+    triggerCount: Number(row.trigger_count ?? 0),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Insert a rule. `lastCondition` is the condition at creation, so a rule that
+ * is already met waits for the next crossing instead of firing straight away.
+ */
+export async function createUserAlert(
+  userId: string,
+  channel: string | null,
+  rule: AlertRuleSpec,
+  lastCondition: boolean | null
+): Promise<UserAlertRule> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      channel,
+      metric: rule.metric,
+      ticker: rule.ticker,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      last_condition: lastCondition,
+    })
+    .select(COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('[Supabase] Error creating user alert:', error);
+    throw error;
+  }
+
+  return fromUserAlertRow(data as UserAlertRow);
+}
+
+/** The user's active rules, oldest first. */
+export async function listUserAlerts(userId: string): Promise<UserAlertRule[]> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .eq('active', true)
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Error listing user alerts:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as UserAlertRow[]).map(fromUserAlertRow);
+}
+
+/** Delete one of the user's rules. Returns false if it isn't theirs or doesn't exist. */
+export async function deleteUserAlert(userId: string, id: number): Promise<boolean> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('[Supabase] Error deleting user alert:', error);
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/** Every active rule, for the evaluation cron. */
+export async function getActiveUserAlerts(): Promise<UserAlertRule[]> {
+  const { data, error } = await getSupabaseClient()
+    .from(TABLE)
+    .select(COLUMNS)
+    .eq('active', true)
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Error fetching active user alerts:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as UserAlertRow[]).map(fromUserAlertRow);
+}
+
+/**
+ * Store each rule's condition and value from this run. Fired rules also get
+ * their trigger time and count bumped — call this only after the DM is sent,
+ * so a failed DM retries on the next run.
+ */
+export async function saveAlertEvaluations(evaluations: AlertEvaluation[]): Promise<void> {
+  const now = new Date().toISOString();
+
+  const results = await Promise.all(
+    evaluations.map(({ rule, value, condition, fired }) =>
+      getSupabaseClient()
+        .from(TABLE)
+        .update({
+          last_condition: condition,
+          last_value: value,
+          last_evaluated_at: now,
+          ...(fired ? { last_triggered_at: now, trigger_count: rule.triggerCount + 1 } : {}),
+        })
+        .eq('id', rule.id)
+    )
+  );
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) {
+    console.error('[Supabase] Error saving user alert evaluations:', failed.error);
+    throw failed.error;
+  }
+}
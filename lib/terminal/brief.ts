@@ -1,7 +1,7 @@
 // Typed client for the terminal /api/brief endpoint.
 // Single source of truth for the EOD report payload.
 
-import { fetchTerminal, assertPercentUnits, CUMULATIVE_MAX_ABS_PCT } from './client';
+import { fetchTerminal, assertPercentUnits, CUMULATIVE_MAX_ABS_PCT, type UnitsGuardOutcomes } from './client';
 
 export interface BriefHolding {
   name: string;
@@ -26,7 +26,7 @@ export interface Brief {
   btcYtdPct: number | null;
 }
 
-export async function fetchBrief(): Promise<Brief> {
+export async function fetchBrief(guard?: UnitsGuardOutcomes): Promise<Brief> {
   const brief = await fetchTerminal<Brief>('/api/brief');
 
   assertPercentUnits('Brief', [
@@ -38,7 +38,7 @@ export async function fetchBrief(): Promise<Brief> {
     ...(brief.topHoldings ?? []).map(
       (h, i): [string, number | null | undefined] => [`topHoldings[${i}].change1dPct`, h.change1dPct]
     ),
-  ]);
+  ], '/api/brief', guard);
 
   return brief;
 }
@@ -2,7 +2,7 @@
 // Backs the get_btctc_company and get_btctc_movers tools. Both go through
 // fetchTerminal() (Bearer BRIEF_API_KEY) and assert the percent-units contract.
 
-import { fetchTerminal, assertPercentUnits } from './client';
+import { fetchTerminal, assertPercentUnits, type UnitsGuardOutcomes } from './client';
 
 // The BTCTC company shape the terminal emits. Every numeric field is nullable:
 // thinly-covered values (mNAV, 1×-diluted-mNAV price, …) are preserved as null
@@ -40,8 +40,9 @@ function isNotFound(r: BtctcCompanyResult): r is BtctcNotFound {
   return (r as BtctcNotFound).found === false;
 }
 
-export async function fetchBtctc(): Promise<Btctc> {
-  const btctc = await fetchTerminal<Btctc>('/api/btctc');
+export async function fetchBtctc(guard?: UnitsGuardOutcomes): Promise<Btctc> {
+  const path = '/api/btctc';
+  const btctc = await fetchTerminal<Btctc>(path);
 
   // oneDayChangePercent is a 1-day move (tight ±100 bound).
   assertPercentUnits('BTCTC', [
@@ -51,22 +52,22 @@ export async function fetchBtctc(): Promise<Btctc> {
         c.oneDayChangePercent,
       ]
     ),
-  ]);
+  ], path, guard);
 
   return btctc;
 }
 
 export async function fetchBtctcCompany(
-  ticker: string
+  ticker: string,
+  guard?: UnitsGuardOutcomes
 ): Promise<BtctcCompanyResult> {
-  const result = await fetchTerminal<BtctcCompanyResult>(
-    `/api/btctc/${encodeURIComponent(ticker)}`
-  );
+  const path = `/api/btctc/${encodeURIComponent(ticker)}`;
+  const result = await fetchTerminal<BtctcCompanyResult>(path);
 
   if (!isNotFound(result)) {
     assertPercentUnits(`BTCTC ${ticker}`, [
       ['oneDayChangePercent', result.oneDayChangePercent],
-    ]);
+    ], path, guard);
   }
 
   return result;
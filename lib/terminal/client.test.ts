@@ -1,5 +1,10 @@
 import { test, expect, describe } from 'bun:test';
-import { assertPercentUnits, CUMULATIVE_MAX_ABS_PCT } from './client';
+import {
+  assertPercentUnits,
+  CUMULATIVE_MAX_ABS_PCT,
+  UnitsGuardOutcomes,
+  UnitsGuardError,
+} from './client';
 
 describe('assertPercentUnits', () => {
   test('accepts ×100-scaled percents (including 0, null, undefined)', () => {
@@ -47,3 +52,41 @@ describe('assertPercentUnits', () => {
     ).toThrow(/fund\.ytdPct=-1618 exceeds ±1000%/);
   });
 });
+
+describe('units guard outcomes', () => {
+  test('a trip throws a UnitsGuardError carrying the field, value and bound', () => {
+    try {
+      assertPercentUnits('Brief', [['ok', 1], ['fund.change1dPct', -420]], '/api/brief');
+      throw new Error('expected a throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(UnitsGuardError);
+      const e = err as UnitsGuardError;
+      expect([e.context, e.field, e.value, e.maxAbs, e.endpoint]).toEqual(['Brief', 'fund.change1dPct', -420, 100, '/api/brief']);
+    }
+  });
+
+  test('records the latest result per endpoint, only when an endpoint is given', () => {
+    const guard = new UnitsGuardOutcomes();
+    assertPercentUnits('Backfill', [['x', 1]], undefined, guard);
+    assertPercentUnits('Positions', [['x', 1]], '/api/positions', guard);
+    expect(() => assertPercentUnits('Brief', [['x', 500]], '/api/brief', guard)).toThrow();
+    assertPercentUnits('Brief', [['x', 2]], '/api/brief', guard);
+
+    expect(guard.drain()).toEqual([
+      { endpoint: '/api/positions', passed: true },
+      { endpoint: '/api/brief', passed: true },
+    ]);
+    expect(guard.drain()).toEqual([]);
+  });
+
+  test('each run keeps its own outcomes', () => {
+    const first = new UnitsGuardOutcomes();
+    const second = new UnitsGuardOutcomes();
+    expect(() => assertPercentUnits('Brief', [['x', 500]], '/api/brief', first)).toThrow();
+    assertPercentUnits('Brief', [['x', 2]], '/api/brief', second);
+    assertPercentUnits('Brief', [['x', 3]], '/api/brief');
+
+    expect(first.drain()).toMatchObject([{ endpoint: '/api/brief', passed: false }]);
+    expect(second.drain()).toEqual([{ endpoint: '/api/brief', passed: true }]);
+  });
+});
@@ -42,16 +42,64 @@ export const DEFAULT_MAX_ABS_PCT = 100;
 // still catching a ×100 scaling regression on any non-trivial value.
 export const CUMULATIVE_MAX_ABS_PCT = 1000;
 
+/** A units-guard trip: which endpoint and field, the offending value and its bound. */
+export class UnitsGuardError extends Error {
+  constructor(
+    readonly context: string,
+    readonly field: string,
+    readonly value: number,
+    readonly maxAbs: number,
+    readonly endpoint: string | null
+  ) {
+    super(
+      `${context} units check failed: ${field}=${value} exceeds ±${maxAbs}%. ` +
+      `Expected a ×100-scaled percent (e.g. -4.2); likely a double-multiply upstream.`
+    );
+    this.name = 'UnitsGuardError';
+  }
+}
+
+export type UnitsGuardOutcome =
+  | { endpoint: string; passed: true }
+  | { endpoint: string; passed: false; error: UnitsGuardError };
+
+// Guard results of one run (a cron invocation, one Slack request), latest per
+// live endpoint. Each entry point creates its own and passes it down to the
+// fetchers, then to reportUnitsGuardIncidents (lib/slack/incidents.ts), so two
+// runs on the same warm instance never see each other's outcomes.
+export class UnitsGuardOutcomes {
+  private readonly byEndpoint = new Map<string, UnitsGuardOutcome>();
+
+  record(outcome: UnitsGuardOutcome): void {
+    this.byEndpoint.set(outcome.endpoint, outcome);
+  }
+
+  /** Take the recorded outcomes, clearing them. */
+  drain(): UnitsGuardOutcome[] {
+    const outcomes = [...this.byEndpoint.values()];
+    this.byEndpoint.clear();
+    return outcomes;
+  }
+}
+
+/**
+ * Throws UnitsGuardError on the first field past its bound. Pass `endpoint`
+ * for a live terminal response, and the run's `outcomes` to feed incident
+ * reporting; without them (backfill, re-checks of composed data) nothing is
+ * recorded.
+ */
 export function assertPercentUnits(
   context: string,
-  fields: Array<[string, number | null | undefined, number?]>
+  fields: Array<[string, number | null | undefined, number?]>,
+  endpoint?: string,
+  outcomes?: UnitsGuardOutcomes
 ): void {
   for (const [name, value, maxAbs = DEFAULT_MAX_ABS_PCT] of fields) {
     if (value != null && Math.abs(value) > maxAbs) {
-      throw new Error(
-        `${context} units check failed: ${name}=${value} exceeds ±${maxAbs}%. ` +
-        `Expected a ×100-scaled percent (e.g. -4.2); likely a double-multiply upstream.`
-      );
+      const error = new UnitsGuardError(context, name, value, maxAbs, endpoint ?? null);
+      if (endpoint) outcomes?.record({ endpoint, passed: false, error });
+      throw error;
     }
   }
+  if (endpoint) outcomes?.record({ endpoint, passed: true });
 }
@@ -1,7 +1,7 @@
 // Typed client for the terminal /api/morning-brief endpoint.
 // Single source of truth for the morning report payload.
 
-import { fetchTerminal, assertPercentUnits, CUMULATIVE_MAX_ABS_PCT } from './client';
+import { fetchTerminal, assertPercentUnits, CUMULATIVE_MAX_ABS_PCT, type UnitsGuardOutcomes } from './client';
 
 export interface MorningBrief {
   asOf: string;
@@ -18,7 +18,7 @@ export interface MorningBrief {
   btcYtdPct: number | null;
 }
 
-export async function fetchMorningBrief(): Promise<MorningBrief> {
+export async function fetchMorningBrief(guard?: UnitsGuardOutcomes): Promise<MorningBrief> {
   const brief = await fetchTerminal<MorningBrief>('/api/morning-brief');
 
   // These are cumulative returns (MTD / YTD) that can legitimately run triple-digit
@@ -29,7 +29,7 @@ export async function fetchMorningBrief(): Promise<MorningBrief> {
     ['fund.ytdPct', brief.fund?.ytdPct, CUMULATIVE_MAX_ABS_PCT],
     ['btcMtdPct', brief.btcMtdPct, CUMULATIVE_MAX_ABS_PCT],
     ['btcYtdPct', brief.btcYtdPct, CUMULATIVE_MAX_ABS_PCT],
-  ]);
+  ], '/api/morning-brief', guard);
 
   return brief;
 }
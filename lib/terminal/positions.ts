@@ -2,7 +2,7 @@
 // Backs the get_holdings and get_position_by_ticker tools. Both go through
 // fetchTerminal() (Bearer BRIEF_API_KEY) and assert the percent-units contract.
 
-import { fetchTerminal, assertPercentUnits } from './client';
+import { fetchTerminal, assertPercentUnits, type UnitsGuardOutcomes } from './client';
 
 export interface PositionHolding {
   name: string;
@@ -52,8 +52,9 @@ export interface PositionNotFound {
 
 export type PositionByTicker = PositionDetail | PositionNotFound;
 
-export async function fetchPositions(): Promise<Positions> {
-  const positions = await fetchTerminal<Positions>('/api/positions');
+export async function fetchPositions(guard?: UnitsGuardOutcomes): Promise<Positions> {
+  const path = '/api/positions';
+  const positions = await fetchTerminal<Positions>(path);
 
   // 1-day moves are short-window; the tight default bound trips the ×100 bug.
   assertPercentUnits('Positions', [
@@ -63,17 +64,17 @@ export async function fetchPositions(): Promise<Positions> {
         h.change1dPct,
       ]
     ),
-  ]);
+  ], path, guard);
 
   return positions;
 }
 
 export async function fetchPositionByTicker(
-  ticker: string
+  ticker: string,
+  guard?: UnitsGuardOutcomes
 ): Promise<PositionByTicker> {
-  const detail = await fetchTerminal<PositionByTicker>(
-    `/api/positions/${encodeURIComponent(ticker)}`
-  );
+  const path = `/api/positions/${encodeURIComponent(ticker)}`;
+  const detail = await fetchTerminal<PositionByTicker>(path);
 
   if (detail.found) {
     // change1dPct is a 1-day move (tight bound); ownershipPercent is a fund
@@ -88,7 +89,7 @@ export async function fetchPositionByTicker(
           e.ownershipPercent,
         ]
       ),
-    ]);
+    ], path, guard);
   }
 
   return detail;
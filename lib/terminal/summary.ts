@@ -15,7 +15,7 @@
 // partial summary (the available endpoint's fields, the other side nulled) rather
 // than failing the whole Q&A. Only when BOTH are down do we throw.
 
-import { assertPercentUnits, CUMULATIVE_MAX_ABS_PCT } from './client';
+import { assertPercentUnits, CUMULATIVE_MAX_ABS_PCT, type UnitsGuardOutcomes } from './client';
 import { fetchBrief, type BriefHolding } from './brief';
 import { fetchMorningBrief } from './morning-brief';
 
@@ -75,10 +75,10 @@ export function asOfLabel(s: Pick<FundSummary, 'asOf' | 'briefAsOf'>): string {
  * fields and the top-holdings list, and whichever side is down is simply nulled.
  * Only when BOTH endpoints fail do we throw (surfacing both reasons).
  */
-export async function getFundSummary(): Promise<FundSummary> {
+export async function getFundSummary(guard?: UnitsGuardOutcomes): Promise<FundSummary> {
   const [briefRes, morningRes] = await Promise.allSettled([
-    fetchBrief(),
-    fetchMorningBrief(),
+    fetchBrief(guard),
+    fetchMorningBrief(guard),
   ]);
 
   const brief = briefRes.status === 'fulfilled' ? briefRes.value : null;
@@ -0,0 +1,63 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { UnitsGuardError, type UnitsGuardOutcome } from './client';
+import { getUnitsIncidentRepeatMs, planUnitsIncidents, type UnitsIncident } from './units-incidents';
+
+const now = new Date('2026-10-19T15:00:00Z');
+const HOUR = 3600000;
+
+const trip = (endpoint: string): UnitsGuardOutcome => ({
+  endpoint,
+  passed: false,
+  error: new UnitsGuardError('Brief', 'fund.change1dPct', -420, 100, endpoint),
+});
+
+const incident = (endpoint: string, lastPostedAt: string): UnitsIncident => ({
+  id: 1,
+  endpoint,
+  context: 'Brief',
+  field: 'fund.change1dPct',
+  value: -420,
+  maxAbs: 100,
+  occurrences: 2,
+  openedAt: '2026-10-19T12:00:00.000Z',
+  lastPostedAt,
+  channel: 'C-ops',
+  messageTs: '123.456',
+});
+
+describe('planUnitsIncidents', () => {
+  test('a trip with no open incident opens one; a clean pass with none is a no-op', () => {
+    const actions = planUnitsIncidents([trip('/api/brief'), { endpoint: '/api/positions', passed: true }], new Map(), now, HOUR);
+    expect(actions.map((a) => [a.kind, a.kind === 'open' ? a.endpoint : null])).toEqual([['open', '/api/brief']]);
+  });
+
+  test('repeats inside the window are counted but not posted', () => {
+    const open = new Map([['/api/brief', incident('/api/brief', '2026-10-19T14:30:00.000Z')]]);
+    const [action] = planUnitsIncidents([trip('/api/brief')], open, now, HOUR);
+    expect(action).toMatchObject({ kind: 'repeat', post: false });
+  });
+
+  test('a repeat after the window re-posts', () => {
+    const open = new Map([['/api/brief', incident('/api/brief', '2026-10-19T13:59:00.000Z')]]);
+    const [action] = planUnitsIncidents([trip('/api/brief')], open, now, HOUR);
+    expect(action).toMatchObject({ kind: 'repeat', post: true });
+  });
+
+  test('a pass on an endpoint with an open incident resolves it', () => {
+    const open = new Map([['/api/brief', incident('/api/brief', '2026-10-19T14:30:00.000Z')]]);
+    const actions = planUnitsIncidents([{ endpoint: '/api/brief', passed: true }], open, now, HOUR);
+    expect(actions.map((a) => a.kind)).toEqual(['resolve']);
+  });
+});
+
+describe('getUnitsIncidentRepeatMs', () => {
+  afterEach(() => {
+    delete process.env.UNITS_INCIDENT_REPEAT_MINUTES;
+  });
+
+  test('reads UNITS_INCIDENT_REPEAT_MINUTES, defaulting to an hour', () => {
+    expect(getUnitsIncidentRepeatMs()).toBe(HOUR);
+    process.env.UNITS_INCIDENT_REPEAT_MINUTES = '15';
+    expect(getUnitsIncidentRepeatMs()).toBe(15 * 60000);
+  });
+});
@@ -0,0 +1,61 @@
+// Units-guard incident rules: what a batch of guard outcomes means for the
+// open incidents.
+//
+// A trip on an endpoint with no open incident opens one. Further trips bump
+// the open incident and re-post only once the repeat window has passed since
+// the last post, so a cron retrying every 15 minutes doesn't page every 15
+// minutes. A clean response from an endpoint with an open incident resolves it.
+
+import type { UnitsGuardError, UnitsGuardOutcome } from './client';
+
+export const DEFAULT_UNITS_INCIDENT_REPEAT_MINUTES = 60;
+
+export interface UnitsIncident {
+  id: number;
+  endpoint: string;
+  context: string;
+  field: string;
+  value: number;
+  maxAbs: number;
+  occurrences: number;
+  openedAt: string;
+  lastPostedAt: string;
+  channel: string | null;
+  messageTs: string | null;
+}
+
+export type UnitsIncidentAction =
+  | { kind: 'open'; endpoint: string; error: UnitsGuardError }
+  | { kind: 'repeat'; incident: UnitsIncident; error: UnitsGuardError; post: boolean }
+  | { kind: 'resolve'; incident: UnitsIncident };
+
+/** Repeat window from UNITS_INCIDENT_REPEAT_MINUTES, read lazily. */
+export function getUnitsIncidentRepeatMs(): number {
+  const n = Number(process.env.UNITS_INCIDENT_REPEAT_MINUTES);
+  const minutes = Number.isFinite(n) && n > 0 ? n : DEFAULT_UNITS_INCIDENT_REPEAT_MINUTES;
+  return minutes * 60000;
+}
+
+/** `open` holds the open incidents keyed by endpoint. */
+export function planUnitsIncidents(
+  outcomes: UnitsGuardOutcome[],
+  open: Map<string, UnitsIncident>,
+  now: Date,
+  repeatMs: number
+): UnitsIncidentAction[] {
+  const actions: UnitsIncidentAction[] = [];
+
+  for (const outcome of outcomes) {
+    const incident = open.get(outcome.endpoint);
+    if (outcome.passed) {
+      if (incident) actions.push({ kind: 'resolve', incident });
+    } else if (!incident) {
+      actions.push({ kind: 'open', endpoint: outcome.endpoint, error: outcome.error });
+    } else {
+      const post = now.getTime() - Date.parse(incident.lastPostedAt) >= repeatMs;
+      actions.push({ kind: 'repeat', incident, error: outcome.error, post });
+    }
+  }
+
+  return actions;
+}
@@ -0,0 +1,58 @@
+import { test, expect, describe } from 'bun:test';
+import { formatDuration, isFirstBusinessDayOfMonthCT, isUsMarketHoursCT } from './dates';
+
+describe('formatDuration', () => {
+  test('uses the largest whole unit', () => {
+    expect(formatDuration(12 * 86400000)).toBe('12 days');
+    expect(formatDuration(86400000)).toBe('1 day');
+    expect(formatDuration(5 * 3600000 + 59 * 60000)).toBe('5 hours');
+    expect(formatDuration(40 * 60000)).toBe('40 minutes');
+  });
+});
+
+describe('isFirstBusinessDayOfMonthCT', () => {
+  // Noon CT on a YYYY-MM-DD.
+  const at = (isoDate: string) => new Date(`${isoDate}T17:00:00Z`);
+
+  test('the 1st on a trading weekday', () => {
+    expect(isFirstBusinessDayOfMonthCT(at('2026-10-01'))).toBe(true);
+    expect(isFirstBusinessDayOfMonthCT(at('2026-10-02'))).toBe(false);
+  });
+
+  test('a 1st on the weekend moves to the Monday', () => {
+    expect(isFirstBusinessDayOfMonthCT(at('2026-11-01'))).toBe(false);
+    expect(isFirstBusinessDayOfMonthCT(at('2026-11-02'))).toBe(true);
+  });
+
+  test('an NYSE holiday on the 1st moves to the next trading day', () => {
+    // Fri 2027-01-01 is New Year's Day.
+    expect(isFirstBusinessDayOfMonthCT(at('2027-01-01'))).toBe(false);
+    expect(isFirstBusinessDayOfMonthCT(at('2027-01-04'))).toBe(true);
+    expect(isFirstBusinessDayOfMonthCT(at('2027-01-05'))).toBe(false);
+  });
+
+  test('a weekend 1st followed by a Monday holiday moves to the Tuesday', () => {
+    // Sun 2024-09-01, then Labor Day on Mon 2024-09-02.
+    const open = (isoDate: string) =>
+      isoDate !== '2024-09-02' && ![0, 6].includes(new Date(`${isoDate}T12:00:00Z`).getUTCDay());
+    expect(isFirstBusinessDayOfMonthCT(at('2024-09-02'), open)).toBe(false);
+    expect(isFirstBusinessDayOfMonthCT(at('2024-09-03'), open)).toBe(true);
+  });
+});
+
+describe('isUsMarketHoursCT', () => {
+  test('the regular session on a trading day', () => {
+    expect(isUsMarketHoursCT(new Date('2026-11-25T16:00:00Z'))).toBe(true); // 10:00 AM CT
+    expect(isUsMarketHoursCT(new Date('2026-11-25T14:00:00Z'))).toBe(false); // 8:00 AM CT
+    expect(isUsMarketHoursCT(new Date('2026-11-25T21:00:00Z'))).toBe(false); // 3:00 PM CT
+  });
+
+  test('closed all day on an NYSE holiday', () => {
+    // Thanksgiving, Thu 2026-11-26, 10:00 AM CT.
+    expect(isUsMarketHoursCT(new Date('2026-11-26T16:00:00Z'))).toBe(false);
+  });
+
+  test('closed on the weekend', () => {
+    expect(isUsMarketHoursCT(new Date('2026-11-28T16:00:00Z'))).toBe(false);
+  });
+});
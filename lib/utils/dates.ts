@@ -1,6 +1,7 @@
 // Date and timezone utilities
 
-import { format, formatInTimeZone } from 'date-fns-tz';
+import { format, formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { getMarketDay } from './market-calendar';
 
 const CT_TIMEZONE = 'America/Chicago';
 
@@ -16,9 +17,89 @@ export function formatDateTimeCT(date: Date, formatStr: string = 'EEEE, MMMM d,
   return formatInTimeZone(date, CT_TIMEZONE, formatStr);
 }
 
-export function isWeekday(date: Date = new Date()): boolean {
-  const dayOfWeek = date.getDay();
-  return dayOfWeek >= 1 && dayOfWeek <= 5; // Monday = 1, Friday = 5
+/** YYYY-MM-DD for the CT calendar day containing `date`. */
+export function isoDateCT(date: Date = new Date()): string {
+  return formatInTimeZone(date, CT_TIMEZONE, 'yyyy-MM-dd');
+}
+
+/** The instant a YYYY-MM-DD CT calendar day begins (CT midnight, DST-aware). */
+export function startOfDayCT(isoDate: string): Date {
+  return fromZonedTime(`${isoDate}T00:00:00`, CT_TIMEZONE);
+}
+
+/** Shift a YYYY-MM-DD date by whole calendar days (pure date math, no TZ drift). */
+export function addDaysIso(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** ISO day of week (1 = Monday … 7 = Sunday) of the CT calendar day containing `date`. */
+export function dayOfWeekCT(date: Date = new Date()): number {
+  return parseInt(formatInTimeZone(date, CT_TIMEZONE, 'i'));
+}
+
+/** Monday (YYYY-MM-DD) of the CT week containing `date`. */
+export function weekStartCT(date: Date = new Date()): string {
+  return addDaysIso(isoDateCT(date), 1 - dayOfWeekCT(date));
+}
+
+/**
+ * Whether `date` is the first NYSE trading day of its CT calendar month: the
+ * 1st, or the first weekday after it that isn't an exchange holiday.
+ */
+export function isFirstBusinessDayOfMonthCT(
+  date: Date = new Date(),
+  isTradingDay: (isoDate: string) => boolean = (d) => getMarketDay('NYSE', d).open
+): boolean {
+  const today = isoDateCT(date);
+  if (!isTradingDay(today)) return false;
+  for (let day = `${today.slice(0, 8)}01`; day < today; day = addDaysIso(day, 1)) {
+    if (isTradingDay(day)) return false;
+  }
+  return true;
+}
+
+/** YYYY-MM for the CT calendar month containing `date`. */
+export function monthKeyCT(date: Date = new Date()): string {
+  return formatInTimeZone(date, CT_TIMEZONE, 'yyyy-MM');
+}
+
+/** Shift a YYYY-MM month key by whole months. */
+export function addMonthsKey(monthKey: string, months: number): string {
+  const d = new Date(`${monthKey}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 7);
+}
+
+/** Last calendar day (YYYY-MM-DD) of a YYYY-MM month key. */
+export function monthEndIso(monthKey: string): string {
+  return addDaysIso(`${addMonthsKey(monthKey, 1)}-01`, -1);
+}
+
+/**
+ * Whether US equity markets are in their regular session at `date`:
+ * 8:30 AM–3:00 PM CT (9:30–4:00 ET; both zones shift for DST together) on an
+ * NYSE trading day.
+ */
+export function isUsMarketHoursCT(
+  date: Date = new Date(),
+  isTradingDay: (isoDate: string) => boolean = (d) => getMarketDay('NYSE', d).open
+): boolean {
+  if (!isTradingDay(isoDateCT(date))) return false;
+  const minutes = parseInt(formatInTimeZone(date, CT_TIMEZONE, 'H')) * 60 + parseInt(formatInTimeZone(date, CT_TIMEZONE, 'm'));
+  return minutes >= 8 * 60 + 30 && minutes < 15 * 60;
+}
+
+/** "3 days", "5 hours", "40 minutes" — the largest whole unit. */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+  if (days >= 1) return plural(days, 'day');
+  if (hours >= 1) return plural(hours, 'hour');
+  return plural(minutes, 'minute');
 }
 
 export function getTodayET(): Date {
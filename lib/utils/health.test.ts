@@ -0,0 +1,46 @@
+import { test, expect, describe } from 'bun:test';
+import { runHealthChecks, type DependencyProbe } from './health';
+
+const ok = (name: string): DependencyProbe => ({ name, configured: true, run: async () => 'pong' });
+const failing = (name: string, message: string): DependencyProbe => ({
+  name,
+  configured: true,
+  run: async () => {
+    throw new Error(message);
+  },
+});
+
+describe('runHealthChecks', () => {
+  test('healthy when every configured probe answers; unconfigured ones are skipped', async () => {
+    const report = await runHealthChecks([ok('slack'), { name: 'bm-pro', configured: false, run: async () => {} }]);
+    expect(report.status).toBe('healthy');
+    expect(report.dependencies.map((d) => [d.name, d.status, d.error])).toEqual([
+      ['slack', 'ok', null],
+      ['bm-pro', 'skipped', null],
+    ]);
+    expect(report.dependencies[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(report.dependencies[1].latencyMs).toBeNull();
+  });
+
+  test('one failing probe makes the report unhealthy and carries its error', async () => {
+    const report = await runHealthChecks([ok('anthropic'), failing('terminal /api/brief', 'Terminal API /api/brief 502: bad gateway')]);
+    expect(report.status).toBe('unhealthy');
+    expect(report.dependencies[1]).toMatchObject({
+      status: 'down',
+      error: 'Terminal API /api/brief 502: bad gateway',
+      lastError: { message: 'Terminal API /api/brief 502: bad gateway' },
+    });
+  });
+
+  test('a hung probe is cut off at the timeout', async () => {
+    const hung: DependencyProbe = { name: 'supabase-hung', configured: true, run: () => new Promise(() => {}) };
+    const report = await runHealthChecks([hung], 20);
+    expect(report.dependencies[0]).toMatchObject({ status: 'down', error: 'supabase-hung timed out after 20ms' });
+  });
+
+  test('a recovered dependency keeps its last error', async () => {
+    await runHealthChecks([failing('flappy', 'ECONNRESET')]);
+    const report = await runHealthChecks([ok('flappy')]);
+    expect(report.dependencies[0]).toMatchObject({ status: 'ok', error: null, lastError: { message: 'ECONNRESET' } });
+  });
+});
@@ -0,0 +1,67 @@
+// Dependency probes for the deep health check (api/health/deep.ts).
+//
+// Every probe runs in parallel under its own timeout, so one hung upstream
+// costs at most that timeout rather than the whole function budget. A probe
+// that isn't configured (e.g. no BM_PRO_API_KEY) is reported as skipped, not
+// down. The last failure per dependency is kept for the life of the instance,
+// so a dependency that flapped between checks still shows what went wrong.
+
+import { withTimeout } from './timeout';
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 8000;
+
+export type DependencyStatus = 'ok' | 'down' | 'skipped';
+
+export interface DependencyProbe {
+  name: string;
+  configured: boolean;
+  run: () => Promise<unknown>;
+}
+
+export interface DependencyHealth {
+  name: string;
+  status: DependencyStatus;
+  latencyMs: number | null;
+  error: string | null; // this check's failure
+  lastError: { message: string; at: string } | null; // most recent failure on this instance
+}
+
+export interface HealthReport {
+  status: 'healthy' | 'unhealthy';
+  dependencies: DependencyHealth[];
+}
+
+const lastErrors = new Map<string, { message: string; at: string }>();
+
+async function runProbe(probe: DependencyProbe, timeoutMs: number): Promise<DependencyHealth> {
+  if (!probe.configured) {
+    return { name: probe.name, status: 'skipped', latencyMs: null, error: null, lastError: lastErrors.get(probe.name) ?? null };
+  }
+
+  const started = Date.now();
+  try {
+    await withTimeout(probe.run(), timeoutMs, probe.name);
+    return {
+      name: probe.name,
+      status: 'ok',
+      latencyMs: Date.now() - started,
+      error: null,
+      lastError: lastErrors.get(probe.name) ?? null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lastError = { message, at: new Date().toISOString() };
+    lastErrors.set(probe.name, lastError);
+    return { name: probe.name, status: 'down', latencyMs: Date.now() - started, error: message, lastError };
+  }
+}
+
+/** Run every probe; unhealthy when any configured dependency is down. */
+export async function runHealthChecks(
+  probes: DependencyProbe[],
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS
+): Promise<HealthReport> {
+  const dependencies = await Promise.all(probes.map((probe) => runProbe(probe, timeoutMs)));
+  const status = dependencies.some((d) => d.status === 'down') ? 'unhealthy' : 'healthy';
+  return { status, dependencies };
+}
@@ -188,11 +188,22 @@ export function getHelpMessage(): string {
 • "What's MSTR's mNAV?"
 • "Show me the BTCTC movers today"
 
+*🗓️ History:*
+• "What was our AUM on March 3rd?"
+• "How did we do last week versus BTC?"
+• "What's our Sharpe and beta to BTC over the last 90 days?"
+• "How far are we off the high?"
+
 *⛓️ On-chain & Market:*
 • "What's the MVRV Z-Score right now?"
 • "What's the fear & greed index?"
 • "What's BTC's 200-week moving average?"
 
+*🔔 Alerts (sent to you by DM):*
+• "Alert me if MSTR diluted mNAV drops below 1.2"
+• "Tell me when Fear & Greed goes above 80"
+• "list alerts" / "delete alert 3"
+
 *💡 Tips:*
 • My data comes from the 210k terminal — the same source as the daily reports
 • Every answer is stamped with an "as of" time
@@ -0,0 +1,58 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { closedHomeMarkets, getHoldingMarkets, getMarketDay, marketForVenue } from './market-calendar';
+
+describe('getMarketDay', () => {
+  test('an NYSE holiday is closed with its name', () => {
+    expect(getMarketDay('NYSE', '2026-11-26')).toEqual({
+      market: 'NYSE',
+      date: '2026-11-26',
+      open: false,
+      holiday: 'Thanksgiving Day',
+      earlyClose: null,
+    });
+    expect(getMarketDay('NYSE', '2027-03-26').holiday).toBe('Good Friday');
+  });
+
+  test('an early close is open with its close time', () => {
+    expect(getMarketDay('NYSE', '2026-11-27')).toMatchObject({ open: true, earlyClose: '1:00 PM ET' });
+    expect(getMarketDay('LSE', '2026-12-31')).toMatchObject({ open: true, earlyClose: '12:30 PM UK' });
+  });
+
+  test('markets keep their own holidays', () => {
+    expect(getMarketDay('TSX', '2026-10-12').holiday).toBe('Thanksgiving Day');
+    expect(getMarketDay('NYSE', '2026-10-12').open).toBe(true);
+    expect(getMarketDay('LSE', '2026-04-06').holiday).toBe('Easter Monday');
+  });
+
+  test('weekends are closed without a holiday name', () => {
+    expect(getMarketDay('NYSE', '2026-10-24')).toMatchObject({ open: false, holiday: null });
+  });
+
+  test('a year without data falls back to weekdays', () => {
+    expect(getMarketDay('NYSE', '2031-11-27').open).toBe(true);
+  });
+});
+
+describe('holding markets', () => {
+  afterEach(() => {
+    delete process.env.HOLDING_MARKETS;
+  });
+
+  test('venue codes map to the calendar they follow', () => {
+    expect(marketForVenue('tsxv')).toBe('TSX');
+    expect(marketForVenue('AQSE')).toBe('LSE');
+    expect(marketForVenue('SET')).toBeNull();
+  });
+
+  test('HOLDING_MARKETS adds to the defaults; unknown venues are skipped', () => {
+    process.env.HOLDING_MARKETS = 'xyz:TSX-V, ABC:SET';
+    expect(getHoldingMarkets()).toEqual({ SWC: 'LSE', XYZ: 'TSX' });
+  });
+
+  test('closedHomeMarkets lists holdings whose market was shut that day', () => {
+    const holdings = [{ ticker: 'SWC' }, { ticker: 'MSTR' }, { ticker: 'XYZ' }];
+    const closed = closedHomeMarkets(holdings, '2026-08-31', { SWC: 'LSE', MSTR: 'NYSE', XYZ: 'TSX' });
+    expect([...closed.keys()]).toEqual(['SWC']);
+    expect(closed.get('SWC')?.holiday).toBe('Summer Bank Holiday');
+  });
+});
@@ -0,0 +1,200 @@
+// Exchange calendars: which days each market is closed or closes early.
+//
+// The daily reports follow NYSE: no report on an NYSE holiday. The EOD report
+// also marks holdings whose home market was closed that day, since their 1D is
+// carried over from the last session. A holding's market comes from
+// HOLDING_MARKETS ("SWC:AQSE,XYZ:TSXV"), over the defaults below; venues that
+// share a calendar (TSX-V with TSX, Aquis with the LSE) map to one market.
+//
+// Holiday data is published a year or so ahead and is maintained by hand here.
+// A date outside CALENDAR_YEARS is treated as an ordinary weekday, with a
+// warning, so a stale table degrades to the old weekday-only behaviour.
+
+export type MarketId = 'NYSE' | 'TSX' | 'LSE';
+
+export const CALENDAR_YEARS = [2026, 2027];
+
+export const MARKET_LABELS: Record<MarketId, string> = {
+  NYSE: 'NYSE',
+  TSX: 'TSX / TSX-V',
+  LSE: 'LSE / Aquis',
+};
+
+// Venue codes accepted in HOLDING_MARKETS, by the calendar they follow.
+const VENUE_MARKETS: Record<string, MarketId> = {
+  NYSE: 'NYSE',
+  NASDAQ: 'NYSE',
+  OTC: 'NYSE',
+  TSX: 'TSX',
+  TSXV: 'TSX',
+  'TSX-V': 'TSX',
+  CSE: 'TSX',
+  LSE: 'LSE',
+  AQSE: 'LSE',
+  AQUIS: 'LSE',
+};
+
+// Holdings whose home market isn't NYSE; anything unlisted is not annotated.
+const DEFAULT_HOLDING_MARKETS: Record<string, MarketId> = {
+  SWC: 'LSE', // The Smarter Web Company
+};
+
+interface MarketCalendar {
+  holidays: Record<string, string>; // YYYY-MM-DD → holiday name
+  earlyCloses: Record<string, string>; // YYYY-MM-DD → local close time
+}
+
+const CALENDARS: Record<MarketId, MarketCalendar> = {
+  NYSE: {
+    holidays: {
+      '2026-01-01': "New Year's Day",
+      '2026-01-19': 'Martin Luther King Jr. Day',
+      '2026-02-16': "Washington's Birthday",
+      '2026-04-03': 'Good Friday',
+      '2026-05-25': 'Memorial Day',
+      '2026-06-19': 'Juneteenth',
+      '2026-07-03': 'Independence Day (observed)',
+      '2026-09-07': 'Labor Day',
+      '2026-11-26': 'Thanksgiving Day',
+      '2026-12-25': 'Christmas Day',
+      '2027-01-01': "New Year's Day",
+      '2027-01-18': 'Martin Luther King Jr. Day',
+      '2027-02-15': "Washington's Birthday",
+      '2027-03-26': 'Good Friday',
+      '2027-05-31': 'Memorial Day',
+      '2027-06-18': 'Juneteenth (observed)',
+      '2027-07-05': 'Independence Day (observed)',
+      '2027-09-06': 'Labor Day',
+      '2027-11-25': 'Thanksgiving Day',
+      '2027-12-24': 'Christmas Day (observed)',
+    },
+    earlyCloses: {
+      '2026-11-27': '1:00 PM ET',
+      '2026-12-24': '1:00 PM ET',
+      '2027-11-26': '1:00 PM ET',
+    },
+  },
+  TSX: {
+    holidays: {
+      '2026-01-01': "New Year's Day",
+      '2026-02-16': 'Family Day',
+      '2026-04-03': 'Good Friday',
+      '2026-05-18': 'Victoria Day',
+      '2026-07-01': 'Canada Day',
+      '2026-08-03': 'Civic Holiday',
+      '2026-09-07': 'Labour Day',
+      '2026-10-12': 'Thanksgiving Day',
+      '2026-12-25': 'Christmas Day',
+      '2026-12-28': 'Boxing Day (observed)',
+      '2027-01-01': "New Year's Day",
+      '2027-02-15': 'Family Day',
+      '2027-03-26': 'Good Friday',
+      '2027-05-24': 'Victoria Day',
+      '2027-07-01': 'Canada Day',
+      '2027-08-02': 'Civic Holiday',
+      '2027-09-06': 'Labour Day',
+      '2027-10-11': 'Thanksgiving Day',
+      '2027-12-27': 'Christmas Day (observed)',
+      '2027-12-28': 'Boxing Day (observed)',
+    },
+    earlyCloses: {
+      '2026-12-24': '1:00 PM ET',
+      '2027-12-24': '1:00 PM ET',
+    },
+  },
+  LSE: {
+    holidays: {
+      '2026-01-01': "New Year's Day",
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-04': 'Early May Bank Holiday',
+      '2026-05-25': 'Spring Bank Holiday',
+      '2026-08-31': 'Summer Bank Holiday',
+      '2026-12-25': 'Christmas Day',
+      '2026-12-28': 'Boxing Day (substitute)',
+      '2027-01-01': "New Year's Day",
+      '2027-03-26': 'Good Friday',
+      '2027-03-29': 'Easter Monday',
+      '2027-05-03': 'Early May Bank Holiday',
+      '2027-05-31': 'Spring Bank Holiday',
+      '2027-08-30': 'Summer Bank Holiday',
+      '2027-12-27': 'Christmas Day (substitute)',
+      '2027-12-28': 'Boxing Day (substitute)',
+    },
+    earlyCloses: {
+      '2026-12-24': '12:30 PM UK',
+      '2026-12-31': '12:30 PM UK',
+      '2027-12-24': '12:30 PM UK',
+      '2027-12-31': '12:30 PM UK',
+    },
+  },
+};
+
+export interface MarketDay {
+  market: MarketId;
+  date: string; // YYYY-MM-DD
+  open: boolean;
+  holiday: string | null; // why a weekday is closed
+  earlyClose: string | null; // local close time on a shortened session
+}
+
+const warnedYears = new Set<number>();
+
+/** The session for `market` on a calendar date (weekends closed, no holiday name). */
+export function getMarketDay(market: MarketId, isoDate: string): MarketDay {
+  const weekday = new Date(`${isoDate}T12:00:00Z`).getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    return { market, date: isoDate, open: false, holiday: null, earlyClose: null };
+  }
+
+  const year = Number(isoDate.slice(0, 4));
+  if (!CALENDAR_YEARS.includes(year) && !warnedYears.has(year)) {
+    warnedYears.add(year);
+    console.warn(`[Market Calendar] No holiday data for ${year}; treating weekdays as open`);
+  }
+
+  const calendar = CALENDARS[market];
+  const holiday = calendar.holidays[isoDate] ?? null;
+  return {
+    market,
+    date: isoDate,
+    open: holiday === null,
+    holiday,
+    earlyClose: holiday === null ? calendar.earlyCloses[isoDate] ?? null : null,
+  };
+}
+
+/** Market for a venue code ("TSXV", "AQSE", …), or null if unknown. */
+export function marketForVenue(venue: string): MarketId | null {
+  return VENUE_MARKETS[venue.trim().toUpperCase()] ?? null;
+}
+
+/**
+ * Home markets by upper-case ticker: the defaults plus HOLDING_MARKETS
+ * ("SWC:AQSE,XYZ:TSXV"), read lazily. Unknown venues are skipped.
+ */
+export function getHoldingMarkets(): Record<string, MarketId> {
+  const out: Record<string, MarketId> = { ...DEFAULT_HOLDING_MARKETS };
+  for (const part of (process.env.HOLDING_MARKETS ?? '').split(',')) {
+    const [ticker, venue] = part.split(':').map((s) => s?.trim());
+    const market = venue ? marketForVenue(venue) : null;
+    if (ticker && market) out[ticker.toUpperCase()] = market;
+  }
+  return out;
+}
+
+/** Holdings whose home market was closed on `isoDate`, keyed by ticker. */
+export function closedHomeMarkets(
+  holdings: Array<{ ticker: string }>,
+  isoDate: string,
+  markets: Record<string, MarketId> = getHoldingMarkets()
+): Map<string, MarketDay> {
+  const closed = new Map<string, MarketDay>();
+  for (const { ticker } of holdings) {
+    const market = markets[ticker.toUpperCase()];
+    if (!market) continue;
+    const day = getMarketDay(market, isoDate);
+    if (!day.open) closed.set(ticker, day);
+  }
+  return closed;
+}
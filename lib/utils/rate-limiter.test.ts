@@ -0,0 +1,43 @@
+import { test, expect, describe, beforeAll } from 'bun:test';
+import { checkBudget, checkRateLimit, releaseBudget, trackCost } from './rate-limiter';
+
+// No Supabase credentials → the in-process budget fallback is exercised.
+beforeAll(() => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+});
+
+describe('checkRateLimit', () => {
+  test('allows 20 requests per window, warning from the 16th', () => {
+    const results = Array.from({ length: 21 }, () => checkRateLimit('rl-user'));
+    expect(results[14].warning).toBeUndefined();
+    expect(results[15].warning).toContain('approaching your rate limit');
+    expect(results[19].allowed).toBe(true);
+    expect(results[20].allowed).toBe(false);
+  });
+});
+
+describe('budget (in-process fallback)', () => {
+  test('a fresh user has the full budget and no ledger reservation', async () => {
+    const r = await checkBudget('fresh-user', { channel: 'C1', model: 'm' });
+    expect(r).toMatchObject({ allowed: true, budgetRemaining: 10, reservationId: null });
+  });
+
+  test('tracked cost accumulates and blocks once the $10 day is spent', async () => {
+    // 400k tokens at $15/1M = $6 per request.
+    const first = await trackCost('spender', 300000, 100000, { channel: 'C1' });
+    expect(first.estimatedCost).toBeCloseTo(6);
+    expect(first.withinBudget).toBe(true);
+
+    expect((await checkBudget('spender')).budgetRemaining).toBeCloseTo(4);
+
+    const second = await trackCost('spender', 300000, 100000);
+    expect(second.withinBudget).toBe(false);
+    expect(second.budgetRemaining).toBe(0);
+    expect((await checkBudget('spender')).allowed).toBe(false);
+  });
+
+  test('releasing without a reservation is a no-op', async () => {
+    await expect(releaseBudget(null)).resolves.toBeUndefined();
+  });
+});
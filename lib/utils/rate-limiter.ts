@@ -1,4 +1,18 @@
 // Rate limiting to prevent abuse and control costs
+//
+// Request rate limits are per instance (a burst lands on one warm instance).
+// The daily cost budget is enforced against the Supabase usage ledger so it
+// holds across instances; the in-process cost Map is only the fallback when
+// Supabase is unconfigured or unreachable.
+
+import { isSupabaseConfigured } from '../supabase/client';
+import {
+  getUserSpendSince,
+  recordUsage,
+  releaseUsage,
+  reserveUsage,
+  settleUsage,
+} from '../supabase/usage-ledger';
 
 interface RateLimitEntry {
   count: number;
@@ -37,8 +51,20 @@ const COST_CONFIG = {
   dailyBudgetPerUser: 10,
   // Window for cost tracking (24 hours)
   costWindowMs: 24 * 60 * 60 * 1000,
+  // Held against the ledger while a request is in flight, so concurrent
+  // requests can't all pass the check and overshoot the budget together
+  reservationPerRequest: 0.25,
 };
 
+export interface UsageContext {
+  channel?: string;
+  model?: string;
+}
+
+function requestCost(inputTokens: number, outputTokens: number): number {
+  return ((inputTokens + outputTokens) / 1000000) * COST_CONFIG.costPer1MTokens;
+}
+
 /**
  * Check if a user has exceeded their rate limit
  */
@@ -84,14 +110,43 @@ export function checkRateLimit(userId: string): {
 }
 
 /**
- * Check if a user is within their daily budget (call BEFORE processing request)
+ * Check if a user is within their daily budget (call BEFORE processing request).
+ * With Supabase configured this atomically reserves budget in the usage ledger;
+ * pass the returned reservationId to trackCost (or releaseBudget if the request
+ * ends without calling Claude).
  */
-export function checkBudget(userId: string): {
+export async function checkBudget(userId: string, usage: UsageContext = {}): Promise<{
   allowed: boolean;
   budgetRemaining: number;
   resetTime: number;
-} {
+  reservationId: number | null;
+}> {
   const now = Date.now();
+
+  if (isSupabaseConfigured()) {
+    try {
+      const reservation = await reserveUsage({
+        userId,
+        channel: usage.channel ?? null,
+        model: usage.model ?? null,
+        reserveUsd: COST_CONFIG.reservationPerRequest,
+        budgetUsd: COST_CONFIG.dailyBudgetPerUser,
+        since: new Date(now - COST_CONFIG.costWindowMs),
+      });
+
+      return {
+        allowed: reservation.allowed,
+        budgetRemaining: Math.max(0, COST_CONFIG.dailyBudgetPerUser - reservation.spentUsd),
+        resetTime: reservation.oldestAt
+          ? new Date(reservation.oldestAt).getTime() + COST_CONFIG.costWindowMs
+          : now + COST_CONFIG.costWindowMs,
+        reservationId: reservation.entryId,
+      };
+    } catch (error) {
+      console.warn('[Budget] Usage ledger unavailable, using in-process budget:', error);
+    }
+  }
+
   const key = `cost:${userId}`;
   const entry = costTracking.get(key);
 
@@ -101,6 +156,7 @@ export function checkBudget(userId: string): {
       allowed: true,
       budgetRemaining: COST_CONFIG.dailyBudgetPerUser,
       resetTime: now + COST_CONFIG.costWindowMs,
+      reservationId: null,
     };
   }
 
@@ -111,20 +167,45 @@ export function checkBudget(userId: string): {
     allowed,
     budgetRemaining,
     resetTime: entry.resetTime,
+    reservationId: null,
   };
 }
 
 /**
- * Track cost for a user (call AFTER processing request)
+ * Release a budget reservation for a request that never reached Claude
+ * (served from cache, or failed first). Best-effort: a leftover hold only
+ * ages out of the 24h window.
  */
-export function trackCost(userId: string, inputTokens: number, outputTokens: number): {
+export async function releaseBudget(reservationId: number | null): Promise<void> {
+  if (reservationId == null) {
+    return;
+  }
+
+  try {
+    await releaseUsage(reservationId);
+  } catch (error) {
+    console.warn(`[Budget] Failed to release reservation ${reservationId}:`, error);
+  }
+}
+
+/**
+ * Track cost for a user (call AFTER processing request). Settles the ledger
+ * reservation from checkBudget, or records a fresh ledger row if there was none.
+ */
+export async function trackCost(
+  userId: string,
+  inputTokens: number,
+  outputTokens: number,
+  usage: UsageContext & { reservationId?: number | null } = {}
+): Promise<{
   withinBudget: boolean;
   estimatedCost: number;
   budgetRemaining: number;
-} {
+}> {
   const now = Date.now();
   const key = `cost:${userId}`;
-  
+  const cost = requestCost(inputTokens, outputTokens);
+
   let entry = costTracking.get(key);
 
   // Create new entry if doesn't exist or window expired
@@ -138,21 +219,38 @@ export function trackCost(userId: string, inputTokens: number, outputTokens: num
     costTracking.set(key, entry);
   }
 
-  // Calculate cost for this request
-  const totalTokens = inputTokens + outputTokens;
-  const requestCost = (totalTokens / 1000000) * COST_CONFIG.costPer1MTokens;
-
   // Update entry
-  entry.tokensUsed += totalTokens;
-  entry.estimatedCost += requestCost;
+  entry.tokensUsed += inputTokens + outputTokens;
+  entry.estimatedCost += cost;
   entry.requestCount++;
 
-  const budgetRemaining = Math.max(0, COST_CONFIG.dailyBudgetPerUser - entry.estimatedCost);
-  const withinBudget = entry.estimatedCost <= COST_CONFIG.dailyBudgetPerUser;
+  let spent = entry.estimatedCost;
+
+  if (isSupabaseConfigured()) {
+    try {
+      const amounts = { inputTokens, outputTokens, costUsd: cost };
+      if (usage.reservationId != null) {
+        await settleUsage(usage.reservationId, amounts);
+      } else {
+        await recordUsage({
+          userId,
+          channel: usage.channel ?? null,
+          model: usage.model ?? null,
+          ...amounts,
+        });
+      }
+      spent = await getUserSpendSince(userId, new Date(now - COST_CONFIG.costWindowMs));
+    } catch (error) {
+      console.warn('[Budget] Failed to write usage ledger (using in-process total):', error);
+    }
+  }
+
+  const budgetRemaining = Math.max(0, COST_CONFIG.dailyBudgetPerUser - spent);
+  const withinBudget = spent <= COST_CONFIG.dailyBudgetPerUser;
 
   return {
     withinBudget,
-    estimatedCost: entry.estimatedCost,
+    estimatedCost: spent,
     budgetRemaining,
   };
 }
@@ -184,7 +282,8 @@ export function getRateLimitStats(userId: string): {
 }
 
 /**
- * Get cost stats for a user
+ * Get this instance's cost stats for a user (the usage ledger is the
+ * cross-instance record)
  */
 export function getCostStats(userId: string): {
   tokensUsed: number;
@@ -0,0 +1,97 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  candidateUtcHours,
+  getReportSchedules,
+  isScheduledRun,
+  scheduledTimeOn,
+  type ScheduledReport,
+} from './report-schedule';
+
+const MORNING = { time: '09:00', timeZone: 'America/Chicago' };
+
+describe('isScheduledRun', () => {
+  test('under CDT only the 14:00 UTC firing is 9:00 AM CT', () => {
+    expect(isScheduledRun(MORNING, new Date('2026-10-19T14:00:00Z'))).toBe(true);
+    expect(isScheduledRun(MORNING, new Date('2026-10-19T15:00:00Z'))).toBe(false);
+  });
+
+  test('under CST only the 15:00 UTC firing is 9:00 AM CT', () => {
+    expect(isScheduledRun(MORNING, new Date('2026-12-01T14:00:00Z'))).toBe(false);
+    expect(isScheduledRun(MORNING, new Date('2026-12-01T15:00:00Z'))).toBe(true);
+  });
+
+  test('a late firing still counts within the tolerance', () => {
+    expect(isScheduledRun(MORNING, new Date('2026-10-19T14:04:00Z'))).toBe(true);
+    expect(isScheduledRun(MORNING, new Date('2026-10-19T14:30:00Z'))).toBe(false);
+    expect(isScheduledRun(MORNING, new Date('2026-10-19T13:59:00Z'))).toBe(false);
+  });
+
+  test('a schedule near midnight wraps the day', () => {
+    const late = { time: '23:50', timeZone: 'America/Chicago' };
+    expect(isScheduledRun(late, new Date('2026-10-20T05:05:00Z'))).toBe(true); // 00:05 CDT
+  });
+});
+
+describe('scheduledTimeOn', () => {
+  test('resolves local time on the date, DST included', () => {
+    expect(scheduledTimeOn(MORNING, '2026-10-19').toISOString()).toBe('2026-10-19T14:00:00.000Z');
+    expect(scheduledTimeOn(MORNING, '2026-12-01').toISOString()).toBe('2026-12-01T15:00:00.000Z');
+  });
+});
+
+describe('candidateUtcHours', () => {
+  test('a CT schedule falls on two UTC hours', () => {
+    expect(candidateUtcHours(MORNING, 2026)).toEqual([14, 15]);
+    expect(candidateUtcHours({ time: '09:00', timeZone: 'Asia/Tokyo' }, 2026)).toEqual([0]);
+  });
+
+  test('vercel.json fires each report cron at every candidate hour', () => {
+    const vercel = JSON.parse(readFileSync(join(__dirname, '../../vercel.json'), 'utf8'));
+    const schedules = getReportSchedules();
+    const paths: Record<ScheduledReport, string> = {
+      morning: '/api/cron/morning-report',
+      eod: '/api/cron/eod-report',
+      weekly: '/api/cron/weekly-report',
+      monthly: '/api/cron/monthly-report',
+    };
+
+    for (const report of Object.keys(paths) as ScheduledReport[]) {
+      const cron = vercel.crons.find((c: { path: string }) => c.path === paths[report]);
+      const [minute, hours] = cron.schedule.split(' ');
+      expect(Number(minute)).toBe(Number(schedules[report].time.slice(3)));
+      expect(hours.split(',').map(Number)).toEqual(candidateUtcHours(schedules[report], 2026));
+    }
+  });
+});
+
+describe('getReportSchedules', () => {
+  afterEach(() => {
+    delete process.env.REPORT_TIMEZONE;
+    delete process.env.MORNING_REPORT_TIME;
+  });
+
+  test('defaults to the CT report times', () => {
+    expect(getReportSchedules()).toEqual({
+      morning: { time: '09:00', timeZone: 'America/Chicago' },
+      eod: { time: '19:00', timeZone: 'America/Chicago' },
+      weekly: { time: '19:30', timeZone: 'America/Chicago' },
+      monthly: { time: '09:30', timeZone: 'America/Chicago' },
+    });
+  });
+
+  test('reads the zone and times from env', () => {
+    process.env.REPORT_TIMEZONE = 'America/New_York';
+    process.env.MORNING_REPORT_TIME = '10:15';
+    expect(getReportSchedules().morning).toEqual({ time: '10:15', timeZone: 'America/New_York' });
+  });
+
+  test('rejects a malformed time or an unknown zone', () => {
+    process.env.MORNING_REPORT_TIME = '9am';
+    expect(() => getReportSchedules()).toThrow('MORNING_REPORT_TIME "9am" must be HH:mm (24-hour)');
+    delete process.env.MORNING_REPORT_TIME;
+    process.env.REPORT_TIMEZONE = 'Central';
+    expect(() => getReportSchedules()).toThrow('REPORT_TIMEZONE "Central" is not a valid IANA time zone');
+  });
+});
@@ -0,0 +1,93 @@
+// Report schedules in local time. Vercel crons are fixed UTC, so a report
+// pinned to one UTC hour drifts an hour at every daylight-saving change. Each
+// report instead declares a wall-clock time in an IANA zone (America/Chicago by
+// default); vercel.json fires its cron at both UTC hours that time can fall on,
+// and isScheduledRun() lets only the one matching local time through.
+//
+// Times come from MORNING_REPORT_TIME, EOD_REPORT_TIME, WEEKLY_REPORT_TIME and
+// MONTHLY_REPORT_TIME ("HH:mm", 24-hour) in REPORT_TIMEZONE. Changing one means
+// changing its cron hours too — candidateUtcHours() lists them.
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+export type ScheduledReport = 'morning' | 'eod' | 'weekly' | 'monthly';
+
+export interface ReportSchedule {
+  time: string; // HH:mm local
+  timeZone: string; // IANA zone
+}
+
+export type ReportSchedules = Record<ScheduledReport, ReportSchedule>;
+
+export const DEFAULT_REPORT_TIMEZONE = 'America/Chicago';
+
+export const DEFAULT_REPORT_TIMES: Record<ScheduledReport, string> = {
+  morning: '09:00',
+  eod: '19:00',
+  weekly: '19:30',
+  monthly: '09:30',
+};
+
+const TIME_ENV: Record<ScheduledReport, string> = {
+  morning: 'MORNING_REPORT_TIME',
+  eod: 'EOD_REPORT_TIME',
+  weekly: 'WEEKLY_REPORT_TIME',
+  monthly: 'MONTHLY_REPORT_TIME',
+};
+
+// How late after its local time a run still counts. Under an hour, so only one
+// of the two candidate UTC firings ever matches.
+export const SCHEDULE_TOLERANCE_MINUTES = 30;
+
+const HH_MM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function minutesOfDay(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Schedules from env over the defaults. Throws on a malformed time or an
+ * unknown zone, so a bad setting fails at startup rather than silently
+ * skipping every report.
+ */
+export function getReportSchedules(): ReportSchedules {
+  const timeZone = process.env.REPORT_TIMEZONE?.trim() || DEFAULT_REPORT_TIMEZONE;
+  try {
+    formatInTimeZone(new Date(), timeZone, 'HH:mm');
+  } catch {
+    throw new Error(`REPORT_TIMEZONE "${timeZone}" is not a valid IANA time zone`);
+  }
+
+  const schedules = {} as ReportSchedules;
+  for (const report of Object.keys(DEFAULT_REPORT_TIMES) as ScheduledReport[]) {
+    const time = process.env[TIME_ENV[report]]?.trim() || DEFAULT_REPORT_TIMES[report];
+    if (!HH_MM.test(time)) {
+      throw new Error(`${TIME_ENV[report]} "${time}" must be HH:mm (24-hour)`);
+    }
+    schedules[report] = { time, timeZone };
+  }
+  return schedules;
+}
+
+/** Whether `now` is this schedule's run: within the tolerance after its local time. */
+export function isScheduledRun(schedule: ReportSchedule, now: Date = new Date()): boolean {
+  const local = minutesOfDay(formatInTimeZone(now, schedule.timeZone, 'HH:mm'));
+  const late = (local - minutesOfDay(schedule.time) + 1440) % 1440;
+  return late < SCHEDULE_TOLERANCE_MINUTES;
+}
+
+/** The instant the schedule falls on a calendar date (YYYY-MM-DD, in its zone). */
+export function scheduledTimeOn(schedule: ReportSchedule, isoDate: string): Date {
+  return fromZonedTime(`${isoDate}T${schedule.time}:00`, schedule.timeZone);
+}
+
+/** The UTC hours the schedule falls on across the year — what its cron must fire at. */
+export function candidateUtcHours(schedule: ReportSchedule, year: number): number[] {
+  const hours = new Set<number>();
+  for (let month = 1; month <= 12; month++) {
+    const date = `${year}-${String(month).padStart(2, '0')}-15`;
+    hours.add(scheduledTimeOn(schedule, date).getUTCHours());
+  }
+  return [...hours].sort((a, b) => a - b);
+}
@@ -9,6 +9,9 @@ interface CacheEntry {
 // In-memory cache (resets on cold start)
 const responseCache = new Map<string, CacheEntry>();
 
+// Lookup counters for this instance (cacheable queries only)
+const lookupStats = { hits: 0, misses: 0 };
+
 // Cache configuration
 const CACHE_CONFIG = {
   // Cache TTL in milliseconds (5 minutes for most queries)
@@ -105,6 +108,7 @@ export function getCachedResponse(
   const entry = responseCache.get(key);
   
   if (!entry) {
+    lookupStats.misses++;
     return null;
   }
   
@@ -114,12 +118,14 @@ export function getCachedResponse(
   // Check if entry is expired
   if (now - entry.timestamp > ttl) {
     responseCache.delete(key);
+    lookupStats.misses++;
     console.log(`[Cache] Expired cache entry for: ${query.substring(0, 50)}`);
     return null;
   }
   
   // Update hit count
   entry.hitCount++;
+  lookupStats.hits++;
   console.log(`[Cache] Cache hit (${entry.hitCount}x) for: ${query.substring(0, 50)}`);
   
   return entry.response;
@@ -195,11 +201,14 @@ export function cleanupExpiredCache(): void {
 }
 
 /**
- * Get cache statistics
+ * Get cache statistics for this instance (counters reset on cold start)
  */
 export function getCacheStats(): {
   size: number;
   totalHits: number;
+  hits: number;
+  lookups: number;
+  hitRate: number | null; // hits / lookups, null before the first lookup
   entries: Array<{ query: string; hitCount: number; age: number }>;
 } {
   const now = Date.now();
@@ -218,9 +227,14 @@ export function getCacheStats(): {
   // Sort by hit count descending
   entries.sort((a, b) => b.hitCount - a.hitCount);
   
+  const lookups = lookupStats.hits + lookupStats.misses;
+
   return {
     size: responseCache.size,
     totalHits,
+    hits: lookupStats.hits,
+    lookups,
+    hitRate: lookups > 0 ? lookupStats.hits / lookups : null,
     entries: entries.slice(0, 10), // Top 10
   };
 }
@@ -1,37 +1,128 @@
 /**
  * Manual trigger script for EOD report
- * Usage: npx tsx run-eod-report.ts [--test]
+ * Usage: npx tsx run-eod-report.ts [--test] [--dry-run [--fixture] [--json]]
  *
  * Options:
- *   --test    Post to test channel instead of production
+ *   --test      Post to test channel instead of production
+ *   --dry-run   Print the rendered report instead of posting it (with --test, post it there too)
+ *   --fixture   Render sample data instead of fetching (dry runs only)
+ *   --json      Print the dry-run preview as JSON (blocks included)
  */
 
 import { config as dotenvConfig } from 'dotenv';
 dotenvConfig({ path: '.env.local' });
 
 import { config } from './lib/config';
-import { postMessage } from './lib/slack/client';
+import { postReportThread, publishDailyReport } from './lib/slack/daily-report';
+import { eodReportFigures } from './lib/analytics/report-figures';
+import { sinceMorning } from './lib/analytics/since-morning';
+import { getTodaySnapshot } from './lib/supabase/client';
 import { fetchBrief } from './lib/terminal/brief';
-import { buildEodReportBlocks } from './lib/slack/blocks';
+import {
+  EOD_BTCTC_MOVERS_LIMIT,
+  buildEodReportBlocks,
+  buildEodReportReplies,
+} from './lib/slack/blocks';
+import { fetchBtctc } from './lib/terminal/btctc';
+import { computeBtctcMovers, type BtctcMovers } from './lib/analytics/btctc-movers';
+import { getEodValueHistory, snapshotDateCT } from './lib/supabase/history';
+import { summarizeDrawdowns } from './lib/analytics/drawdown';
+import { addDaysIso } from './lib/utils/dates';
+import { closedHomeMarkets } from './lib/utils/market-calendar';
 import { fmtUsd } from './lib/format';
 import { fetchOnChainMetrics, type OnChainMetrics } from './lib/external/bitcoin-magazine-pro';
+import {
+  SAMPLE_BRIEF,
+  SAMPLE_BTCTC_MOVERS,
+  SAMPLE_MORNING_SNAPSHOT,
+  SAMPLE_ON_CHAIN_METRICS,
+  buildReportPreview,
+  getDryRunOptions,
+} from './lib/slack/report-preview';
 
 const useTestChannel = process.argv.includes('--test');
+const dryRun = getDryRunOptions({
+  dryRun: process.argv.includes('--dry-run') ? '1' : undefined,
+  fixture: process.argv.includes('--fixture') ? '1' : undefined,
+  post: useTestChannel ? 'test' : undefined,
+});
+const printJson = process.argv.includes('--json');
+
+if (process.argv.includes('--fixture') && !dryRun.enabled) {
+  throw new Error('--fixture needs --dry-run; sample data is never posted for real');
+}
 
 async function runEODReport() {
   try {
     console.log('Generating EOD report...\n');
 
-    const [brief, onChainMetrics] = await Promise.all([
-      fetchBrief(),
-      fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
-        console.warn('On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+    const [brief, onChainMetrics, btctcMovers] = dryRun.fixture
+      ? [SAMPLE_BRIEF, SAMPLE_ON_CHAIN_METRICS, SAMPLE_BTCTC_MOVERS]
+      : await Promise.all([
+          fetchBrief(),
+          fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
+            console.warn('On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+            return null;
+          }),
+          fetchBtctc()
+            .then((b) => computeBtctcMovers(b.companies ?? [], EOD_BTCTC_MOVERS_LIMIT))
+            .catch((err): BtctcMovers | null => {
+              console.warn('BTCTC fetch failed, skipping movers:', err instanceof Error ? err.message : err);
+              return null;
+            }),
+        ]);
+    console.log(`Brief fetched (asOf=${brief.asOf}); on-chain=${onChainMetrics ? 'ok' : 'unavailable'}; btctc=${btctcMovers ? 'ok' : 'unavailable'}`);
+
+    // Drawdown section only — threshold alerts are left to the cron. Fixture
+    // figures don't belong on the real series, so a fixture run skips it.
+    const today = snapshotDateCT();
+    const drawdown = dryRun.fixture ? null : await getEodValueHistory(addDaysIso(today, -1))
+      .then((history) =>
+        summarizeDrawdowns([
+          ...history,
+          { date: today, aumUsd: brief.fund.aumUsd, btcPriceUsd: brief.btc.priceUsd },
+        ])
+      )
+      .catch((err) => {
+        console.warn('Drawdown history unavailable, skipping section:', err instanceof Error ? err.message : err);
         return null;
-      }),
-    ]);
-    console.log(`Brief fetched (asOf=${brief.asOf}); on-chain=${onChainMetrics ? 'ok' : 'unavailable'}`);
+      });
 
-    const blocks = buildEodReportBlocks(brief, onChainMetrics);
+    // Since-this-morning line, against the snapshot the morning cron recorded.
+    // Optional like drawdown: no snapshot (or no Supabase) → no line.
+    const morningSnapshot = dryRun.fixture ? SAMPLE_MORNING_SNAPSHOT : await getTodaySnapshot().catch((err) => {
+      console.warn('Morning snapshot unavailable, skipping since-morning line:', err instanceof Error ? err.message : err);
+      return null;
+    });
+    const since = sinceMorning(morningSnapshot, brief.fund.aumUsd, brief.btc.priceUsd);
+
+    // A compact headline post; the detail goes in threaded replies.
+    const template = config.reportTemplates.eod;
+    const blocks = buildEodReportBlocks(brief, template);
+    const replies = buildEodReportReplies(
+      brief,
+      onChainMetrics,
+      drawdown,
+      closedHomeMarkets(brief.topHoldings, today),
+      since,
+      btctcMovers,
+      template
+    );
+    const text = `210K BRIEF — AUM ${fmtUsd(brief.fund.aumUsd)}`;
+
+    if (dryRun.enabled) {
+      const postedTo = dryRun.postToTest ? config.channels.testDailyReportsId ?? null : null;
+      if (dryRun.postToTest && !postedTo) {
+        throw new Error('TEST_DAILY_REPORTS_CHANNEL_ID is not configured');
+      }
+      if (postedTo) {
+        await postReportThread(postedTo, text, blocks, replies);
+      }
+      const preview = buildReportPreview('eod', dryRun, text, blocks, postedTo, replies);
+      console.log(printJson ? JSON.stringify(preview, null, 2) : `\n${preview.rendered}\n`);
+      console.log(`Dry run (${preview.source} data)${postedTo ? ' — posted to TEST channel' : ' — nothing posted'}`);
+      return;
+    }
 
     const channelId = useTestChannel
       ? config.channels.testDailyReportsId
@@ -43,11 +134,16 @@ async function runEODReport() {
 
     console.log(`\nPosting to ${useTestChannel ? 'TEST' : 'PRODUCTION'} channel...\n`);
 
-    await postMessage(
-      channelId,
-      `210K BRIEF — AUM ${fmtUsd(brief.fund.aumUsd)}`,
-      { blocks }
-    );
+    // Production goes through the post log, so a manual re-run (e.g. after a
+    // data correction) updates the day's report instead of posting another.
+    if (useTestChannel) {
+      await postReportThread(channelId, text, blocks, replies);
+    } else {
+      const published = await publishDailyReport('eod', today, channelId, text, blocks, eodReportFigures(brief), replies);
+      if (published.updated) {
+        console.log(`Updated the earlier post in place (${published.changes.length} figure(s) changed)`);
+      }
+    }
 
     console.log('EOD report posted successfully!');
   } catch (error) {
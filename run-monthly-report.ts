@@ -0,0 +1,76 @@
+/**
+ * Manual trigger script for the month-end report
+ * Usage: npx tsx run-monthly-report.ts [--test] [--month=YYYY-MM]
+ *
+ * Options:
+ *   --test              Post to test channel instead of production
+ *   --month=YYYY-MM     Report this closed month (default: last month)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig({ path: '.env.local' });
+
+import { config } from './lib/config';
+import { postMessage } from './lib/slack/client';
+import { getEodBriefHistory, getMorningBriefHistory } from './lib/supabase/history';
+import { summarizeMonth, TRAILING_MONTHS } from './lib/analytics/monthly';
+import { computePerformanceStats, getDefaultPerformanceOptions } from './lib/analytics/performance';
+import { buildMonthlyReportBlocks } from './lib/slack/blocks';
+import { addMonthsKey, monthEndIso, monthKeyCT } from './lib/utils/dates';
+import { fmtPct } from './lib/format';
+
+const useTestChannel = process.argv.includes('--test');
+const monthArg = process.argv.find((a) => a.startsWith('--month='))?.slice('--month='.length);
+
+async function runMonthlyReport() {
+  try {
+    console.log('Generating month-end report...\n');
+
+    const month = monthArg ?? addMonthsKey(monthKeyCT(), -1);
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      throw new Error(`Invalid --month "${month}" (expected YYYY-MM)`);
+    }
+
+    const from = `${addMonthsKey(month, -(TRAILING_MONTHS - 1))}-01`;
+    const to = monthEndIso(month);
+
+    const [morning, eod] = await Promise.all([
+      getMorningBriefHistory(from, to),
+      getEodBriefHistory(from, to),
+    ]);
+    console.log(`Loaded ${morning.length} morning / ${eod.length} EOD snapshot(s) for ${from}..${to}`);
+
+    const summary = summarizeMonth(month, morning, eod);
+    if (!summary.closed) {
+      throw new Error(`No stored morning MTD for ${month}`);
+    }
+
+    // Risk stats over the same trailing-12-month window as the table; null
+    // (section omitted) until there's enough stored history.
+    const performance = computePerformanceStats(eod, getDefaultPerformanceOptions());
+    const blocks = buildMonthlyReportBlocks(summary, performance);
+
+    const channelId = useTestChannel
+      ? config.channels.testDailyReportsId
+      : config.channels.dailyReportsId;
+
+    if (!channelId) {
+      throw new Error('Channel ID not configured');
+    }
+
+    console.log(`\nPosting to ${useTestChannel ? 'TEST' : 'PRODUCTION'} channel...\n`);
+
+    await postMessage(
+      channelId,
+      `MONTH-END REPORT ${month} — Fund ${fmtPct(summary.closed.fundReturn)} vs BTC ${fmtPct(summary.closed.btcReturn)}`,
+      { blocks }
+    );
+
+    console.log('Month-end report posted successfully!');
+  } catch (error) {
+    console.error('Error generating month-end report:', error);
+    throw error;
+  }
+}
+
+runMonthlyReport();
@@ -1,36 +1,76 @@
 /**
  * Manual trigger script for morning report
- * Usage: npx tsx run-morning-report.ts [--test]
+ * Usage: npx tsx run-morning-report.ts [--test] [--dry-run [--fixture] [--json]]
  *
  * Options:
- *   --test    Post to test channel instead of production
+ *   --test      Post to test channel instead of production
+ *   --dry-run   Print the rendered report instead of posting it (with --test, post it there too)
+ *   --fixture   Render sample data instead of fetching (dry runs only)
+ *   --json      Print the dry-run preview as JSON (blocks included)
  */
 
 import { config as dotenvConfig } from 'dotenv';
 dotenvConfig({ path: '.env.local' });
 
 import { config } from './lib/config';
-import { postMessage } from './lib/slack/client';
+import { postReportThread, publishDailyReport } from './lib/slack/daily-report';
+import { morningReportFigures } from './lib/analytics/report-figures';
 import { fetchMorningBrief } from './lib/terminal/morning-brief';
-import { buildMorningReportBlocks } from './lib/slack/blocks';
+import { isoDateCT } from './lib/utils/dates';
+import { buildMorningReportBlocks, buildMorningReportReplies } from './lib/slack/blocks';
 import { fetchOnChainMetrics, type OnChainMetrics } from './lib/external/bitcoin-magazine-pro';
+import {
+  SAMPLE_MORNING_BRIEF,
+  SAMPLE_ON_CHAIN_METRICS,
+  buildReportPreview,
+  getDryRunOptions,
+} from './lib/slack/report-preview';
 
 const useTestChannel = process.argv.includes('--test');
+const dryRun = getDryRunOptions({
+  dryRun: process.argv.includes('--dry-run') ? '1' : undefined,
+  fixture: process.argv.includes('--fixture') ? '1' : undefined,
+  post: useTestChannel ? 'test' : undefined,
+});
+const printJson = process.argv.includes('--json');
+
+if (process.argv.includes('--fixture') && !dryRun.enabled) {
+  throw new Error('--fixture needs --dry-run; sample data is never posted for real');
+}
 
 async function runMorningReport() {
   try {
     console.log('Generating morning report...\n');
 
-    const [brief, onChainMetrics] = await Promise.all([
-      fetchMorningBrief(),
-      fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
-        console.warn('On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
-        return null;
-      }),
-    ]);
+    const [brief, onChainMetrics] = dryRun.fixture
+      ? [SAMPLE_MORNING_BRIEF, SAMPLE_ON_CHAIN_METRICS]
+      : await Promise.all([
+          fetchMorningBrief(),
+          fetchOnChainMetrics().catch((err): OnChainMetrics | null => {
+            console.warn('On-chain metrics fetch failed, skipping section:', err instanceof Error ? err.message : err);
+            return null;
+          }),
+        ]);
     console.log(`Brief fetched (asOf=${brief.asOf}); on-chain=${onChainMetrics ? 'ok' : 'unavailable'}`);
 
-    const blocks = buildMorningReportBlocks(brief, onChainMetrics);
+    const template = config.reportTemplates.morning;
+    const blocks = buildMorningReportBlocks(brief, onChainMetrics, template);
+    const replies = buildMorningReportReplies(brief, onChainMetrics, template);
+    const text = 'Good Morning — Fund Summary';
+
+    if (dryRun.enabled) {
+      const postedTo = dryRun.postToTest ? config.channels.testDailyReportsId ?? null : null;
+      if (dryRun.postToTest && !postedTo) {
+        throw new Error('TEST_DAILY_REPORTS_CHANNEL_ID is not configured');
+      }
+      if (postedTo) {
+        await postReportThread(postedTo, text, blocks, replies);
+      }
+      const preview = buildReportPreview('morning', dryRun, text, blocks, postedTo, replies);
+      console.log(printJson ? JSON.stringify(preview, null, 2) : `\n${preview.rendered}\n`);
+      console.log(`Dry run (${preview.source} data)${postedTo ? ' — posted to TEST channel' : ' — nothing posted'}`);
+      return;
+    }
 
     const channelId = useTestChannel
       ? config.channels.testDailyReportsId
@@ -42,7 +82,16 @@ async function runMorningReport() {
 
     console.log(`\nPosting to ${useTestChannel ? 'TEST' : 'PRODUCTION'} channel...\n`);
 
-    await postMessage(channelId, 'Good Morning — Fund Summary', { blocks });
+    // Production goes through the post log, so a manual re-run (e.g. after a
+    // data correction) updates the day's report instead of posting another.
+    if (useTestChannel) {
+      await postReportThread(channelId, text, blocks, replies);
+    } else {
+      const published = await publishDailyReport('morning', isoDateCT(), channelId, text, blocks, morningReportFigures(brief), replies);
+      if (published.updated) {
+        console.log(`Updated the earlier post in place (${published.changes.length} figure(s) changed)`);
+      }
+    }
 
     console.log('Morning report posted successfully!');
   } catch (error) {
@@ -0,0 +1,77 @@
+/**
+ * Manual trigger script for the weekly report
+ * Usage: npx tsx run-weekly-report.ts [--test] [--week=YYYY-MM-DD]
+ *
+ * Options:
+ *   --test                Post to test channel instead of production
+ *   --week=YYYY-MM-DD     Report the week containing this date (default: this week)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig({ path: '.env.local' });
+
+import { config } from './lib/config';
+import { postMessage } from './lib/slack/client';
+import { getEodBriefHistory } from './lib/supabase/history';
+import { summarizeWeek } from './lib/analytics/weekly';
+import { computePerformanceStats, getDefaultPerformanceOptions } from './lib/analytics/performance';
+import { buildWeeklyReportBlocks } from './lib/slack/blocks';
+import { addDaysIso, weekStartCT } from './lib/utils/dates';
+import { fmtPct } from './lib/format';
+
+const useTestChannel = process.argv.includes('--test');
+const weekArg = process.argv.find((a) => a.startsWith('--week='))?.slice('--week='.length);
+
+async function runWeeklyReport() {
+  try {
+    console.log('Generating weekly report...\n');
+
+    // Noon UTC keeps the chosen calendar day the same in CT.
+    const anchor = weekArg ? new Date(`${weekArg}T12:00:00Z`) : new Date();
+    const weekStart = weekStartCT(anchor);
+    const weekEnd = addDaysIso(weekStart, 4);
+
+    const perfOptions = getDefaultPerformanceOptions();
+    const windowStart = addDaysIso(weekEnd, -(perfOptions.windowDays - 1));
+    const from = windowStart < weekStart ? windowStart : weekStart;
+
+    const history = await getEodBriefHistory(from, weekEnd);
+    const days = history.filter((d) => d.date >= weekStart);
+    console.log(`Loaded ${days.length} stored EOD snapshot(s) for ${weekStart}..${weekEnd}`);
+
+    if (days.length === 0) {
+      throw new Error(`No stored EOD snapshots for the week of ${weekStart}`);
+    }
+
+    const summary = summarizeWeek(weekStart, days);
+    const performance = computePerformanceStats(
+      history.filter((d) => d.date >= windowStart),
+      perfOptions
+    );
+    console.log(`Risk section: ${performance ? `${performance.observations} daily returns` : 'omitted (not enough history)'}`);
+    const blocks = buildWeeklyReportBlocks(summary, performance);
+
+    const channelId = useTestChannel
+      ? config.channels.testDailyReportsId
+      : config.channels.dailyReportsId;
+
+    if (!channelId) {
+      throw new Error('Channel ID not configured');
+    }
+
+    console.log(`\nPosting to ${useTestChannel ? 'TEST' : 'PRODUCTION'} channel...\n`);
+
+    await postMessage(
+      channelId,
+      `WEEKLY REPORT — Fund WTD ${fmtPct(summary.fundWtdPct)} vs BTC ${fmtPct(summary.btcWtdPct)}`,
+      { blocks }
+    );
+
+    console.log('Weekly report posted successfully!');
+  } catch (error) {
+    console.error('Error generating weekly report:', error);
+    throw error;
+  }
+}
+
+runWeeklyReport();
@@ -0,0 +1,131 @@
+/**
+ * Import pre-go-live fund history into the brief history tables
+ * Usage: npx tsx scripts/backfill-history.ts <file.csv|file.json> [--table=eod|morning] [--dry-run] [--overwrite]
+ *
+ * Options:
+ *   --table=eod|morning   Target table (default: eod → eod_brief_history)
+ *   --dry-run             Validate and report only; write nothing
+ *   --overwrite           Also replace days the crons already wrote (default: keep them)
+ *
+ * Columns (CSV header or JSON keys, snake_case; all but the date optional):
+ *   eod:      date, aum_usd, fund_1d_pct, fund_ytd_pct, btc_price_usd, btc_1d_pct, btc_ytd_pct
+ *   morning:  date, aum_usd, fund_mtd_pct, fund_ytd_pct, cash_usd, btc_price_usd, btc_mtd_pct, btc_ytd_pct
+ *
+ * Percents must be ×100-scaled (-4.2 = -4.2%), the terminal's units contract.
+ * Rows upsert on the date, so re-running the same file is safe.
+ */
+
+import { config } from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname } from 'path';
+
+config({ path: existsSync('.env.local') ? '.env.local' : '.env' });
+
+import { getSupabaseClient } from '../lib/supabase/client';
+import {
+  BACKFILL_SCHEMA_VERSION,
+  parseCsv,
+  parseJsonRecords,
+  toEodBackfillRow,
+  toMorningBackfillRow,
+  validateBackfillRecords,
+  type BackfillTable,
+} from '../lib/supabase/backfill';
+
+const UPSERT_BATCH_SIZE = 500;
+
+const TABLE_NAMES: Record<BackfillTable, string> = {
+  eod: 'eod_brief_history',
+  morning: 'morning_brief_history',
+};
+
+const args = process.argv.slice(2);
+const file = args.find((a) => !a.startsWith('--'));
+const tableArg = args.find((a) => a.startsWith('--table='))?.slice('--table='.length) ?? 'eod';
+const dryRun = args.includes('--dry-run');
+const overwrite = args.includes('--overwrite');
+
+async function backfill() {
+  if (!file) {
+    throw new Error('Usage: npx tsx scripts/backfill-history.ts <file.csv|file.json> [--table=eod|morning] [--dry-run] [--overwrite]');
+  }
+  if (tableArg !== 'eod' && tableArg !== 'morning') {
+    throw new Error(`Unknown --table "${tableArg}" (expected eod or morning)`);
+  }
+  const table: BackfillTable = tableArg;
+  const tableName = TABLE_NAMES[table];
+
+  const text = readFileSync(file, 'utf8');
+  const records = extname(file).toLowerCase() === '.json' ? parseJsonRecords(text) : parseCsv(text);
+  const { valid, rejected } = validateBackfillRecords(table, records);
+
+  console.log(`Read ${records.length} row(s) from ${file} → ${tableName}`);
+  console.log(`  valid:    ${valid.length}`);
+  console.log(`  rejected: ${rejected.length}`);
+
+  if (rejected.length > 0) {
+    console.log('\nRejected rows:');
+    for (const r of rejected) {
+      console.log(`  ${extname(file).toLowerCase() === '.json' ? 'item' : 'line'} ${r.line}${r.date ? ` (${r.date})` : ''}: ${r.reason}`);
+    }
+    // Non-zero exit so a scripted import notices, even though valid rows still load.
+    process.exitCode = 1;
+  }
+
+  if (valid.length === 0) {
+    console.log('\nNothing to import.');
+    return;
+  }
+
+  // Rows the crons wrote carry the real terminal payload; keep them unless told
+  // otherwise. Earlier backfill rows are fair game, which keeps re-runs idempotent.
+  const dates = valid.map((r) => r.date).sort();
+  const client = getSupabaseClient();
+  const { data: existing, error: existingError } = await client
+    .from(tableName)
+    .select('snapshot_date, schema_version')
+    .gte('snapshot_date', dates[0])
+    .lte('snapshot_date', dates[dates.length - 1]);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const live = new Set(
+    (existing ?? [])
+      .filter((row) => Number(row.schema_version) !== BACKFILL_SCHEMA_VERSION)
+      .map((row) => String(row.snapshot_date))
+  );
+  const toWrite = overwrite ? valid : valid.filter((r) => !live.has(r.date));
+  const skipped = valid.length - toWrite.length;
+
+  if (skipped > 0) {
+    console.log(`\nSkipping ${skipped} day(s) already written by the report crons (use --overwrite to replace them).`);
+  }
+
+  if (dryRun) {
+    console.log(`\nDry run: would upsert ${toWrite.length} row(s) into ${tableName}.`);
+    return;
+  }
+
+  const source = basename(file);
+  const rows = toWrite.map((r) =>
+    table === 'eod' ? toEodBackfillRow(r, source) : toMorningBackfillRow(r, source)
+  );
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+    const { error } = await client.from(tableName).upsert(batch, { onConflict: 'snapshot_date' });
+    if (error) {
+      throw error;
+    }
+    console.log(`  upserted ${Math.min(i + UPSERT_BATCH_SIZE, rows.length)}/${rows.length}`);
+  }
+
+  console.log(`\nDone: ${rows.length} upserted, ${skipped} kept, ${rejected.length} rejected.`);
+}
+
+backfill().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exitCode = 1;
+});
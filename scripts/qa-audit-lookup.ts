@@ -0,0 +1,100 @@
+/**
+ * Pull an audited Q&A conversation from qa_audit_log
+ * Usage: npx tsx scripts/qa-audit-lookup.ts <thread_ts|ERR-id> [--full] [--json]
+ *
+ * Options:
+ *   --full   Print tool results in full (default: first 500 characters)
+ *   --json   Print the raw entries as JSON
+ *
+ * An ERR- id (from the bot's error message) resolves to its exchange and then
+ * prints the whole thread it belongs to.
+ */
+
+import { config } from 'dotenv';
+import { existsSync } from 'fs';
+
+config({ path: existsSync('.env.local') ? '.env.local' : '.env' });
+
+import {
+  getQaAuditByErrorId,
+  getQaAuditByThread,
+  type StoredQaAuditEntry,
+} from '../lib/supabase/qa-audit';
+
+const PREVIEW_CHARS = 500;
+
+const args = process.argv.slice(2);
+const key = args.find((a) => !a.startsWith('--'));
+const full = args.includes('--full');
+const asJson = args.includes('--json');
+
+function indent(text: string, prefix = '    '): string {
+  return text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+function printEntry(entry: StoredQaAuditEntry): void {
+  console.log(`\n[${entry.createdAt}] ${entry.status.toUpperCase()} user=${entry.userId ?? '?'} channel=${entry.channel ?? '?'} ts=${entry.eventTs}`);
+  if (entry.errorId) {
+    console.log(`  Error: ${entry.errorId} — ${entry.errorMessage ?? ''}`);
+  }
+  console.log(`  Question: ${entry.question ?? '(none)'}`);
+  if (entry.dataAsOf) {
+    console.log(`  Data asOf: ${entry.dataAsOf}`);
+  }
+
+  for (const call of entry.toolCalls) {
+    const result = full || call.content.length <= PREVIEW_CHARS
+      ? call.content
+      : `${call.content.slice(0, PREVIEW_CHARS)}… (${call.content.length} chars, --full for all)`;
+    console.log(`  Tool ${call.name}(${JSON.stringify(call.input ?? {})})${call.isError ? ' [error]' : ''}:`);
+    console.log(indent(result));
+  }
+
+  if (entry.response) {
+    console.log('  Response:');
+    console.log(indent(entry.response));
+  }
+  if (entry.inputTokens != null || entry.outputTokens != null) {
+    console.log(`  Tokens: ${entry.inputTokens ?? 0} in / ${entry.outputTokens ?? 0} out`);
+  }
+}
+
+async function lookup() {
+  if (!key) {
+    throw new Error('Usage: npx tsx scripts/qa-audit-lookup.ts <thread_ts|ERR-id> [--full] [--json]');
+  }
+
+  let threadTs = key;
+  if (key.toUpperCase().startsWith('ERR-')) {
+    const entry = await getQaAuditByErrorId(key.toUpperCase());
+    if (!entry) {
+      console.log(`No audit entry for ${key}.`);
+      process.exitCode = 1;
+      return;
+    }
+    threadTs = entry.threadTs;
+  }
+
+  const entries = await getQaAuditByThread(threadTs);
+  if (entries.length === 0) {
+    console.log(`No audit entries for thread ${threadTs}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  console.log(`Thread ${threadTs}: ${entries.length} exchange(s)`);
+  entries.forEach(printEntry);
+}
+
+lookup().catch((error) => {
+  console.error('Lookup failed:', error);
+  process.exitCode = 1;
+});
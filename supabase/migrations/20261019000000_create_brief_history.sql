@@ -0,0 +1,55 @@
+-- History tables for the terminal brief payloads posted by the daily reports.
+-- One row per report per CT calendar day; a re-run of the same day's cron
+-- upserts over the earlier row. `payload` keeps the full terminal response and
+-- `schema_version` records which payload shape the row was written from, so
+-- readers can branch if the terminal contract changes.
+
+CREATE TABLE IF NOT EXISTS morning_brief_history (
+  snapshot_date DATE PRIMARY KEY,
+  as_of TIMESTAMP WITH TIME ZONE NOT NULL,
+  schema_version SMALLINT NOT NULL,
+  aum_usd DECIMAL(18, 2),
+  fund_mtd_pct DECIMAL(10, 4),
+  fund_ytd_pct DECIMAL(10, 4),
+  cash_usd DECIMAL(18, 2),
+  btc_price_usd DECIMAL(18, 2),
+  btc_mtd_pct DECIMAL(10, 4),
+  btc_ytd_pct DECIMAL(10, 4),
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE morning_brief_history IS 'Daily /api/morning-brief payloads (AUM, MTD/YTD, cash, BTC price)';
+
+CREATE TABLE IF NOT EXISTS eod_brief_history (
+  snapshot_date DATE PRIMARY KEY,
+  as_of TIMESTAMP WITH TIME ZONE NOT NULL,
+  schema_version SMALLINT NOT NULL,
+  fund_as_of_date DATE,
+  aum_usd DECIMAL(18, 2),
+  fund_1d_pct DECIMAL(10, 4),
+  fund_ytd_pct DECIMAL(10, 4),
+  btc_price_usd DECIMAL(18, 2),
+  btc_1d_pct DECIMAL(10, 4),
+  btc_ytd_pct DECIMAL(10, 4),
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE eod_brief_history IS 'Daily /api/brief payloads (AUM, fund/BTC 1D + YTD, BTC price)';
+
+-- Top holdings from each EOD brief, one row per holding, so per-ticker series
+-- can be queried without unpacking the JSON payload.
+CREATE TABLE IF NOT EXISTS eod_brief_holdings (
+  snapshot_date DATE NOT NULL REFERENCES eod_brief_history(snapshot_date) ON DELETE CASCADE,
+  ticker TEXT NOT NULL,
+  rank SMALLINT NOT NULL,
+  name TEXT NOT NULL,
+  weight_pct DECIMAL(10, 4),
+  change_1d_pct DECIMAL(10, 4),
+  PRIMARY KEY (snapshot_date, ticker)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eod_brief_holdings_ticker ON eod_brief_holdings(ticker, snapshot_date);
+
+COMMENT ON TABLE eod_brief_holdings IS 'Top holdings (weight + 1D) from each EOD brief';
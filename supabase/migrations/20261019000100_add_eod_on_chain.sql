@@ -0,0 +1,4 @@
+-- Keep the on-chain metrics (with their regime classifications) the EOD report
+-- rendered alongside its brief, so the weekly report can compare regimes across
+-- the week. Null when Bitcoin Magazine Pro was unavailable for that run.
+ALTER TABLE eod_brief_history ADD COLUMN IF NOT EXISTS on_chain JSONB;
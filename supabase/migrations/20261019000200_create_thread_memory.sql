@@ -0,0 +1,19 @@
+-- Durable Slack thread memory for the Q&A bot (lib/claude/memory.ts).
+-- One row per thread: the recent messages (with the tool data behind each
+-- answer), a summary of anything older, and an expiry. Follow-ups read the row
+-- back on whichever instance handles them; expired rows are ignored on read and
+-- deleted by the weekly maintenance cron.
+
+CREATE TABLE IF NOT EXISTS thread_memory (
+  thread_ts TEXT PRIMARY KEY,
+  channel TEXT,
+  messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  summary TEXT,
+  last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_thread_memory_expires_at ON thread_memory(expires_at);
+
+COMMENT ON TABLE thread_memory IS 'Slack Q&A thread context (messages, summary) with a 24h TTL';
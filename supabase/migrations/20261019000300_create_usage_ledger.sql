@@ -0,0 +1,68 @@
+-- Claude API usage ledger for the Q&A bot (lib/supabase/usage-ledger.ts).
+-- One row per answered question: who asked, where, which model, the tokens
+-- used and the estimated cost. Budgets are enforced against the rolling sum of
+-- cost_usd, so they hold across serverless instances, and the rows double as
+-- the spend history.
+--
+-- A request first RESERVES a row (status 'reserved', cost_usd = a per-request
+-- hold) through reserve_usage_budget, which serialises on a per-user advisory
+-- lock so concurrent requests can't both pass the check. The row is settled
+-- with the real tokens/cost once Claude answers, or deleted if it never does.
+
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  channel TEXT,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'settled' CHECK (status IN ('reserved', 'settled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_user_created ON usage_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at);
+
+COMMENT ON TABLE usage_ledger IS 'Per-request Claude usage and estimated cost, for budgets and spend reporting';
+
+-- Atomic budget check: under a per-user lock, sum the user's spend since
+-- p_since and, if p_reserve_usd more still fits in p_budget_usd, insert a
+-- reservation row. Returns whether it was allowed, the reservation id (null
+-- when refused), the spend before this request, and the oldest row in the
+-- window (when the budget starts to free up).
+CREATE OR REPLACE FUNCTION reserve_usage_budget(
+  p_user_id TEXT,
+  p_channel TEXT,
+  p_model TEXT,
+  p_reserve_usd NUMERIC,
+  p_budget_usd NUMERIC,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (allowed BOOLEAN, entry_id BIGINT, spent_usd NUMERIC, oldest_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_spent NUMERIC;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_id BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('usage_ledger:' || p_user_id));
+
+  SELECT COALESCE(SUM(l.cost_usd), 0), MIN(l.created_at)
+    INTO v_spent, v_oldest
+    FROM usage_ledger l
+   WHERE l.user_id = p_user_id AND l.created_at >= p_since;
+
+  IF v_spent + p_reserve_usd > p_budget_usd THEN
+    RETURN QUERY SELECT FALSE, NULL::BIGINT, v_spent, v_oldest;
+    RETURN;
+  END IF;
+
+  INSERT INTO usage_ledger (user_id, channel, model, cost_usd, status)
+  VALUES (p_user_id, p_channel, p_model, p_reserve_usd, 'reserved')
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT TRUE, v_id, v_spent, COALESCE(v_oldest, NOW());
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Audit log of Slack Q&A exchanges (lib/supabase/qa-audit.ts), so "the bot told
+-- me X yesterday" can be checked against what it actually saw and said.
+-- One row per handled question: the sanitized question, who/where, every tool
+-- call with its input and result, the terminal data asOf, token usage, the
+-- final response, and the error ID on failures. Look rows up with
+-- scripts/qa-audit-lookup.ts by thread ts or ERR- id.
+
+CREATE TABLE IF NOT EXISTS qa_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  event_ts TEXT NOT NULL,
+  thread_ts TEXT NOT NULL,
+  user_id TEXT,
+  channel TEXT,
+  status TEXT NOT NULL CHECK (status IN ('answered', 'cached', 'rejected', 'rate_limited', 'over_budget', 'error')),
+  question TEXT,
+  data_as_of TIMESTAMP WITH TIME ZONE,
+  tool_calls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  response TEXT,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  error_id TEXT,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_audit_log_thread ON qa_audit_log(thread_ts, created_at);
+CREATE INDEX IF NOT EXISTS idx_qa_audit_log_error_id ON qa_audit_log(error_id) WHERE error_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_qa_audit_log_created ON qa_audit_log(created_at);
+
+COMMENT ON TABLE qa_audit_log IS 'Slack Q&A questions, tool calls, answers and errors for after-the-fact review';
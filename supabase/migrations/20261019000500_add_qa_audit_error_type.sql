@@ -0,0 +1,4 @@
+-- Classify failed Q&A exchanges (timeout, ai_service, terminal, …) as shown to
+-- the user, so /api/admin/usage can count errors by type.
+
+ALTER TABLE qa_audit_log ADD COLUMN IF NOT EXISTS error_type TEXT;
@@ -0,0 +1,30 @@
+-- State for the intraday holdings move alerts (api/cron/holding-move-alerts.ts).
+-- The cron polls positions every 15 minutes in market hours; these tables keep
+-- it from re-alerting the same move every poll.
+--
+-- holding_alert_threads: the day's parent message; every alert that day is a
+-- reply in its thread.
+-- holding_move_alerts: per day and ticker, the move last alerted. A ticker
+-- re-alerts only when its move widens past that by the escalation step, or
+-- flips direction through the threshold.
+
+CREATE TABLE IF NOT EXISTS holding_alert_threads (
+  alert_date DATE PRIMARY KEY,
+  channel TEXT NOT NULL,
+  thread_ts TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE holding_alert_threads IS 'Daily Slack parent message for intraday holding move alerts';
+
+CREATE TABLE IF NOT EXISTS holding_move_alerts (
+  alert_date DATE NOT NULL,
+  ticker TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('up', 'down')),
+  alerted_pct DECIMAL(10, 4) NOT NULL,
+  alert_count INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (alert_date, ticker)
+);
+
+COMMENT ON TABLE holding_move_alerts IS 'Last alerted intraday 1D move per holding per day, for de-duplication and escalation';
@@ -0,0 +1,28 @@
+-- User-defined alert rules created from Slack ("alert me if MSTR diluted mNAV
+-- drops below 1.2"). api/cron/user-alerts.ts evaluates the active rules every
+-- 15 minutes and DMs the owner when one fires.
+--
+-- Rules are edge-triggered: last_condition holds the condition at the previous
+-- evaluation, and a rule fires only when it goes from not-true to true.
+
+CREATE TABLE IF NOT EXISTS user_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  channel TEXT,
+  metric TEXT NOT NULL,
+  ticker TEXT,
+  operator TEXT NOT NULL CHECK (operator IN ('above', 'below')),
+  threshold DECIMAL(20, 6) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_condition BOOLEAN,
+  last_value DECIMAL(20, 6),
+  last_evaluated_at TIMESTAMP WITH TIME ZONE,
+  last_triggered_at TIMESTAMP WITH TIME ZONE,
+  trigger_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_alerts_user ON user_alerts (user_id);
+CREATE INDEX IF NOT EXISTS idx_user_alerts_active ON user_alerts (active) WHERE active;
+
+COMMENT ON TABLE user_alerts IS 'Slack user alert rules on BTCTC, position and on-chain metrics';
@@ -0,0 +1,17 @@
+-- Last on-chain regime per metric, for the regime change alerts
+-- (api/cron/onchain-regime-alerts.ts).
+--
+-- regime is the classification the daily reports show (Fear & Greed "Greed",
+-- NUPL "Belief", funding "Bearish", ...). since is when the metric entered it,
+-- so an alert can say how long the prior regime lasted; value is the latest
+-- reading, so it can say where the metric came from.
+
+CREATE TABLE IF NOT EXISTS onchain_regimes (
+  metric TEXT PRIMARY KEY CHECK (metric IN ('fearGreed', 'mvrv', 'nupl', 'fundingRate')),
+  regime TEXT NOT NULL,
+  value DECIMAL(20, 8) NOT NULL,
+  since TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onchain_regimes IS 'Current on-chain metric regime and when it began, for regime change alerts';
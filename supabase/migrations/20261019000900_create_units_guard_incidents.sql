@@ -0,0 +1,29 @@
+-- Units-guard incidents (lib/slack/incidents.ts). When a terminal endpoint
+-- fails the percent-units check (assertPercentUnits), one incident opens and
+-- posts to the ops channel; repeats within the window only bump the counters,
+-- and the first clean response from the endpoint resolves it with a recovery
+-- reply in the incident's thread.
+--
+-- At most one open incident per endpoint (partial unique index).
+
+CREATE TABLE IF NOT EXISTS units_guard_incidents (
+  id BIGSERIAL PRIMARY KEY,
+  endpoint TEXT NOT NULL,
+  context TEXT NOT NULL,
+  field TEXT NOT NULL,
+  value DECIMAL(20, 6) NOT NULL,
+  max_abs DECIMAL(20, 6) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_posted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  channel TEXT,
+  message_ts TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_units_guard_incidents_open
+  ON units_guard_incidents (endpoint) WHERE status = 'open';
+
+COMMENT ON TABLE units_guard_incidents IS 'Terminal percent-units guard trips, one open incident per endpoint';
@@ -0,0 +1,27 @@
+-- Dead-man's switch for the daily reports (api/cron/report-watchdog.ts).
+--
+-- report_posts: one row per successful morning/EOD post — the report's CT
+-- business date and the Slack message it went out as. The watchdog pages when
+-- the row for an expected report is still missing after the grace period.
+-- report_watchdog_pages: one row per missing report paged, so the watchdog
+-- (every 15 minutes) pages once rather than every run.
+
+CREATE TABLE IF NOT EXISTS report_posts (
+  report_type TEXT NOT NULL CHECK (report_type IN ('morning', 'eod')),
+  report_date DATE NOT NULL,
+  channel TEXT NOT NULL,
+  message_ts TEXT,
+  posted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (report_type, report_date)
+);
+
+COMMENT ON TABLE report_posts IS 'Successful daily report posts (CT date, Slack ts), checked by the report watchdog';
+
+CREATE TABLE IF NOT EXISTS report_watchdog_pages (
+  report_type TEXT NOT NULL CHECK (report_type IN ('morning', 'eod')),
+  report_date DATE NOT NULL,
+  paged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (report_type, report_date)
+);
+
+COMMENT ON TABLE report_watchdog_pages IS 'Missing daily reports the watchdog has already paged about';
@@ -0,0 +1,8 @@
+-- In-place report updates (lib/slack/daily-report.ts). A re-run of the morning
+-- or EOD report updates the day's message instead of posting again, and threads
+-- a note naming the figures that changed — so the post log keeps the figures
+-- each post showed, and when it was last updated.
+
+ALTER TABLE report_posts ADD COLUMN IF NOT EXISTS figures JSONB;
+ALTER TABLE report_posts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE report_posts ADD COLUMN IF NOT EXISTS update_count INTEGER NOT NULL DEFAULT 0;
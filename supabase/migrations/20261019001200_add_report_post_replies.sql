@@ -0,0 +1,6 @@
+-- Threaded detail replies (lib/slack/daily-report.ts). The EOD post keeps the
+-- headline figures and threads its detail sections underneath; the post log
+-- keeps each reply's ts by section key, so a re-run edits the same replies
+-- instead of threading a second set.
+
+ALTER TABLE report_posts ADD COLUMN IF NOT EXISTS reply_ts JSONB NOT NULL DEFAULT '{}'::jsonb;
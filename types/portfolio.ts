@@ -49,15 +49,17 @@ export interface CategoryBreakdown {
   positions: Position[];
 }
 
+// Produced by lib/analytics/performance.ts. Percents are ×100-scaled; a ratio is
+// null when it is undefined for the window (no variance / no downside days).
 export interface PerformanceMetrics {
   cumulativeReturn: number;
   monthlyReturns: MonthlyReturn[];
   volatility: number;
-  sharpeRatio: number;
-  sortinoRatio: number;
-  alpha: number;
-  beta: number;
-  correlation: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  alpha: number | null;
+  beta: number | null;
+  correlation: number | null;
 }
 
 export interface MonthlyReturn {
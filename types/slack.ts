@@ -10,6 +10,7 @@ export interface SlackMessage {
 
 export interface ThreadContext {
   threadTs: string;
+  channel?: string;
   messages: ThreadMessage[];
   lastUpdated: number;
   summary?: string;
@@ -19,6 +20,7 @@ export interface ThreadMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  toolContext?: string; // assistant only: the tool data the answer was built from
 }
 
 export interface SlackEventPayload {